@@ -0,0 +1,127 @@
+import path from 'path';
+import fs from 'fs-extra';
+import Redis from 'ioredis';
+import { config } from './config';
+import logger from './logger';
+import { FleetSummary, mergeSnapshots, RunnerSnapshot, SNAPSHOTS_KEY } from '../runner/snapshot';
+import { formatLatencySummary } from '../runner/histogram';
+
+// Combines the stats snapshots published by the runners into a view of the whole fleet
+export class Aggregator {
+  private redis: Redis;
+
+  constructor() {
+    // Initialize Redis client
+    try {
+      this.redis = new Redis(config.redisUrl);
+      logger.info(`Connected to Redis at ${config.redisUrl}`);
+
+      // Handle Redis connection events
+      this.redis.on('error', (err) => {
+        logger.error(`Redis connection error: ${err.message}`);
+      });
+
+      this.redis.on('reconnecting', () => {
+        logger.warn('Reconnecting to Redis...');
+      });
+    } catch (error) {
+      logger.error(`Failed to connect to Redis: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  // Read the latest snapshot of every runner
+  public async collect(): Promise<RunnerSnapshot[]> {
+    const entries = await this.redis.hgetall(SNAPSHOTS_KEY);
+    const snapshots: RunnerSnapshot[] = [];
+
+    for (const [runnerId, value] of Object.entries(entries)) {
+      try {
+        snapshots.push(JSON.parse(value) as RunnerSnapshot);
+      } catch (error) {
+        logger.warn(`Ignoring invalid snapshot of runner ${runnerId}: ${(error as Error).message}`);
+      }
+    }
+
+    return snapshots;
+  }
+
+  // Merge the snapshots of all runners
+  public async aggregate(): Promise<FleetSummary> {
+    return mergeSnapshots(await this.collect());
+  }
+
+  // Whether every expected runner has published its final snapshot
+  public isComplete(summary: FleetSummary): boolean {
+    const expected = config.expectedRunners > 0 ? config.expectedRunners : summary.runners.length;
+    return expected > 0 && summary.finishedRunners >= expected;
+  }
+
+  // Log the combined live view of the fleet
+  public printStatus(summary: FleetSummary): void {
+    logger.info('-'.repeat(40));
+    logger.info(`Fleet status - ${summary.runners.length} runners (${summary.finishedRunners} finished), test mode: ${summary.testMode}`);
+    if (summary.stages.length > 0) {
+      logger.info(`Current stages: ${summary.stages.join(', ')}`);
+    }
+    logger.info(`Connections: ${summary.connections.total}, active: ${summary.connections.active}`);
+    logger.info(`Attempts: ${summary.attempts}, successes: ${summary.successes}, errors: ${summary.errors.total}, success rate: ${summary.successRate.toFixed(2)}%`);
+    for (const [name, stats] of Object.entries(summary.latency)) {
+      logger.info(`Latency ${name}: p50=${stats.p50.toFixed(2)}ms p95=${stats.p95.toFixed(2)}ms p99=${stats.p99.toFixed(2)}ms`);
+    }
+    logger.info('-'.repeat(40));
+  }
+
+  // Log the end-of-test report of the fleet
+  public printSummary(summary: FleetSummary): void {
+    logger.info('='.repeat(60));
+    logger.info(`Fleet summary - ${summary.runners.length} runners: ${summary.runners.join(', ')}`);
+    logger.info(`Test mode: ${summary.testMode}, ${summary.finishedRunners} of ${summary.runners.length} runners finished`);
+    logger.info(`Duration: ${(summary.durationMs / 1000).toFixed(1)}s`);
+    logger.info(`Attempts: ${summary.attempts}, successes: ${summary.successes}, success rate: ${summary.successRate.toFixed(2)}%`);
+    logger.info(`Throughput: ${summary.throughput.attemptsPerSecond.toFixed(2)} attempts/s, ${summary.throughput.successesPerSecond.toFixed(2)} successes/s`);
+    logger.info(`Errors: ${summary.errors.total}`);
+    for (const [category, count] of Object.entries(summary.errors.byCategory)) {
+      if (count > 0) {
+        logger.info(`  ${category}: ${count}`);
+      }
+    }
+    for (const [code, count] of Object.entries(summary.statusCodes)) {
+      logger.info(`HTTP status ${code}: ${count}`);
+    }
+    for (const [code, count] of Object.entries(summary.closeCodes)) {
+      logger.info(`WebSocket close code ${code}: ${count}`);
+    }
+    for (const [name, count] of Object.entries(summary.counters)) {
+      logger.info(`${name}: ${count}`);
+    }
+    for (const [name, stats] of Object.entries(summary.latency)) {
+      logger.info(formatLatencySummary(name, stats));
+    }
+    logger.info('='.repeat(60));
+  }
+
+  // Write the report as a JSON file
+  public async writeSummary(summary: FleetSummary): Promise<void> {
+    const filePath = path.resolve(config.summaryFile);
+
+    try {
+      await fs.outputJson(filePath, summary, { spaces: 2 });
+      logger.info(`Fleet summary written to ${filePath}`);
+    } catch (error) {
+      logger.error(`Failed to write fleet summary to ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  // Close Redis connection
+  public async close(): Promise<void> {
+    try {
+      await this.redis.quit();
+      logger.info('Redis connection closed');
+    } catch (error) {
+      logger.error(`Error closing Redis connection: ${(error as Error).message}`);
+    }
+  }
+}
+
+export default Aggregator;
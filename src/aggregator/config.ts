@@ -0,0 +1,59 @@
+import dotenv from 'dotenv';
+
+// Load environment variables from .env file if present
+dotenv.config();
+
+export enum LogLevel {
+  DEBUG = 'debug',
+  INFO = 'info',
+  WARN = 'warn',
+  ERROR = 'error'
+}
+
+export interface Config {
+  redisUrl: string;
+  logLevel: LogLevel;
+  aggregateIntervalMs: number;
+  expectedRunners: number;
+  summaryFile: string;
+}
+
+// Parse and validate environment variables
+function parseEnv(): Config {
+  // Required environment variables
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) {
+    throw new Error('REDIS_URL environment variable is required');
+  }
+
+  // Optional environment variables with defaults
+  const logLevelStr = process.env.LOG_LEVEL || 'info';
+  if (!Object.values(LogLevel).includes(logLevelStr as LogLevel)) {
+    throw new Error(`LOG_LEVEL must be one of: ${Object.values(LogLevel).join(', ')}`);
+  }
+  const logLevel = logLevelStr as LogLevel;
+
+  const aggregateIntervalMs = parseInt(process.env.AGGREGATE_INTERVAL_MS || '5000', 10);
+  if (isNaN(aggregateIntervalMs) || aggregateIntervalMs <= 0) {
+    throw new Error('AGGREGATE_INTERVAL_MS must be a positive number');
+  }
+
+  // Number of runners to wait for before the final report (0 waits for every runner that published)
+  const expectedRunners = parseInt(process.env.EXPECTED_RUNNERS || '0', 10);
+  if (isNaN(expectedRunners) || expectedRunners < 0) {
+    throw new Error('EXPECTED_RUNNERS must be a non-negative number');
+  }
+
+  // Path of the JSON report written at the end of the test
+  const summaryFile = process.env.SUMMARY_FILE || 'summary-fleet.json';
+
+  return {
+    redisUrl,
+    logLevel,
+    aggregateIntervalMs,
+    expectedRunners,
+    summaryFile
+  };
+}
+
+export const config = parseEnv();
@@ -0,0 +1,90 @@
+import { config } from './config';
+import logger from './logger';
+import Aggregator from './aggregator';
+
+let pollInterval: NodeJS.Timeout | null = null;
+let isFinishing: boolean = false;
+
+// Print startup banner
+function printBanner(): void {
+  logger.info('='.repeat(60));
+  logger.info('Load Tester - Fleet Aggregator');
+  logger.info(`Redis URL: ${config.redisUrl}`);
+  logger.info(`Aggregate interval: ${config.aggregateIntervalMs}ms`);
+  logger.info(`Expected runners: ${config.expectedRunners > 0 ? config.expectedRunners : 'all runners that publish'}`);
+  logger.info(`Summary file: ${config.summaryFile}`);
+  logger.info(`Log Level: ${config.logLevel}`);
+  logger.info('='.repeat(60));
+}
+
+// Report the combined results of the fleet and exit
+async function finish(aggregator: Aggregator, reason: string): Promise<void> {
+  if (isFinishing) return;
+  isFinishing = true;
+
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+
+  logger.info(`Building fleet report: ${reason}`);
+  try {
+    const summary = await aggregator.aggregate();
+    aggregator.printSummary(summary);
+    await aggregator.writeSummary(summary);
+  } catch (error) {
+    logger.error(`Failed to build fleet report: ${(error as Error).message}`);
+  }
+
+  await aggregator.close();
+  process.exit(0);
+}
+
+// Start the aggregator
+async function start(): Promise<void> {
+  try {
+    printBanner();
+
+    const aggregator = new Aggregator();
+
+    // Handle process termination
+    process.on('SIGINT', () => {
+      logger.info('Received SIGINT signal');
+      finish(aggregator, 'SIGINT received');
+    });
+
+    process.on('SIGTERM', () => {
+      logger.info('Received SIGTERM signal');
+      finish(aggregator, 'SIGTERM received');
+    });
+
+    // Show the live view until every expected runner has finished
+    const poll = async () => {
+      try {
+        const summary = await aggregator.aggregate();
+        if (isFinishing) return;
+        if (aggregator.isComplete(summary)) {
+          await finish(aggregator, 'all runners finished');
+          return;
+        }
+        aggregator.printStatus(summary);
+      } catch (error) {
+        logger.error(`Failed to aggregate snapshots: ${(error as Error).message}`);
+      }
+    };
+
+    await poll();
+    if (!isFinishing) {
+      pollInterval = setInterval(poll, config.aggregateIntervalMs);
+    }
+  } catch (error) {
+    logger.error(`Failed to start aggregator: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+// Start the application
+start().catch(error => {
+  logger.error(`Unhandled error: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+import fs from 'fs-extra';
+import path from 'path';
+import csvParser from 'csv-parser';
+
+// Interface for CSV row data
+export interface CsvRow {
+  level: string;
+  [key: string]: string;
+}
+
+// Rows kept after level filtering, with the file's headers
+export interface CsvReadResult {
+  headers: string[];
+  rows: CsvRow[];
+}
+
+// Read a CSV file with a 'level' column, keeping rows whose level is <= maxLevel
+export async function readCsvRows(csvPath: string, maxLevel: number): Promise<CsvReadResult> {
+  const csvFilePath = path.resolve(csvPath);
+
+  // Check if file exists
+  if (!await fs.pathExists(csvFilePath)) {
+    throw new Error(`CSV file not found: ${csvFilePath}`);
+  }
+
+  const rows: CsvRow[] = [];
+  const headers: string[] = [];
+  let headersParsed = false;
+
+  // Parse CSV file
+  await new Promise<void>((resolve, reject) => {
+    fs.createReadStream(csvFilePath)
+      .pipe(csvParser())
+      .on('headers', (csvHeaders: string[]) => {
+        headersParsed = true;
+        headers.push(...csvHeaders);
+
+        // Validate that 'level' column exists
+        if (!headers.includes('level')) {
+          reject(new Error("CSV file must contain a 'level' column"));
+        }
+      })
+      .on('data', (row: CsvRow) => {
+        // Parse level as integer
+        const rowLevel = parseInt(row.level, 10);
+
+        // Filter rows based on the maximum level
+        if (!isNaN(rowLevel) && rowLevel <= maxLevel) {
+          rows.push(row);
+        }
+      })
+      .on('end', () => {
+        resolve();
+      })
+      .on('error', (error) => {
+        reject(new Error(`Error parsing CSV file: ${error.message}`));
+      });
+  });
+
+  if (!headersParsed) {
+    throw new Error('Failed to parse CSV headers');
+  }
+
+  return { headers, rows };
+}
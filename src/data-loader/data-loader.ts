@@ -1,20 +1,20 @@
-import fs from 'fs-extra';
 import path from 'path';
-import csvParser from 'csv-parser';
 import Redis from 'ioredis';
 import { config } from './config';
 import logger from './logger';
-
-// Interface for CSV row data
-interface CsvRow {
-  level: string;
-  [key: string]: string;
-}
+import { CsvRow, readCsvRows } from './csv-reader';
 
 export class DataLoader {
   private redis: Redis;
   private dataKey = 'test:data';
   private countKey = 'test:data:count';
+  // Rows consumed by each runner during the previous test, and the read position of rows read by index
+  private consumedKey = 'test:data:consumed';
+  private cursorKeys = ['test:data:cursor', 'test:data:seed', 'test:data:returned', 'test:data:readers'];
+  // Start barrier state left by the runners of a previous test
+  private barrierKeys = ['test:barrier:ready', 'test:barrier:start', 'test:barrier:left', 'test:barrier:running'];
+  // Stats snapshots published by the runners of a previous test
+  private snapshotsKey = 'test:snapshots';
 
   constructor() {
     // Initialize Redis client
@@ -47,52 +47,8 @@ export class DataLoader {
     logger.info(`Filtering rows with level <= ${config.dataLevel}`);
 
     try {
-      // Check if file exists
-      if (!await fs.pathExists(csvFilePath)) {
-        throw new Error(`CSV file not found: ${csvFilePath}`);
-      }
-
-      const rows: CsvRow[] = [];
-      const headers: string[] = [];
-      let headersParsed = false;
-
-      // Parse CSV file
-      await new Promise<void>((resolve, reject) => {
-        fs.createReadStream(csvFilePath)
-          .pipe(csvParser())
-          .on('headers', (csvHeaders: string[]) => {
-            headersParsed = true;
-            headers.push(...csvHeaders);
-
-            // Validate that 'level' column exists
-            if (!headers.includes('level')) {
-              reject(new Error("CSV file must contain a 'level' column"));
-              return;
-            }
-
-            logger.info(`CSV headers: ${headers.join(', ')}`);
-          })
-          .on('data', (row: CsvRow) => {
-            // Parse level as integer
-            const rowLevel = parseInt(row.level, 10);
-
-            // Filter rows based on DATA_LEVEL
-            if (!isNaN(rowLevel) && rowLevel <= config.dataLevel) {
-              rows.push(row);
-            }
-          })
-          .on('end', () => {
-            resolve();
-          })
-          .on('error', (error) => {
-            reject(new Error(`Error parsing CSV file: ${error.message}`));
-          });
-      });
-
-      if (!headersParsed) {
-        throw new Error('Failed to parse CSV headers');
-      }
-
+      const { headers, rows } = await readCsvRows(config.csvPath, config.dataLevel);
+      logger.info(`CSV headers: ${headers.join(', ')}`);
       logger.info(`Parsed ${rows.length} rows matching level criteria`);
 
       // Store data in Redis
@@ -106,8 +62,8 @@ export class DataLoader {
   // Store filtered data in Redis as a list
   private async storeDataInRedis(rows: CsvRow[]): Promise<void> {
     try {
-      // First, delete any existing data in the list
-      await this.redis.del(this.dataKey);
+      // First, delete any existing data in the list and reset the read position, consumed counts, start barrier and snapshots for the new test
+      await this.redis.del(this.dataKey, this.consumedKey, this.snapshotsKey, ...this.cursorKeys, ...this.barrierKeys);
 
       if (rows.length === 0) {
         logger.warn('No rows to store in Redis');
@@ -0,0 +1,143 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.TEST_MODE = 'http';
+process.env.HTTP_URL = 'http://127.0.0.1:1';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+
+import type { ArrivalRateScheduler } from './arrival-rate';
+
+// Scheduler whose iterations stay in flight until they are finished by the test
+async function createScheduler(rate: number, durationMs: number, maxInFlight: number, lateThresholdMs: number = 1000): Promise<{
+  scheduler: ArrivalRateScheduler,
+  started: number[],
+  finishAll: () => void
+}> {
+  const { ArrivalRateScheduler } = await import('./arrival-rate');
+  const started: number[] = [];
+  let pending: (() => void)[] = [];
+
+  const scheduler = new ArrivalRateScheduler(rate, durationMs, maxInFlight, lateThresholdMs, intendedStartTime => {
+    started.push(intendedStartTime);
+    return new Promise<void>(resolve => pending.push(resolve));
+  });
+  const finishAll = () => {
+    pending.forEach(resolve => resolve());
+    pending = [];
+  };
+  return { scheduler, started, finishAll };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: 0 });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ArrivalRateScheduler', () => {
+  it('starts iterations at the arrival rate and finishes once they are done', async () => {
+    const { scheduler, started, finishAll } = await createScheduler(10, 1000, 100);
+    let finished = false;
+    scheduler.run().then(() => finished = true);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 100, 200, 300, 400, 500]);
+
+    await jest.advanceTimersByTimeAsync(600);
+    expect(started).toHaveLength(10);
+    expect(started[9]).toBe(900);
+
+    // The schedule is over, but iterations are still in flight
+    expect(finished).toBe(false);
+    expect(scheduler.getInFlight()).toBe(10);
+
+    finishAll();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(finished).toBe(true);
+  });
+
+  it('starts the first iteration right away and none late when the clock is on time', async () => {
+    const { statsManager } = await import('./stats');
+    const iterationLate = jest.spyOn(statsManager, 'iterationLate');
+    const { scheduler, started, finishAll } = await createScheduler(10, 1000, 100, 5);
+    const run = scheduler.run();
+
+    expect(started).toEqual([0]);
+
+    await jest.advanceTimersByTimeAsync(1100);
+    expect(started).toEqual([0, 100, 200, 300, 400, 500, 600, 700, 800, 900]);
+    expect(iterationLate).not.toHaveBeenCalled();
+
+    iterationLate.mockRestore();
+    finishAll();
+    await run;
+  });
+
+  it('drops iterations while the in-flight limit is reached', async () => {
+    const { statsManager } = await import('./stats');
+    const droppedBefore = statsManager.getHttpStats().droppedIterations;
+    const { scheduler, started, finishAll } = await createScheduler(10, 1000, 3);
+    const run = scheduler.run();
+
+    await jest.advanceTimersByTimeAsync(1100);
+    expect(started).toHaveLength(3);
+    expect(statsManager.getHttpStats().droppedIterations - droppedBefore).toBe(7);
+
+    finishAll();
+    await run;
+  });
+
+  it('does not count paused time towards the duration', async () => {
+    const { scheduler, started, finishAll } = await createScheduler(10, 1000, 100);
+    let finished = false;
+    scheduler.run().then(() => finished = true);
+
+    await jest.advanceTimersByTimeAsync(500);
+    scheduler.pause();
+    expect(started).toHaveLength(6);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(started).toHaveLength(6);
+
+    scheduler.resume();
+    await jest.advanceTimersByTimeAsync(600);
+    expect(started).toHaveLength(10);
+
+    finishAll();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(finished).toBe(true);
+  });
+
+  it('applies a new rate to the rest of the duration', async () => {
+    const { scheduler, started, finishAll } = await createScheduler(10, 1000, 100);
+    const run = scheduler.run();
+
+    await jest.advanceTimersByTimeAsync(500);
+    scheduler.setRate(20);
+    await jest.advanceTimersByTimeAsync(600);
+    // Six iterations in the first 600ms at 10/s, then eight in the remaining 400ms at 20/s
+    expect(started).toHaveLength(6 + 8);
+    expect(started.slice(5, 8)).toEqual([500, 600, 650]);
+
+    finishAll();
+    await run;
+  });
+
+  it('finishes early when stopped', async () => {
+    const { scheduler, started, finishAll } = await createScheduler(10, 60000, 100);
+    let finished = false;
+    scheduler.run().then(() => finished = true);
+
+    await jest.advanceTimersByTimeAsync(250);
+    scheduler.stop();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(started).toHaveLength(3);
+    expect(finished).toBe(false);
+
+    finishAll();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(finished).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import logger from './logger';
+import { statsManager } from './stats';
+
+// Interval at which due iterations are started
+const TICK_INTERVAL_MS = 10;
+
+// Starts iterations at a fixed arrival rate, independent of how long each one takes.
+// Each iteration receives its intended start time so latency can be measured from
+// when the request should have been sent rather than when it actually was.
+export class ArrivalRateScheduler {
+  private rate: number;
+  private durationMs: number;
+  private maxInFlight: number;
+  private lateThresholdMs: number;
+  private execute: (intendedStartTime: number) => Promise<void>;
+  private timer: NodeJS.Timeout | null = null;
+  private startTime: number = 0;
+  private issued: number = 0;
+  private issuedBefore: number = 0;
+  private inFlight: number = 0;
+  private stopped: boolean = false;
+  private paused: boolean = false;
+  private onFinished: (() => void) | null = null;
+
+  constructor(
+    rate: number,
+    durationMs: number,
+    maxInFlight: number,
+    lateThresholdMs: number,
+    execute: (intendedStartTime: number) => Promise<void>
+  ) {
+    this.rate = rate;
+    this.durationMs = durationMs;
+    this.maxInFlight = maxInFlight;
+    this.lateThresholdMs = lateThresholdMs;
+    this.execute = execute;
+  }
+
+  // Run the schedule; resolves once the duration has elapsed and in-flight iterations are done
+  public run(): Promise<void> {
+    this.startTime = Date.now();
+    this.issued = 0;
+    this.issuedBefore = 0;
+    this.stopped = false;
+
+    logger.info(`Starting arrival-rate schedule: ${this.rate} iterations/second for ${this.durationMs}ms (max ${this.maxInFlight} in flight)`);
+
+    return new Promise<void>((resolve) => {
+      this.onFinished = resolve;
+      this.timer = setInterval(this.tick.bind(this), TICK_INTERVAL_MS);
+      // The first iteration is due right away
+      this.tick();
+    });
+  }
+
+  // Stop starting new iterations
+  public stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.finishIfIdle();
+  }
+
+  // Stop starting iterations until resumed; paused time does not count towards the duration
+  public pause(): void {
+    if (this.paused || this.stopped) return;
+
+    this.tick();
+    this.restartSchedule();
+    this.paused = true;
+  }
+
+  // Start iterations again
+  public resume(): void {
+    if (!this.paused) return;
+
+    this.startTime = Date.now();
+    this.paused = false;
+  }
+
+  // Change the arrival rate for the rest of the duration
+  public setRate(rate: number): void {
+    if (!this.paused) {
+      this.tick();
+      this.restartSchedule();
+    }
+    this.rate = rate;
+    logger.info(`Arrival rate changed to ${rate} iterations/second for the remaining ${this.durationMs}ms`);
+  }
+
+  // Number of iterations currently running
+  public getInFlight(): number {
+    return this.inFlight;
+  }
+
+  // Start a new schedule for the remaining duration, from the intended start of the first iteration not issued yet
+  private restartSchedule(): void {
+    const nextStartTime = this.startTime + (this.issued * 1000) / this.rate;
+    this.durationMs = Math.max(0, this.durationMs - (nextStartTime - this.startTime));
+    this.startTime = nextStartTime;
+    this.issuedBefore += this.issued;
+    this.issued = 0;
+  }
+
+  // Start every iteration whose intended start time has passed
+  private tick(): void {
+    if (this.paused || this.stopped) return;
+
+    const now = Date.now();
+    const elapsed = now - this.startTime;
+    const total = Math.floor((this.durationMs / 1000) * this.rate);
+    // Iteration k is due at k / rate, so the first one starts with the schedule
+    const due = Math.min(total, Math.floor((Math.min(elapsed, this.durationMs) / 1000) * this.rate) + 1);
+
+    while (this.issued < due) {
+      const intendedStartTime = this.startTime + (this.issued * 1000) / this.rate;
+      this.issued++;
+
+      if (this.inFlight >= this.maxInFlight) {
+        statsManager.iterationDropped();
+        continue;
+      }
+
+      const lag = now - intendedStartTime;
+      if (lag > this.lateThresholdMs) {
+        statsManager.iterationLate(lag);
+      }
+
+      this.inFlight++;
+      this.execute(intendedStartTime)
+        .catch(error => {
+          logger.error(`Arrival-rate iteration failed: ${(error as Error).message}`);
+        })
+        .finally(() => {
+          this.inFlight--;
+          this.finishIfIdle();
+        });
+    }
+
+    if (elapsed >= this.durationMs) {
+      logger.info(`Arrival-rate schedule finished after issuing ${this.issuedBefore + this.issued} iterations`);
+      this.stop();
+    }
+  }
+
+  // Resolve the run promise once stopped and nothing is in flight
+  private finishIfIdle(): void {
+    if (this.stopped && this.inFlight === 0 && this.onFinished) {
+      const onFinished = this.onFinished;
+      this.onFinished = null;
+      onFinished();
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+
+import { TestMode } from './config';
+import type { Check } from './checks';
+
+afterAll(async () => {
+  const { statsManager } = await import('./stats');
+  await statsManager.close();
+});
+
+// Run a single check definition against a target and return whether it passed
+async function passes(definition: unknown, target: { body: string, status?: number, headers?: Record<string, unknown> }): Promise<boolean> {
+  const { runChecks, validateChecks } = await import('./checks');
+  return runChecks(validateChecks([definition], 'checks', TestMode.HTTP), target, 1);
+}
+
+describe('validateChecks', () => {
+  it('builds checks with their default names', async () => {
+    const { validateChecks } = await import('./checks');
+    const checks = validateChecks([
+      { status: [200, 404] },
+      { name: 'has_id', jsonPath: '$.id' },
+      { name: 'is_ok', jsonPath: '$.state', equals: 'ok' },
+      { header: 'Content-Type', equals: 'application/json' },
+      { bodyMatches: '^\\{' }
+    ], 'checks', TestMode.HTTP, 'login.');
+
+    expect(checks.map(check => check.name)).toEqual(['login.status', 'login.has_id', 'login.is_ok', 'login.header', 'login.body_matches']);
+    expect(checks[0]).toEqual({ name: 'login.status', type: 'status', statuses: [200, 404] });
+    expect(checks[1]).toMatchObject({ type: 'json_path', exists: true });
+    expect(checks[2]).toMatchObject({ type: 'json_path', exists: false, equals: 'ok' });
+    expect(checks[3]).toMatchObject({ type: 'header', header: 'content-type' });
+  });
+
+  it('returns no checks when none are given', async () => {
+    const { validateChecks } = await import('./checks');
+
+    expect(validateChecks(undefined, 'checks', TestMode.HTTP)).toEqual([]);
+  });
+
+  it('rejects invalid definitions', async () => {
+    const { validateChecks } = await import('./checks');
+    const validate = (checks: unknown, testMode: TestMode = TestMode.HTTP) => () => validateChecks(checks, 'checks', testMode);
+
+    expect(validate({ status: 200 })).toThrow('checks must be an array of checks');
+    expect(validate(['status'])).toThrow('checks[0] must be an object');
+    expect(validate([{ status: 200, maxSize: 10 }])).toThrow('checks[0] must have exactly one of');
+    expect(validate([{ status: 99 }])).toThrow('checks[0].status must be an HTTP status');
+    expect(validate([{ name: 'Bad-Name', status: 200 }])).toThrow('checks[0].name must be lowercase');
+    expect(validate([{ maxSize: 0 }])).toThrow('checks[0].maxSize must be a positive number');
+    expect(validate([{ schema: { type: 'text' } }])).toThrow('checks[0].schema.type must be one of');
+    expect(validate([{ schema: { properties: { id: 'number' } } }])).toThrow('checks[0].schema.properties.id must be an object');
+    expect(validate([{ status: 200 }, { status: 201 }])).toThrow("check name 'status' is used more than once");
+    expect(validate([{ status: 200 }], TestMode.WEBSOCKET)).toThrow('checks[0].status only applies to HTTP responses');
+  });
+});
+
+describe('runChecks', () => {
+  it('evaluates status, body and size checks', async () => {
+    expect(await passes({ status: [200, 201] }, { body: '', status: 201 })).toBe(true);
+    expect(await passes({ status: 200 }, { body: '', status: 500 })).toBe(false);
+    expect(await passes({ bodyContains: 'ok' }, { body: 'all ok' })).toBe(true);
+    expect(await passes({ bodyMatches: '^\\d+$' }, { body: '12a' })).toBe(false);
+    expect(await passes({ maxSize: 4 }, { body: 'ééé' })).toBe(false);
+    expect(await passes({ maxSize: 6 }, { body: 'ééé' })).toBe(true);
+  });
+
+  it('evaluates JSON path checks', async () => {
+    const body = JSON.stringify({ user: { id: 7, roles: ['admin'] }, empty: null });
+
+    expect(await passes({ jsonPath: '$.user.id' }, { body })).toBe(true);
+    expect(await passes({ jsonPath: '$.empty' }, { body })).toBe(true);
+    expect(await passes({ jsonPath: '$.user.name' }, { body })).toBe(false);
+    expect(await passes({ jsonPath: '$.user.roles', equals: ['admin'] }, { body })).toBe(true);
+    expect(await passes({ jsonPath: '$.user.id', equals: '7' }, { body })).toBe(false);
+    expect(await passes({ jsonPath: '$.id' }, { body: 'not json' })).toBe(false);
+  });
+
+  it('evaluates header checks', async () => {
+    const headers = { 'content-type': 'application/json', 'content-length': 12 };
+
+    expect(await passes({ header: 'Content-Type' }, { body: '', headers })).toBe(true);
+    expect(await passes({ header: 'content-length', equals: '12' }, { body: '', headers })).toBe(true);
+    expect(await passes({ header: 'content-type', equals: 'text/html' }, { body: '', headers })).toBe(false);
+    expect(await passes({ header: 'etag' }, { body: '', headers })).toBe(false);
+  });
+
+  it('evaluates schema checks', async () => {
+    const schema = {
+      type: 'object',
+      required: ['id', 'items'],
+      properties: {
+        id: { type: 'integer' },
+        state: { enum: ['open', 'closed'] },
+        items: { type: 'array', items: { type: ['string', 'null'] } },
+        price: { type: 'number' }
+      }
+    };
+
+    expect(await passes({ schema }, { body: '{"id": 1, "state": "open", "items": ["a", null], "price": 3}' })).toBe(true);
+    expect(await passes({ schema }, { body: '{"id": 1.5, "items": []}' })).toBe(false);
+    expect(await passes({ schema }, { body: '{"id": 1}' })).toBe(false);
+    expect(await passes({ schema }, { body: '{"id": 1, "state": "gone", "items": []}' })).toBe(false);
+    expect(await passes({ schema }, { body: '{"id": 1, "items": [3]}' })).toBe(false);
+    expect(await passes({ schema }, { body: 'not json' })).toBe(false);
+  });
+
+  it('counts the outcome of every check', async () => {
+    const { runChecks } = await import('./checks');
+    const { statsManager } = await import('./stats');
+    const checks: Check[] = [
+      { name: 'counted_status', type: 'status', statuses: [200] },
+      { name: 'counted_body', type: 'body_contains', text: 'ok' }
+    ];
+
+    expect(runChecks(checks, { body: 'ok', status: 200 }, 1)).toBe(true);
+    expect(runChecks(checks, { body: 'no', status: 200 }, 1)).toBe(false);
+
+    const stats = statsManager.getCheckStats();
+    expect(stats.counted_status).toEqual({ passes: 2, failures: 0 });
+    expect(stats.counted_body).toEqual({ passes: 1, failures: 1 });
+  });
+});
+
+describe('acceptedStatuses', () => {
+  it('lists the statuses of status checks', async () => {
+    const { acceptedStatuses } = await import('./checks');
+    const checks: Check[] = [
+      { name: 'status', type: 'status', statuses: [404] },
+      { name: 'body', type: 'body_contains', text: 'x' },
+      { name: 'other', type: 'status', statuses: [200, 409] }
+    ];
+
+    expect(acceptedStatuses(checks)).toEqual([404, 200, 409]);
+  });
+});
@@ -0,0 +1,306 @@
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import { TestMode } from './config';
+import logger from './logger';
+import { statsManager } from './stats';
+import { getJsonPath } from './json-path';
+
+// Subset of JSON Schema supported by schema checks
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+// Validation of an HTTP response or a WebSocket message, counted apart from transport errors
+export type Check =
+  | { name: string; type: 'status'; statuses: number[] }
+  | { name: string; type: 'body_contains'; text: string }
+  | { name: string; type: 'body_matches'; pattern: RegExp }
+  | { name: string; type: 'json_path'; path: string; equals?: unknown; exists: boolean }
+  | { name: string; type: 'header'; header: string; equals?: string }
+  | { name: string; type: 'max_size'; bytes: number }
+  | { name: string; type: 'schema'; schema: JsonSchema };
+
+// Response or message the checks are run against
+export interface CheckTarget {
+  body: string;
+  status?: number;
+  headers?: Record<string, unknown>;
+}
+
+// Keys selecting the type of a check in a checks file, and the name each type gets by default
+const CHECK_KEYS: Record<string, Check['type']> = {
+  status: 'status',
+  bodyContains: 'body_contains',
+  bodyMatches: 'body_matches',
+  jsonPath: 'json_path',
+  header: 'header',
+  maxSize: 'max_size',
+  schema: 'schema'
+};
+const HTTP_ONLY_TYPES: Check['type'][] = ['status', 'header'];
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+// Check names become tag values and threshold metrics
+const CHECK_NAME_REGEX = /^[a-z][a-z0-9_]*$/;
+
+// Checks whose first failure has been logged as a warning
+const reportedFailures = new Set<string>();
+
+// Validate a JSON schema of a schema check
+function validateSchema(schema: unknown, location: string): JsonSchema {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error(`Invalid checks: ${location} must be an object`);
+  }
+
+  const { type, required, properties, items } = schema as Record<string, unknown>;
+  const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+  if (types.some(item => !SCHEMA_TYPES.includes(item as string))) {
+    throw new Error(`Invalid checks: ${location}.type must be one of: ${SCHEMA_TYPES.join(', ')}`);
+  }
+  if (required !== undefined && (!Array.isArray(required) || required.some(item => typeof item !== 'string'))) {
+    throw new Error(`Invalid checks: ${location}.required must be an array of property names`);
+  }
+  if (properties !== undefined) {
+    if (!properties || typeof properties !== 'object') {
+      throw new Error(`Invalid checks: ${location}.properties must be an object of schemas`);
+    }
+    for (const [name, property] of Object.entries(properties)) {
+      validateSchema(property, `${location}.properties.${name}`);
+    }
+  }
+  if (items !== undefined) {
+    validateSchema(items, `${location}.items`);
+  }
+
+  return schema as JsonSchema;
+}
+
+// Validate a single check
+function validateCheck(check: unknown, location: string, testMode: TestMode): Check {
+  if (!check || typeof check !== 'object') {
+    throw new Error(`Invalid checks: ${location} must be an object`);
+  }
+  const definition = check as Record<string, unknown>;
+
+  const keys = Object.keys(CHECK_KEYS).filter(key => key in definition);
+  if (keys.length !== 1) {
+    throw new Error(`Invalid checks: ${location} must have exactly one of: ${Object.keys(CHECK_KEYS).join(', ')}`);
+  }
+  const key = keys[0];
+  const type = CHECK_KEYS[key];
+  const value = definition[key];
+
+  if (testMode !== TestMode.HTTP && HTTP_ONLY_TYPES.includes(type)) {
+    throw new Error(`Invalid checks: ${location}.${key} only applies to HTTP responses`);
+  }
+
+  const name = definition.name !== undefined ? definition.name : type;
+  if (typeof name !== 'string' || !CHECK_NAME_REGEX.test(name)) {
+    throw new Error(`Invalid checks: ${location}.name must be lowercase letters, digits and underscores, starting with a letter`);
+  }
+
+  switch (type) {
+    case 'status': {
+      const statuses = Array.isArray(value) ? value : [value];
+      if (statuses.length === 0 || statuses.some(status => typeof status !== 'number' || !Number.isInteger(status) || status < 100 || status > 599)) {
+        throw new Error(`Invalid checks: ${location}.status must be an HTTP status or an array of them`);
+      }
+      return { name, type, statuses: statuses as number[] };
+    }
+    case 'body_contains':
+      if (typeof value !== 'string') {
+        throw new Error(`Invalid checks: ${location}.bodyContains must be a string`);
+      }
+      return { name, type, text: value };
+    case 'body_matches':
+      if (typeof value !== 'string') {
+        throw new Error(`Invalid checks: ${location}.bodyMatches must be a regular expression`);
+      }
+      return { name, type, pattern: new RegExp(value) };
+    case 'json_path':
+      if (typeof value !== 'string') {
+        throw new Error(`Invalid checks: ${location}.jsonPath must be a string`);
+      }
+      return { name, type, path: value, equals: definition.equals, exists: !('equals' in definition) };
+    case 'header':
+      if (typeof value !== 'string' || (definition.equals !== undefined && typeof definition.equals !== 'string')) {
+        throw new Error(`Invalid checks: ${location}.header and ${location}.equals must be strings`);
+      }
+      return { name, type, header: value.toLowerCase(), equals: definition.equals as string | undefined };
+    case 'max_size':
+      if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+        throw new Error(`Invalid checks: ${location}.maxSize must be a positive number of bytes`);
+      }
+      return { name, type, bytes: value };
+    case 'schema':
+      return { name, type, schema: validateSchema(value, `${location}.schema`) };
+  }
+}
+
+// Validate a list of checks; the prefix keeps the names of checks of different scopes apart
+export function validateChecks(checks: unknown, location: string, testMode: TestMode, prefix: string = ''): Check[] {
+  if (checks === undefined) {
+    return [];
+  }
+  if (!Array.isArray(checks)) {
+    throw new Error(`Invalid checks: ${location} must be an array of checks`);
+  }
+
+  const validated = checks.map((check, index) => validateCheck(check, `${location}[${index}]`, testMode));
+  for (const check of validated) {
+    if (validated.filter(other => other.name === check.name).length > 1) {
+      throw new Error(`Invalid checks: check name '${check.name}' is used more than once in ${location}, give the checks distinct names`);
+    }
+    check.name = `${prefix}${check.name}`;
+  }
+  return validated;
+}
+
+// Load and validate the checks of a JSON or YAML checks file
+export async function loadChecks(checksPath: string, testMode: TestMode): Promise<Check[]> {
+  const filePath = path.resolve(checksPath);
+  if (!await fs.pathExists(filePath)) {
+    throw new Error(`Checks file not found: ${filePath}`);
+  }
+
+  const content = await fs.readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed = extension === '.yaml' || extension === '.yml' ? YAML.parse(content) : JSON.parse(content);
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid checks: file must contain an object');
+  }
+
+  const checks = validateChecks(parsed.checks, 'checks', testMode);
+  logger.info(`Loaded ${checks.length} checks from ${filePath}: ${checks.map(check => check.name).join(', ')}`);
+  return checks;
+}
+
+// HTTP statuses the checks expect besides 2xx, which are then answers rather than errors
+export function acceptedStatuses(checks: Check[]): number[] {
+  return checks.flatMap(check => check.type === 'status' ? check.statuses : []);
+}
+
+// Describe the type of a JSON value in JSON Schema terms
+function schemaType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+// Validate a value against a schema, returning why it does not match or null if it does
+function matchSchema(value: unknown, schema: JsonSchema, location: string): string | null {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = schemaType(value);
+    if (!types.includes(actual) && !(actual === 'integer' && types.includes('number'))) {
+      return `${location} is ${actual}, expected ${types.join(' or ')}`;
+    }
+  }
+  if (schema.enum !== undefined && !schema.enum.some(item => JSON.stringify(item) === JSON.stringify(value))) {
+    return `${location} is not one of ${JSON.stringify(schema.enum)}`;
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    return `${location} is not ${JSON.stringify(schema.const)}`;
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    for (const property of schema.required || []) {
+      if (!(property in object)) {
+        return `${location}.${property} is missing`;
+      }
+    }
+    for (const [property, propertySchema] of Object.entries(schema.properties || {})) {
+      if (property in object) {
+        const mismatch = matchSchema(object[property], propertySchema, `${location}.${property}`);
+        if (mismatch) return mismatch;
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const mismatch = matchSchema(value[i], schema.items, `${location}[${i}]`);
+      if (mismatch) return mismatch;
+    }
+  }
+
+  return null;
+}
+
+// Parse a body as JSON, or return undefined if it is not JSON
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+// Evaluate a check, returning why it failed or null if it passed
+function evaluateCheck(check: Check, target: CheckTarget): string | null {
+  switch (check.type) {
+    case 'status':
+      return target.status !== undefined && check.statuses.includes(target.status)
+        ? null : `status ${target.status} is not one of ${check.statuses.join(', ')}`;
+    case 'body_contains':
+      return target.body.includes(check.text) ? null : `body does not contain ${JSON.stringify(check.text)}`;
+    case 'body_matches':
+      return check.pattern.test(target.body) ? null : `body does not match /${check.pattern.source}/`;
+    case 'json_path': {
+      const value = getJsonPath(parseJson(target.body), check.path);
+      if (check.exists) {
+        return value !== undefined ? null : `${check.path} is missing`;
+      }
+      return JSON.stringify(value) === JSON.stringify(check.equals)
+        ? null : `${check.path} is ${JSON.stringify(value)}, expected ${JSON.stringify(check.equals)}`;
+    }
+    case 'header': {
+      const value = target.headers ? target.headers[check.header] : undefined;
+      if (value === undefined || value === null) {
+        return `header ${check.header} is missing`;
+      }
+      return check.equals === undefined || String(value) === check.equals
+        ? null : `header ${check.header} is ${JSON.stringify(String(value))}, expected ${JSON.stringify(check.equals)}`;
+    }
+    case 'max_size': {
+      const size = Buffer.byteLength(target.body);
+      return size <= check.bytes ? null : `body is ${size} bytes, more than ${check.bytes}`;
+    }
+    case 'schema': {
+      const value = parseJson(target.body);
+      return value === undefined ? 'body is not JSON' : matchSchema(value, check.schema, '$');
+    }
+  }
+}
+
+// Run checks against a response or message and record their outcomes; returns whether all of them passed
+export function runChecks(checks: Check[], target: CheckTarget, connectionId: number): boolean {
+  let allPassed = true;
+
+  for (const check of checks) {
+    const failure = evaluateCheck(check, target);
+    statsManager.checkCompleted(check.name, failure === null);
+    if (failure === null) continue;
+
+    allPassed = false;
+    // Warn about the first failure of each check only, failing checks would flood the log otherwise
+    const message = `Connection ${connectionId}: Check ${check.name} failed: ${failure}`;
+    if (!reportedFailures.has(check.name)) {
+      reportedFailures.add(check.name);
+      logger.warn(`${message} (further failures of this check are logged at debug level)`);
+    } else {
+      logger.debug(message);
+    }
+  }
+
+  return allPassed;
+}
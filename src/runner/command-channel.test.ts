@@ -0,0 +1,64 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+
+import { CommandType, RunnerCommand } from './command-channel';
+
+// Parse a command given as an object
+async function parse(command: unknown): Promise<RunnerCommand> {
+  const { parseCommand } = await import('./command-channel');
+  return parseCommand(JSON.stringify(command));
+}
+
+describe('parseCommand', () => {
+  it('parses pause and resume commands', async () => {
+    expect(await parse({ id: '1', command: 'pause' })).toEqual({ id: '1', command: CommandType.PAUSE, value: undefined, runnerId: undefined });
+    expect(await parse({ id: 2, command: 'resume', runnerId: 'runner-42' })).toEqual({ id: '2', command: CommandType.RESUME, value: undefined, runnerId: 'runner-42' });
+  });
+
+  it('parses scaling commands with their value', async () => {
+    expect(await parse({ id: '3', command: 'set_target', value: 500 })).toEqual({ id: '3', command: CommandType.SET_TARGET, value: 500, runnerId: undefined });
+    expect(await parse({ id: '4', command: 'set_target', value: 0 })).toMatchObject({ value: 0 });
+    expect(await parse({ id: '5', command: 'set_rate', value: 2.5 })).toMatchObject({ command: CommandType.SET_RATE, value: 2.5 });
+  });
+
+  it('generates an id when there is none', async () => {
+    const command = await parse({ command: 'stop' });
+
+    expect(command.command).toBe(CommandType.STOP);
+    expect(command.id).toMatch(/^\d+$/);
+  });
+
+  it('rejects messages that are not JSON objects', async () => {
+    const { parseCommand } = await import('./command-channel');
+
+    expect(() => parseCommand('{"command": "pause"')).toThrow('Command is not valid JSON');
+    expect(() => parseCommand('pause')).toThrow('Command is not valid JSON');
+    expect(() => parseCommand('null')).toThrow('Command must be a JSON object');
+    expect(() => parseCommand('["pause"]')).toThrow('Command must be a JSON object');
+  });
+
+  it('rejects unknown commands and fields', async () => {
+    await expect(parse({ id: '1', command: 'restart' })).rejects.toThrow('Command must be one of: pause, resume, set_target, set_rate, stop');
+    await expect(parse({ id: '1' })).rejects.toThrow('Command must be one of');
+    await expect(parse({ id: '1', command: 'pause', runner: 'runner-42' })).rejects.toThrow('Unknown command fields: runner');
+  });
+
+  it('rejects invalid fields', async () => {
+    await expect(parse({ id: '', command: 'pause' })).rejects.toThrow('Command id must be a non-empty string or a number');
+    await expect(parse({ id: { n: 1 }, command: 'pause' })).rejects.toThrow('Command id must be a non-empty string or a number');
+    await expect(parse({ id: '1', command: 'pause', runnerId: 42 })).rejects.toThrow('Command runnerId must be a non-empty string');
+    await expect(parse({ id: '1', command: 'pause', value: 1 })).rejects.toThrow('pause does not take a value');
+  });
+
+  it('rejects scaling commands without a valid value', async () => {
+    await expect(parse({ id: '1', command: 'set_target' })).rejects.toThrow('set_target needs a non-negative integer value');
+    await expect(parse({ id: '1', command: 'set_target', value: '500' })).rejects.toThrow('set_target needs a non-negative integer value');
+    await expect(parse({ id: '1', command: 'set_target', value: 1.5 })).rejects.toThrow('set_target needs a non-negative integer value');
+    await expect(parse({ id: '1', command: 'set_target', value: -1 })).rejects.toThrow('set_target needs a non-negative integer value');
+    await expect(parse({ id: '1', command: 'set_rate', value: 0 })).rejects.toThrow('set_rate needs a positive value');
+    await expect(parse({ id: '1', command: 'set_rate' })).rejects.toThrow('set_rate needs a positive value');
+  });
+});
@@ -0,0 +1,186 @@
+import Redis from 'ioredis';
+import { config } from './config';
+import logger from './logger';
+
+// Pub/sub channel the operator broadcasts commands on, and where runners acknowledge them
+export const COMMAND_CHANNEL = 'test:commands';
+export const ACK_CHANNEL = 'test:commands:acks';
+
+// Acknowledgements are also kept in a hash per command, keyed by runner id
+const ACK_KEY_PREFIX = 'test:commands:acks:';
+const ACK_TTL_SECONDS = 3600;
+
+export enum CommandType {
+  PAUSE = 'pause',
+  RESUME = 'resume',
+  SET_TARGET = 'set_target',
+  SET_RATE = 'set_rate',
+  STOP = 'stop'
+}
+
+// A command sent to the runners, e.g. {"id": "42", "command": "set_target", "value": 500}
+export interface RunnerCommand {
+  id: string;
+  command: CommandType;
+  value?: number;
+  // Only the runner with this id applies the command; all runners do when it is omitted
+  runnerId?: string;
+}
+
+// Outcome of a command on one runner
+export interface CommandAck {
+  id: string;
+  runnerId: string;
+  command: string;
+  status: 'ok' | 'error';
+  message: string;
+  timestamp: string;
+}
+
+// Live controls implemented by the WebSocket and HTTP managers
+export interface LoadController {
+  pause(): void;
+  resume(): void;
+  setTarget(target: number): Promise<void>;
+  setRate(rate: number): void;
+}
+
+// Applies a command and returns a description of what was done, or throws if it cannot be applied
+export type CommandHandler = (command: RunnerCommand) => Promise<string>;
+
+// Fields a command message may have, and the commands that take a value
+const COMMAND_FIELDS = ['id', 'command', 'value', 'runnerId'];
+const COMMANDS_WITH_VALUE = [CommandType.SET_TARGET, CommandType.SET_RATE];
+
+// Parse and validate a command message
+export function parseCommand(message: string): RunnerCommand {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message);
+  } catch (error) {
+    throw new Error(`Command is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Command must be a JSON object');
+  }
+  const command = parsed as Record<string, unknown>;
+  const unknownFields = Object.keys(command).filter(field => !COMMAND_FIELDS.includes(field));
+  if (unknownFields.length > 0) {
+    throw new Error(`Unknown command fields: ${unknownFields.join(', ')}`);
+  }
+  if (!Object.values(CommandType).includes(command.command as CommandType)) {
+    throw new Error(`Command must be one of: ${Object.values(CommandType).join(', ')}`);
+  }
+  if (command.id !== undefined && (!['string', 'number'].includes(typeof command.id) || command.id === '')) {
+    throw new Error('Command id must be a non-empty string or a number');
+  }
+  if (command.runnerId !== undefined && (typeof command.runnerId !== 'string' || command.runnerId === '')) {
+    throw new Error('Command runnerId must be a non-empty string');
+  }
+  if (command.value !== undefined && !COMMANDS_WITH_VALUE.includes(command.command as CommandType)) {
+    throw new Error(`${command.command} does not take a value`);
+  }
+  if (command.command === CommandType.SET_TARGET && (typeof command.value !== 'number' || !Number.isInteger(command.value) || command.value < 0)) {
+    throw new Error('set_target needs a non-negative integer value');
+  }
+  if (command.command === CommandType.SET_RATE && (typeof command.value !== 'number' || command.value <= 0)) {
+    throw new Error('set_rate needs a positive value');
+  }
+
+  return {
+    id: command.id !== undefined ? String(command.id) : `${Date.now()}`,
+    command: command.command as CommandType,
+    value: typeof command.value === 'number' ? command.value : undefined,
+    runnerId: command.runnerId as string | undefined
+  };
+}
+
+// Subscribes to the command channel and acknowledges each command back through Redis
+export class CommandChannel {
+  private redis: Redis;
+  private subscriber: Redis | null = null;
+  private handler: CommandHandler;
+
+  constructor(redis: Redis, handler: CommandHandler) {
+    this.redis = redis;
+    this.handler = handler;
+  }
+
+  // Start listening for commands
+  public async start(): Promise<void> {
+    // A subscribed connection cannot send other commands, so use a separate one
+    this.subscriber = this.redis.duplicate();
+    this.subscriber.on('message', (channel: string, message: string) => {
+      this.handleMessage(message);
+    });
+
+    await this.subscriber.subscribe(COMMAND_CHANNEL);
+    logger.info(`Listening for commands on Redis channel ${COMMAND_CHANNEL}`);
+  }
+
+  // Stop listening
+  public async close(): Promise<void> {
+    if (!this.subscriber) return;
+
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    try {
+      await subscriber.quit();
+    } catch (error) {
+      logger.error(`Error closing the command channel: ${(error as Error).message}`);
+    }
+  }
+
+  // Apply a command and acknowledge it
+  private async handleMessage(message: string): Promise<void> {
+    let command: RunnerCommand;
+    try {
+      command = parseCommand(message);
+    } catch (error) {
+      logger.warn(`Ignoring invalid command '${message}': ${(error as Error).message}`);
+      return;
+    }
+
+    // Commands addressed to another runner
+    if (command.runnerId && command.runnerId !== config.runnerId) return;
+
+    logger.info(`Received command ${command.id}: ${command.command}${command.value !== undefined ? ` ${command.value}` : ''}`);
+
+    const ack: CommandAck = {
+      id: command.id,
+      runnerId: config.runnerId,
+      command: command.command,
+      status: 'ok',
+      message: '',
+      timestamp: ''
+    };
+
+    try {
+      ack.message = await this.handler(command);
+    } catch (error) {
+      ack.status = 'error';
+      ack.message = (error as Error).message;
+      logger.warn(`Command ${command.id} (${command.command}) failed: ${ack.message}`);
+    }
+
+    await this.acknowledge(ack);
+  }
+
+  // Publish the acknowledgement and keep it for operators that were not listening
+  private async acknowledge(ack: CommandAck): Promise<void> {
+    ack.timestamp = new Date().toISOString();
+    const payload = JSON.stringify(ack);
+    const key = `${ACK_KEY_PREFIX}${ack.id}`;
+
+    try {
+      await this.redis.multi()
+        .hset(key, ack.runnerId, payload)
+        .expire(key, ACK_TTL_SECONDS)
+        .publish(ACK_CHANNEL, payload)
+        .exec();
+    } catch (error) {
+      logger.error(`Failed to acknowledge command ${ack.id}: ${(error as Error).message}`);
+    }
+  }
+}
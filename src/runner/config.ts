@@ -12,7 +12,8 @@ export enum LogLevel {
 
 export enum ConnectionMode {
   INSTANT = 'instant',
-  PROGRESSIVE = 'progressive'
+  PROGRESSIVE = 'progressive',
+  STAGED = 'staged'
 }
 
 export enum TestMode {
@@ -20,6 +21,60 @@ export enum TestMode {
   HTTP = 'http'
 }
 
+export enum HttpLoadModel {
+  CLOSED = 'closed',
+  OPEN = 'open'
+}
+
+export enum HttpBodyType {
+  JSON = 'json',
+  FORM = 'form',
+  RAW = 'raw',
+  MULTIPART = 'multipart'
+}
+
+export enum HttpAgentScope {
+  SHARED = 'shared',
+  CONNECTION = 'connection'
+}
+
+export enum DataSourceType {
+  REDIS = 'redis',
+  CSV = 'csv',
+  NONE = 'none'
+}
+
+export enum DataAccessMode {
+  CONSUME = 'consume',
+  INDEX = 'index'
+}
+
+export enum DataDistribution {
+  SEQUENTIAL = 'sequential',
+  RANDOM = 'random',
+  ROUND_ROBIN = 'round-robin'
+}
+
+export enum DataSharing {
+  UNIQUE = 'unique',
+  SHARED = 'shared'
+}
+
+export enum MetricsSinkType {
+  INFLUX = 'influx',
+  CONSOLE = 'console',
+  PROMETHEUS = 'prometheus',
+  STATSD = 'statsd',
+  FILE = 'file',
+  NOOP = 'noop'
+}
+
+export interface LoadStage {
+  name: string;
+  durationMs: number;
+  target: number;
+}
+
 export interface Config {
   wsUrl: string;
   numConnections: number;
@@ -28,6 +83,17 @@ export interface Config {
   influxOrg: string;
   influxBucket: string;
   redisUrl: string;
+  standalone: boolean;
+  dataSource: DataSourceType;
+  csvPath: string;
+  dataLevel: number;
+  maxRowsPerRunner: number;
+  dataBatchSize: number;
+  dataAccess: DataAccessMode;
+  dataDistribution: DataDistribution;
+  dataSharing: DataSharing;
+  dataRotation: boolean;
+  templateStrict: boolean;
   logLevel: LogLevel;
   retryDelayMs: number;
   connectionMode: ConnectionMode;
@@ -37,41 +103,141 @@ export interface Config {
   testMode: TestMode;
   httpUrl: string;
   httpMethod: string;
+  httpHeaders: Record<string, string>;
+  httpBodyFile: string;
+  httpBodyType: HttpBodyType;
+  httpTimeoutMs: number;
+  httpScenarioFile: string;
+  checksFile: string;
+  httpCookieJar: boolean;
+  httpCookieColumns: Record<string, string>;
+  httpAgentScope: HttpAgentScope;
+  httpKeepAlive: boolean;
+  httpMaxSockets: number;
+  httpMaxTotalSockets: number;
+  httpMaxFreeSockets: number;
+  httpHostMaxSockets: Record<string, number>;
   rejectUnauthorized: boolean;
   httpRequestsPerData: number;
+  wsScenarioFile: string;
+  wsCorrelationPath: string;
+  wsResponseTimeoutMs: number;
+  httpLoadModel: HttpLoadModel;
+  httpArrivalRate: number;
+  httpArrivalDurationMs: number;
+  httpMaxInFlight: number;
+  httpLateThresholdMs: number;
+  loadStages: LoadStage[];
+  testDurationMs: number;
+  summaryFile: string;
+  thresholds: string[];
+  thresholdsAbortOnFail: boolean;
+  statusPort: number;
+  metricsSinks: MetricsSinkType[];
+  prometheusPushgatewayUrl: string;
+  statsdHost: string;
+  statsdPort: number;
+  statsdPrefix: string;
+  metricsFile: string;
+  startBarrier: boolean;
+  startBarrierTimeoutMs: number;
+  startBarrierDelayMs: number;
+  commandChannel: boolean;
+  publishSnapshots: boolean;
+  snapshotIntervalMs: number;
+}
+
+// Parse a duration such as "500ms", "30s", "5m" or "1h" (plain numbers are seconds) into milliseconds
+export function parseDuration(value: string, name: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h)?\s*$/.exec(value);
+  if (!match) {
+    throw new Error(`${name} must be a duration such as 500ms, 30s, 5m or 1h`);
+  }
+
+  const amount = parseFloat(match[1]);
+  const multipliers: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return Math.round(amount * multipliers[match[2] || 's']);
+}
+
+// Parse a load profile such as "ramp-up:2m:5000,hold:10m:5000,ramp-down:1m:0"
+function parseLoadStages(value: string): LoadStage[] {
+  return value.split(',').map(stage => stage.trim()).filter(stage => stage.length > 0).map(stage => {
+    const parts = stage.split(':');
+    if (parts.length !== 3 || !parts[0]) {
+      throw new Error(`LOAD_STAGES entry '${stage}' must have the form name:duration:target`);
+    }
+
+    const durationMs = parseDuration(parts[1], `LOAD_STAGES duration of '${parts[0]}'`);
+    const target = parseInt(parts[2], 10);
+    if (isNaN(target) || target < 0) {
+      throw new Error(`LOAD_STAGES target of '${parts[0]}' must be a non-negative number`);
+    }
+
+    return { name: parts[0], durationMs, target };
+  });
 }
 
 // Parse and validate environment variables
 function parseEnv(): Config {
-  // Required environment variables
-  const wsUrl = process.env.WS_URL;
-  if (!wsUrl) {
-    throw new Error('WS_URL environment variable is required');
+  // Standalone mode runs without InfluxDB or Redis: data comes from a local CSV and metrics go to the console
+  const standalone = process.env.STANDALONE === 'true';
+
+  // Metrics sinks, separated by commas (InfluxDB by default, the console in standalone mode)
+  const metricsSinks = (process.env.METRICS_SINKS || (standalone ? 'console' : 'influx'))
+    .split(',')
+    .map(sink => sink.trim().toLowerCase())
+    .filter(sink => sink.length > 0) as MetricsSinkType[];
+  for (const sink of metricsSinks) {
+    if (!Object.values(MetricsSinkType).includes(sink)) {
+      throw new Error(`METRICS_SINKS must be a list of: ${Object.values(MetricsSinkType).join(', ')}`);
+    }
+  }
+  if (metricsSinks.length === 0) {
+    throw new Error('METRICS_SINKS must name at least one sink');
   }
+  const useInflux = metricsSinks.includes(MetricsSinkType.INFLUX);
 
-  const influxUrl = process.env.INFLUX_URL;
-  if (!influxUrl) {
-    throw new Error('INFLUX_URL environment variable is required');
+  // InfluxDB configuration (only required if the influx sink is used)
+  const influxUrl = process.env.INFLUX_URL || '';
+  if (useInflux && !influxUrl) {
+    throw new Error('INFLUX_URL environment variable is required when METRICS_SINKS includes influx');
   }
 
-  const influxToken = process.env.INFLUX_TOKEN;
-  if (!influxToken) {
-    throw new Error('INFLUX_TOKEN environment variable is required');
+  const influxToken = process.env.INFLUX_TOKEN || '';
+  if (useInflux && !influxToken) {
+    throw new Error('INFLUX_TOKEN environment variable is required when METRICS_SINKS includes influx');
   }
 
-  const influxOrg = process.env.INFLUX_ORG;
-  if (!influxOrg) {
-    throw new Error('INFLUX_ORG environment variable is required');
+  const influxOrg = process.env.INFLUX_ORG || '';
+  if (useInflux && !influxOrg) {
+    throw new Error('INFLUX_ORG environment variable is required when METRICS_SINKS includes influx');
   }
 
-  const influxBucket = process.env.INFLUX_BUCKET;
-  if (!influxBucket) {
-    throw new Error('INFLUX_BUCKET environment variable is required');
+  const influxBucket = process.env.INFLUX_BUCKET || '';
+  if (useInflux && !influxBucket) {
+    throw new Error('INFLUX_BUCKET environment variable is required when METRICS_SINKS includes influx');
   }
 
-  const redisUrl = process.env.REDIS_URL;
-  if (!redisUrl) {
-    throw new Error('REDIS_URL environment variable is required');
+  // Source of the test data rows (Redis by default, the local CSV in standalone mode)
+  const dataSourceStr = process.env.DATA_SOURCE || (standalone ? (process.env.CSV_PATH ? 'csv' : 'none') : 'redis');
+  if (!Object.values(DataSourceType).includes(dataSourceStr as DataSourceType)) {
+    throw new Error(`DATA_SOURCE must be one of: ${Object.values(DataSourceType).join(', ')}`);
+  }
+  const dataSource = dataSourceStr as DataSourceType;
+
+  const redisUrl = process.env.REDIS_URL || '';
+  if (dataSource === DataSourceType.REDIS && !redisUrl) {
+    throw new Error('REDIS_URL environment variable is required when DATA_SOURCE is redis');
+  }
+
+  const csvPath = process.env.CSV_PATH || '';
+  if (dataSource === DataSourceType.CSV && !csvPath) {
+    throw new Error('CSV_PATH environment variable is required when DATA_SOURCE is csv');
+  }
+
+  const dataLevel = parseInt(process.env.DATA_LEVEL || '999', 10);
+  if (isNaN(dataLevel) || dataLevel < 0) {
+    throw new Error('DATA_LEVEL must be a non-negative number');
   }
 
   // Optional environment variables with defaults
@@ -80,6 +246,50 @@ function parseEnv(): Config {
     throw new Error('NUM_CONNECTIONS must be a positive number');
   }
 
+  // Number of rows a runner takes from Redis at a time
+  const dataBatchSize = parseInt(process.env.DATA_BATCH_SIZE || '10', 10);
+  if (isNaN(dataBatchSize) || dataBatchSize <= 0) {
+    throw new Error('DATA_BATCH_SIZE must be a positive number');
+  }
+
+  // How rows are read from Redis: removed from the list as they are used, or read by index leaving the list intact
+  const dataAccessStr = process.env.DATA_ACCESS || 'consume';
+  if (!Object.values(DataAccessMode).includes(dataAccessStr as DataAccessMode)) {
+    throw new Error(`DATA_ACCESS must be one of: ${Object.values(DataAccessMode).join(', ')}`);
+  }
+  const dataAccess = dataAccessStr as DataAccessMode;
+
+  // Order in which rows are read, when they are read by index
+  const dataDistributionStr = process.env.DATA_DISTRIBUTION || 'sequential';
+  if (!Object.values(DataDistribution).includes(dataDistributionStr as DataDistribution)) {
+    throw new Error(`DATA_DISTRIBUTION must be one of: ${Object.values(DataDistribution).join(', ')}`);
+  }
+  const dataDistribution = dataDistributionStr as DataDistribution;
+
+  // Whether each row goes to a single connection of the fleet, or every runner reads the rows on its own
+  const dataSharingStr = process.env.DATA_SHARING || 'unique';
+  if (!Object.values(DataSharing).includes(dataSharingStr as DataSharing)) {
+    throw new Error(`DATA_SHARING must be one of: ${Object.values(DataSharing).join(', ')}`);
+  }
+  const dataSharing = dataSharingStr as DataSharing;
+
+  if (dataSource === DataSourceType.REDIS && dataAccess === DataAccessMode.CONSUME &&
+    (dataDistribution !== DataDistribution.SEQUENTIAL || dataSharing !== DataSharing.UNIQUE)) {
+    throw new Error('DATA_DISTRIBUTION and DATA_SHARING require DATA_ACCESS=index when DATA_SOURCE is redis');
+  }
+
+  // Runners claim test data rows until the data is exhausted or they reach this cap (0 for no cap)
+  const maxRowsPerRunner = parseInt(process.env.MAX_ROWS_PER_RUNNER || '0', 10);
+  if (isNaN(maxRowsPerRunner) || maxRowsPerRunner < 0) {
+    throw new Error('MAX_ROWS_PER_RUNNER must be a non-negative number');
+  }
+
+  // Draw a fresh data row for every reconnect or repeated HTTP iteration
+  const dataRotation = process.env.DATA_ROTATION === 'true';
+
+  // Fail instead of leaving @{name} in place when a template refers to a missing variable
+  const templateStrict = process.env.TEMPLATE_STRICT === 'true';
+
   const logLevelStr = process.env.LOG_LEVEL || 'info';
   if (!Object.values(LogLevel).includes(logLevelStr as LogLevel)) {
     throw new Error(`LOG_LEVEL must be one of: ${Object.values(LogLevel).join(', ')}`);
@@ -104,7 +314,8 @@ function parseEnv(): Config {
 
   const runnerId = process.env.RUNNER_ID || `runner-${Math.floor(Math.random() * 10000)}`;
 
-  const replicas = parseInt(process.env.REPLICAS || '3', 10);
+  // A standalone runner is the only replica
+  const replicas = parseInt(process.env.REPLICAS || (standalone ? '1' : '3'), 10);
   if (isNaN(replicas) || replicas <= 0) {
     throw new Error('REPLICAS must be a positive number');
   }
@@ -116,6 +327,12 @@ function parseEnv(): Config {
   }
   const testMode = testModeStr as TestMode;
 
+  // WebSocket configuration (only required if testMode is websocket)
+  const wsUrl = process.env.WS_URL || '';
+  if (testMode === TestMode.WEBSOCKET && !wsUrl) {
+    throw new Error('WS_URL environment variable is required when TEST_MODE is websocket');
+  }
+
   // HTTP configuration (only required if testMode is HTTP)
   const httpUrl = process.env.HTTP_URL || '';
   if (testMode === TestMode.HTTP && !httpUrl) {
@@ -124,6 +341,93 @@ function parseEnv(): Config {
 
   const httpMethod = process.env.HTTP_METHOD || 'GET';
 
+  // Headers sent with every HTTP request, as a JSON object whose values may contain templates
+  let httpHeaders: Record<string, string> = {};
+  if (process.env.HTTP_HEADERS) {
+    let parsedHeaders: unknown;
+    try {
+      parsedHeaders = JSON.parse(process.env.HTTP_HEADERS);
+    } catch {
+      parsedHeaders = null;
+    }
+    if (!parsedHeaders || typeof parsedHeaders !== 'object' || Array.isArray(parsedHeaders) ||
+      Object.values(parsedHeaders).some(value => typeof value !== 'string')) {
+      throw new Error('HTTP_HEADERS must be a JSON object of header names to string values');
+    }
+    httpHeaders = parsedHeaders as Record<string, string>;
+  }
+
+  // Optional request body template, encoded according to HTTP_BODY_TYPE
+  const httpBodyFile = process.env.HTTP_BODY_FILE || '';
+
+  const httpBodyTypeStr = process.env.HTTP_BODY_TYPE || 'json';
+  if (!Object.values(HttpBodyType).includes(httpBodyTypeStr as HttpBodyType)) {
+    throw new Error(`HTTP_BODY_TYPE must be one of: ${Object.values(HttpBodyType).join(', ')}`);
+  }
+  const httpBodyType = httpBodyTypeStr as HttpBodyType;
+
+  const httpTimeoutMs = parseInt(process.env.HTTP_TIMEOUT_MS || '30000', 10);
+  if (isNaN(httpTimeoutMs) || httpTimeoutMs <= 0) {
+    throw new Error('HTTP_TIMEOUT_MS must be a positive number');
+  }
+
+  // Optional scenario file (JSON or YAML) of HTTP steps run in order for each data row
+  const httpScenarioFile = process.env.HTTP_SCENARIO_FILE || '';
+
+  // Optional checks (JSON or YAML) run against every HTTP response or received WebSocket message
+  const checksFile = process.env.CHECKS_FILE || '';
+
+  // Per virtual user cookie jar, optionally seeded from test data columns ("cookie=column" or "column")
+  const httpCookieJar = process.env.HTTP_COOKIE_JAR === 'true';
+  const httpCookieColumns: Record<string, string> = {};
+  for (const entry of (process.env.HTTP_COOKIE_COLUMNS || '').split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+    const [cookie, column] = entry.includes('=') ? entry.split('=', 2).map(part => part.trim()) : [entry, entry];
+    if (!cookie || !column) {
+      throw new Error('HTTP_COOKIE_COLUMNS must be a comma-separated list of columns or cookie=column pairs');
+    }
+    httpCookieColumns[cookie] = column;
+  }
+  if (Object.keys(httpCookieColumns).length > 0 && !httpCookieJar) {
+    throw new Error('HTTP_COOKIE_COLUMNS requires HTTP_COOKIE_JAR=true');
+  }
+
+  // HTTP agents: one pool of sockets for the runner, or one per connection like separate clients
+  const httpAgentScopeStr = process.env.HTTP_AGENT_SCOPE || 'shared';
+  if (!Object.values(HttpAgentScope).includes(httpAgentScopeStr as HttpAgentScope)) {
+    throw new Error(`HTTP_AGENT_SCOPE must be one of: ${Object.values(HttpAgentScope).join(', ')}`);
+  }
+  const httpAgentScope = httpAgentScopeStr as HttpAgentScope;
+
+  // Reuse sockets between requests (default to true)
+  const httpKeepAlive = process.env.HTTP_KEEP_ALIVE !== 'false';
+
+  // Socket limits of each agent, 0 meaning unlimited
+  const httpMaxSockets = parseInt(process.env.HTTP_MAX_SOCKETS || '0', 10);
+  if (isNaN(httpMaxSockets) || httpMaxSockets < 0) {
+    throw new Error('HTTP_MAX_SOCKETS must be a non-negative number');
+  }
+
+  const httpMaxTotalSockets = parseInt(process.env.HTTP_MAX_TOTAL_SOCKETS || '0', 10);
+  if (isNaN(httpMaxTotalSockets) || httpMaxTotalSockets < 0) {
+    throw new Error('HTTP_MAX_TOTAL_SOCKETS must be a non-negative number');
+  }
+
+  const httpMaxFreeSockets = parseInt(process.env.HTTP_MAX_FREE_SOCKETS || '256', 10);
+  if (isNaN(httpMaxFreeSockets) || httpMaxFreeSockets <= 0) {
+    throw new Error('HTTP_MAX_FREE_SOCKETS must be a positive number');
+  }
+
+  // Socket limits for specific hosts, such as "api.example.com=50,cdn.example.com=10"
+  const httpHostMaxSockets: Record<string, number> = {};
+  for (const entry of (process.env.HTTP_HOST_MAX_SOCKETS || '').split(',').map(item => item.trim()).filter(item => item.length > 0)) {
+    const [host, limit] = entry.split('=').map(part => part.trim());
+    const maxSockets = parseInt(limit, 10);
+    if (!host || isNaN(maxSockets) || maxSockets <= 0) {
+      throw new Error('HTTP_HOST_MAX_SOCKETS must be a comma-separated list of host=maxSockets pairs');
+    }
+    httpHostMaxSockets[host.toLowerCase()] = maxSockets;
+  }
+
   // Certificate validation configuration (default to true for security)
   const rejectUnauthorized = process.env.REJECT_UNAUTHORIZED !== 'false';
 
@@ -133,6 +437,117 @@ function parseEnv(): Config {
     throw new Error('HTTP_REQUESTS_PER_DATA must be a positive number');
   }
 
+  // Optional scenario file (JSON or YAML) executed by each WebSocket connection
+  const wsScenarioFile = process.env.WS_SCENARIO_FILE || '';
+
+  // Optional JSON path of the correlation id used to time WebSocket replies
+  const wsCorrelationPath = process.env.WS_CORRELATION_PATH || '';
+
+  const wsResponseTimeoutMs = parseInt(process.env.WS_RESPONSE_TIMEOUT_MS || '10000', 10);
+  if (isNaN(wsResponseTimeoutMs) || wsResponseTimeoutMs <= 0) {
+    throw new Error('WS_RESPONSE_TIMEOUT_MS must be a positive number');
+  }
+
+  // Open-model HTTP load configuration
+  const httpLoadModelStr = process.env.HTTP_LOAD_MODEL || 'closed';
+  if (!Object.values(HttpLoadModel).includes(httpLoadModelStr as HttpLoadModel)) {
+    throw new Error(`HTTP_LOAD_MODEL must be one of: ${Object.values(HttpLoadModel).join(', ')}`);
+  }
+  const httpLoadModel = httpLoadModelStr as HttpLoadModel;
+
+  const httpArrivalRate = parseFloat(process.env.HTTP_ARRIVAL_RATE || '10');
+  if (isNaN(httpArrivalRate) || httpArrivalRate <= 0) {
+    throw new Error('HTTP_ARRIVAL_RATE must be a positive number');
+  }
+
+  const httpArrivalDurationMs = parseDuration(process.env.HTTP_ARRIVAL_DURATION || '1m', 'HTTP_ARRIVAL_DURATION');
+  if (httpArrivalDurationMs <= 0) {
+    throw new Error('HTTP_ARRIVAL_DURATION must be greater than zero');
+  }
+
+  const httpMaxInFlight = parseInt(process.env.HTTP_MAX_IN_FLIGHT || '1000', 10);
+  if (isNaN(httpMaxInFlight) || httpMaxInFlight <= 0) {
+    throw new Error('HTTP_MAX_IN_FLIGHT must be a positive number');
+  }
+
+  const httpLateThresholdMs = parseInt(process.env.HTTP_LATE_THRESHOLD_MS || '50', 10);
+  if (isNaN(httpLateThresholdMs) || httpLateThresholdMs < 0) {
+    throw new Error('HTTP_LATE_THRESHOLD_MS must be a non-negative number');
+  }
+
+  // Multi-stage load profile (only required if connectionMode is staged)
+  const loadStages = parseLoadStages(process.env.LOAD_STAGES || '');
+  if (connectionMode === ConnectionMode.STAGED && loadStages.length === 0) {
+    throw new Error('LOAD_STAGES environment variable is required when CONNECTION_MODE is staged');
+  }
+
+  // Test duration (0 runs until the process is stopped)
+  const testDurationMs = process.env.TEST_DURATION ? parseDuration(process.env.TEST_DURATION, 'TEST_DURATION') : 0;
+
+  // Path of the JSON summary written at the end of the test
+  const summaryFile = process.env.SUMMARY_FILE || `summary-${runnerId}.json`;
+
+  // Pass/fail thresholds, separated by commas or semicolons
+  const thresholds = (process.env.THRESHOLDS || '')
+    .split(/[;,\n]/)
+    .map(threshold => threshold.trim())
+    .filter(threshold => threshold.length > 0);
+
+  // Abort the test as soon as a threshold can no longer pass
+  const thresholdsAbortOnFail = process.env.THRESHOLDS_ABORT_ON_FAIL === 'true';
+
+  // Port of the local status/metrics server (0 disables it)
+  const statusPort = parseInt(process.env.STATUS_PORT || '0', 10);
+  if (isNaN(statusPort) || statusPort < 0 || statusPort > 65535) {
+    throw new Error('STATUS_PORT must be a port number between 0 and 65535');
+  }
+
+  // Prometheus sink: exposed on the status server and optionally pushed to a Pushgateway
+  const prometheusPushgatewayUrl = (process.env.PROMETHEUS_PUSHGATEWAY_URL || '').replace(/\/+$/, '');
+  if (metricsSinks.includes(MetricsSinkType.PROMETHEUS) && statusPort === 0 && !prometheusPushgatewayUrl) {
+    throw new Error('The prometheus sink needs STATUS_PORT or PROMETHEUS_PUSHGATEWAY_URL to be set');
+  }
+
+  // StatsD sink configuration
+  const statsdHost = process.env.STATSD_HOST || 'localhost';
+
+  const statsdPort = parseInt(process.env.STATSD_PORT || '8125', 10);
+  if (isNaN(statsdPort) || statsdPort <= 0 || statsdPort > 65535) {
+    throw new Error('STATSD_PORT must be a port number between 1 and 65535');
+  }
+
+  const statsdPrefix = process.env.STATSD_PREFIX || 'loadtest';
+
+  // Path of the JSON-lines file written by the file sink
+  const metricsFile = process.env.METRICS_FILE || `metrics-${runnerId}.jsonl`;
+
+  // Start barrier: wait for all replicas to register in Redis, then start together
+  const startBarrier = process.env.START_BARRIER === 'true';
+  if (startBarrier && !redisUrl) {
+    throw new Error('REDIS_URL environment variable is required when START_BARRIER is enabled');
+  }
+
+  const startBarrierTimeoutMs = parseDuration(process.env.START_BARRIER_TIMEOUT || '2m', 'START_BARRIER_TIMEOUT');
+
+  const startBarrierDelayMs = parseDuration(process.env.START_BARRIER_DELAY || '5s', 'START_BARRIER_DELAY');
+
+  // Listen for operator commands on a Redis pub/sub channel
+  const commandChannel = process.env.COMMAND_CHANNEL === 'true';
+  if (commandChannel && !redisUrl) {
+    throw new Error('REDIS_URL environment variable is required when COMMAND_CHANNEL is enabled');
+  }
+
+  // Publish mergeable stats snapshots to Redis for the fleet aggregator
+  const publishSnapshots = process.env.PUBLISH_SNAPSHOTS === 'true';
+  if (publishSnapshots && !redisUrl) {
+    throw new Error('REDIS_URL environment variable is required when PUBLISH_SNAPSHOTS is enabled');
+  }
+
+  const snapshotIntervalMs = parseDuration(process.env.SNAPSHOT_INTERVAL || '5s', 'SNAPSHOT_INTERVAL');
+  if (snapshotIntervalMs <= 0) {
+    throw new Error('SNAPSHOT_INTERVAL must be greater than zero');
+  }
+
   return {
     wsUrl,
     numConnections,
@@ -141,6 +556,17 @@ function parseEnv(): Config {
     influxOrg,
     influxBucket,
     redisUrl,
+    standalone,
+    dataSource,
+    csvPath,
+    dataLevel,
+    maxRowsPerRunner,
+    dataBatchSize,
+    dataAccess,
+    dataDistribution,
+    dataSharing,
+    dataRotation,
+    templateStrict,
     logLevel,
     retryDelayMs,
     connectionMode,
@@ -150,8 +576,48 @@ function parseEnv(): Config {
     testMode,
     httpUrl,
     httpMethod,
+    httpHeaders,
+    httpBodyFile,
+    httpBodyType,
+    httpTimeoutMs,
+    httpScenarioFile,
+    checksFile,
+    httpCookieJar,
+    httpCookieColumns,
+    httpAgentScope,
+    httpKeepAlive,
+    httpMaxSockets,
+    httpMaxTotalSockets,
+    httpMaxFreeSockets,
+    httpHostMaxSockets,
     rejectUnauthorized,
-    httpRequestsPerData: httpRequestsPerData
+    httpRequestsPerData: httpRequestsPerData,
+    wsScenarioFile,
+    wsCorrelationPath,
+    wsResponseTimeoutMs,
+    httpLoadModel,
+    httpArrivalRate,
+    httpArrivalDurationMs,
+    httpMaxInFlight,
+    httpLateThresholdMs,
+    loadStages,
+    testDurationMs,
+    summaryFile,
+    thresholds,
+    thresholdsAbortOnFail,
+    statusPort,
+    metricsSinks,
+    prometheusPushgatewayUrl,
+    statsdHost,
+    statsdPort,
+    statsdPrefix,
+    metricsFile,
+    startBarrier,
+    startBarrierTimeoutMs,
+    startBarrierDelayMs,
+    commandChannel,
+    publishSnapshots,
+    snapshotIntervalMs
   };
 }
 
@@ -0,0 +1,114 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+process.env.HTTP_COOKIE_JAR = 'true';
+process.env.HTTP_COOKIE_COLUMNS = 'session=token,theme';
+
+import type { CookieJar } from './cookie-jar';
+
+// Empty jar
+async function emptyJar(): Promise<CookieJar> {
+  const { CookieJar } = await import('./cookie-jar');
+  return new CookieJar();
+}
+
+describe('CookieJar', () => {
+  it('sends host-only cookies to their host only, and domain cookies to its subdomains', async () => {
+    const jar = await emptyJar();
+    jar.store(['host=1', 'shared=2; Domain=.example.com'], 'http://api.example.com/');
+
+    expect(jar.cookieHeader('http://api.example.com/')).toBe('host=1; shared=2');
+    expect(jar.cookieHeader('http://www.example.com/')).toBe('shared=2');
+    expect(jar.cookieHeader('http://example.com/')).toBe('shared=2');
+    expect(jar.cookieHeader('http://sub.api.example.com/')).toBe('shared=2');
+    expect(jar.cookieHeader('http://other.com/')).toBeNull();
+  });
+
+  it('ignores cookies for a domain the server does not belong to', async () => {
+    const jar = await emptyJar();
+    jar.store('stolen=1; Domain=other.com', 'http://api.example.com/');
+
+    expect(jar.cookieHeader('http://other.com/')).toBeNull();
+    expect(jar.cookieHeader('http://api.example.com/')).toBeNull();
+  });
+
+  it('matches paths by prefix at a segment boundary', async () => {
+    const jar = await emptyJar();
+    jar.store(['api=1; Path=/api', 'root=2; Path=/'], 'http://example.com/login');
+
+    expect(jar.cookieHeader('http://example.com/api')).toBe('api=1; root=2');
+    expect(jar.cookieHeader('http://example.com/api/users')).toBe('api=1; root=2');
+    expect(jar.cookieHeader('http://example.com/apis')).toBe('root=2');
+    expect(jar.cookieHeader('http://example.com/')).toBe('root=2');
+  });
+
+  it('defaults the path to the directory of the request', async () => {
+    const jar = await emptyJar();
+    jar.store('id=1', 'http://example.com/account/login');
+
+    expect(jar.cookieHeader('http://example.com/account/profile')).toBe('id=1');
+    expect(jar.cookieHeader('http://example.com/home')).toBeNull();
+  });
+
+  it('deletes cookies with Max-Age=0 or an Expires date in the past', async () => {
+    const jar = await emptyJar();
+    jar.store(['a=1', 'b=2', 'c=3'], 'http://example.com/');
+    jar.store(['a=; Max-Age=0', 'b=; Expires=Thu, 01 Jan 1970 00:00:00 GMT'], 'http://example.com/');
+
+    expect(jar.cookieHeader('http://example.com/')).toBe('c=3');
+  });
+
+  it('expires cookies once their Max-Age has elapsed, Max-Age taking precedence over Expires', async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const jar = await emptyJar();
+      jar.store('a=1; Max-Age=10; Expires=Thu, 01 Jan 1970 00:00:01 GMT', 'http://example.com/');
+
+      jest.setSystemTime(5000);
+      expect(jar.cookieHeader('http://example.com/')).toBe('a=1');
+
+      jest.setSystemTime(10000);
+      expect(jar.cookieHeader('http://example.com/')).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('sends Secure cookies over https only', async () => {
+    const jar = await emptyJar();
+    jar.store(['token=1; Secure', 'plain=2'], 'https://example.com/');
+
+    expect(jar.cookieHeader('https://example.com/')).toBe('token=1; plain=2');
+    expect(jar.cookieHeader('http://example.com/')).toBe('plain=2');
+  });
+
+  it('replaces a cookie with the same name, domain and path', async () => {
+    const jar = await emptyJar();
+    jar.store(['id=1', 'id=2; Path=/api'], 'http://example.com/');
+    jar.store('id=3', 'http://example.com/');
+
+    expect(jar.cookieHeader('http://example.com/')).toBe('id=3');
+    expect(jar.cookieHeader('http://example.com/api')).toBe('id=2; id=3');
+  });
+
+  it('replaces seeded cookies with the cookies set by the server', async () => {
+    const { CookieJar } = await import('./cookie-jar');
+    const jar = new CookieJar({ session: 'seeded' });
+
+    expect(jar.cookieHeader('http://any.host/')).toBe('session=seeded');
+
+    jar.store('session=fresh', 'http://example.com/');
+    expect(jar.cookieHeader('http://example.com/')).toBe('session=fresh');
+  });
+});
+
+describe('createCookieJar', () => {
+  it('seeds the jar from the configured test data columns', async () => {
+    const { createCookieJar } = await import('./cookie-jar');
+    const jar = createCookieJar({ level: '1', token: 'abc', theme: '' });
+
+    expect(jar?.cookieHeader('http://example.com/')).toBe('session=abc');
+  });
+});
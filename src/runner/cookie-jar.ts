@@ -0,0 +1,165 @@
+import { config } from './config';
+import logger from './logger';
+import { TestDataRow } from './data-source';
+
+// A cookie as stored by the jar
+interface StoredCookie {
+  name: string;
+  value: string;
+  // Null for cookies seeded from test data, which are sent to every host
+  domain: string | null;
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  expiresAt: number | null;
+}
+
+// Whether a request host is within a cookie's domain
+function domainMatches(cookie: StoredCookie, host: string): boolean {
+  if (cookie.domain === null) return true;
+  if (cookie.hostOnly) return host === cookie.domain;
+  return host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+}
+
+// Whether a request path is within a cookie's path
+function pathMatches(cookiePath: string, requestPath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  return requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/');
+}
+
+// Default path of a cookie set without a Path attribute: the directory of the request path
+function defaultPath(requestPath: string): string {
+  const lastSlash = requestPath.lastIndexOf('/');
+  return lastSlash > 0 ? requestPath.slice(0, lastSlash) : '/';
+}
+
+// Cookies of one virtual user, kept between its requests like a browser would
+export class CookieJar {
+  private cookies: StoredCookie[] = [];
+
+  constructor(seed: Record<string, string> = {}) {
+    for (const [name, value] of Object.entries(seed)) {
+      this.cookies.push({ name, value, domain: null, hostOnly: false, path: '/', secure: false, expiresAt: null });
+    }
+  }
+
+  // Store the cookies of the Set-Cookie headers of a response to the given URL
+  public store(setCookieHeaders: string[] | string | undefined, url: string): void {
+    if (!setCookieHeaders) return;
+
+    const requestUrl = new URL(url);
+    const headers = Array.isArray(setCookieHeaders) ? setCookieHeaders : [setCookieHeaders];
+    for (const header of headers) {
+      const cookie = this.parse(header, requestUrl);
+      if (!cookie) continue;
+
+      // A cookie replaces the one with the same name, domain and path, and a seeded one with the same
+      // name; an expired one only removes them
+      this.cookies = this.cookies.filter(existing => existing.name !== cookie.name ||
+        (existing.domain !== null && (existing.domain !== cookie.domain || existing.path !== cookie.path)));
+      if (cookie.expiresAt === null || cookie.expiresAt > Date.now()) {
+        this.cookies.push(cookie);
+      }
+    }
+  }
+
+  // Value of the Cookie header for a request to the given URL, or null if no cookie applies
+  public cookieHeader(url: string): string | null {
+    const requestUrl = new URL(url);
+    const host = requestUrl.hostname.toLowerCase();
+    const now = Date.now();
+
+    const matching = this.cookies
+      .filter(cookie => cookie.expiresAt === null || cookie.expiresAt > now)
+      .filter(cookie => domainMatches(cookie, host) && pathMatches(cookie.path, requestUrl.pathname))
+      .filter(cookie => !cookie.secure || requestUrl.protocol === 'https:')
+      // Cookies with longer paths are listed first
+      .sort((a, b) => b.path.length - a.path.length);
+
+    return matching.length > 0 ? matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : null;
+  }
+
+  // Parse a Set-Cookie header, or return null if the cookie must be ignored
+  private parse(header: string, requestUrl: URL): StoredCookie | null {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) return null;
+
+    const host = requestUrl.hostname.toLowerCase();
+    const cookie: StoredCookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: host,
+      hostOnly: true,
+      path: defaultPath(requestUrl.pathname),
+      secure: false,
+      expiresAt: null
+    };
+
+    let maxAge: number | null = null;
+    for (const attribute of attributes) {
+      const [rawName, ...rawValue] = attribute.split('=');
+      const name = rawName.trim().toLowerCase();
+      const value = rawValue.join('=').trim();
+
+      switch (name) {
+        case 'domain': {
+          const domain = value.replace(/^\./, '').toLowerCase();
+          // Servers may only set cookies for their own domain or a parent domain
+          if (host !== domain && !host.endsWith(`.${domain}`)) {
+            logger.debug(`Ignoring cookie ${cookie.name} for domain ${domain} set by ${host}`);
+            return null;
+          }
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+          break;
+        }
+        case 'path':
+          if (value.startsWith('/')) {
+            cookie.path = value;
+          }
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'max-age':
+          if (/^-?\d+$/.test(value)) {
+            maxAge = parseInt(value, 10);
+          }
+          break;
+        case 'expires': {
+          const expiresAt = Date.parse(value);
+          if (!isNaN(expiresAt)) {
+            cookie.expiresAt = expiresAt;
+          }
+          break;
+        }
+      }
+    }
+
+    // Max-Age takes precedence over Expires
+    if (maxAge !== null) {
+      cookie.expiresAt = Date.now() + maxAge * 1000;
+    }
+
+    return cookie;
+  }
+}
+
+// Create the cookie jar of a virtual user, seeded from the configured test data columns,
+// or return null if cookie jars are disabled
+export function createCookieJar(testData: TestDataRow | null): CookieJar | null {
+  if (!config.httpCookieJar) {
+    return null;
+  }
+
+  const seed: Record<string, string> = {};
+  for (const [cookie, column] of Object.entries(config.httpCookieColumns)) {
+    if (testData && testData[column] !== undefined && testData[column] !== '') {
+      seed[cookie] = testData[column];
+    } else if (testData) {
+      logger.debug(`No value in column ${column} for cookie ${cookie}`);
+    }
+  }
+  return new CookieJar(seed);
+}
@@ -0,0 +1,71 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+
+import { DataDistribution } from './config';
+
+// Row indexes read in order until the rows run out, up to a limit for orders that never run out
+async function readOrder(rowCount: number, distribution: DataDistribution, seed: number, limit: number): Promise<number[]> {
+  const { rowIndexAt } = await import('./data-distribution');
+  const indexes: number[] = [];
+  for (let position = 0; position < limit; position++) {
+    const index = rowIndexAt(position, rowCount, distribution, seed);
+    if (index === null) break;
+    indexes.push(index);
+  }
+  return indexes;
+}
+
+// Indexes 0 to count - 1
+function allIndexes(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => index);
+}
+
+describe('shuffledIndex', () => {
+  it('maps the positions to every row exactly once', async () => {
+    const { shuffledIndex } = await import('./data-distribution');
+
+    for (const rowCount of [1, 2, 7, 12, 100, 1024]) {
+      for (const seed of [0, 1, 6, 99, 123456789, Number.MAX_SAFE_INTEGER]) {
+        const indexes = allIndexes(rowCount).map(position => shuffledIndex(position, rowCount, seed));
+        expect([...indexes].sort((a, b) => a - b)).toEqual(allIndexes(rowCount));
+      }
+    }
+  });
+
+  it('gives the same order for the same seed', async () => {
+    const { shuffledIndex } = await import('./data-distribution');
+    const order = (seed: number) => allIndexes(50).map(position => shuffledIndex(position, 50, seed));
+
+    expect(order(987654321)).toEqual(order(987654321));
+    expect(order(987654321)).not.toEqual(order(123456789));
+  });
+});
+
+describe('rowIndexAt', () => {
+  it('reads every row once in list order with sequential', async () => {
+    expect(await readOrder(5, DataDistribution.SEQUENTIAL, 42, 100)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('reads every row once in shuffled order with random', async () => {
+    const indexes = await readOrder(40, DataDistribution.RANDOM, 42, 100);
+
+    expect(indexes).toHaveLength(40);
+    expect([...indexes].sort((a, b) => a - b)).toEqual(allIndexes(40));
+    expect(indexes).toEqual(await readOrder(40, DataDistribution.RANDOM, 42, 100));
+  });
+
+  it('starts over after the last row with round-robin', async () => {
+    expect(await readOrder(3, DataDistribution.ROUND_ROBIN, 42, 8)).toEqual([0, 1, 2, 0, 1, 2, 0, 1]);
+  });
+
+  it('returns null without rows', async () => {
+    const { rowIndexAt } = await import('./data-distribution');
+
+    for (const distribution of Object.values(DataDistribution)) {
+      expect(rowIndexAt(0, 0, distribution, 42)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { DataDistribution } from './config';
+
+// Greatest common divisor, used to pick a multiplier that permutes the row indexes
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+// Shuffled order of the rows without repetition, identical on every runner using the same seed:
+// an affine map position -> (multiplier * position + offset) mod rowCount with a multiplier coprime to rowCount
+export function shuffledIndex(position: number, rowCount: number, seed: number): number {
+  let multiplier = (seed % rowCount) || 1;
+  while (gcd(multiplier, rowCount) !== 1) {
+    multiplier++;
+  }
+  const offset = Math.floor(seed / rowCount) % rowCount;
+  return Number((BigInt(multiplier) * BigInt(position) + BigInt(offset)) % BigInt(rowCount));
+}
+
+// Index of the row used for the given position in the read order, or null once the rows are exhausted.
+// Sequential and random orders use every row once; round-robin starts over at the first row.
+export function rowIndexAt(position: number, rowCount: number, distribution: DataDistribution, seed: number): number | null {
+  if (rowCount <= 0) return null;
+
+  switch (distribution) {
+    case DataDistribution.SEQUENTIAL:
+      return position < rowCount ? position : null;
+    case DataDistribution.RANDOM:
+      return position < rowCount ? shuffledIndex(position, rowCount, seed) : null;
+    case DataDistribution.ROUND_ROBIN:
+      return position % rowCount;
+  }
+}
+
+// Random seed for the shuffled order
+export function randomSeed(): number {
+  return Math.floor(Math.random() * Number.MAX_SAFE_INTEGER);
+}
@@ -0,0 +1,66 @@
+import { config, DataSourceType } from './config';
+import { RedisClient, redisClient } from './redis-client';
+import { LocalDataSource } from './local-data-source';
+import logger from './logger';
+
+// Interface for test data row
+export interface TestDataRow {
+  level: string;
+  [key: string]: string;
+}
+
+// Where the runner takes its test data rows from
+export interface TestDataSource {
+  // Human-readable name used in logs
+  readonly description: string;
+
+  // Check that test data is available and count it
+  loadTestData(): Promise<boolean>;
+
+  // Take the next test data row, or null once the data is exhausted or MAX_ROWS_PER_RUNNER is reached.
+  // Rejects when the data cannot be read for now, e.g. while Redis reconnects.
+  popTestData(): Promise<TestDataRow | null>;
+
+  // Read the next row without taking it, e.g. to check templates
+  peekTestData(): Promise<TestDataRow | null>;
+
+  // Number of rows available when the data was loaded
+  getTestDataCount(): number;
+
+  // Number of rows taken by this runner
+  getConsumedCount(): number;
+
+  // Release resources
+  close(): Promise<void>;
+}
+
+// Data source selected by DATA_SOURCE
+export const testDataSource: TestDataSource = config.dataSource === DataSourceType.REDIS
+  ? redisClient as RedisClient
+  : new LocalDataSource(config.dataSource === DataSourceType.CSV ? config.csvPath : '');
+
+let rotationExhausted = false;
+
+// Row to use for a reconnect or a repeated iteration: a fresh row with DATA_ROTATION, otherwise the current one.
+// Once the data runs out, connections keep their current row.
+export async function rotateTestData(current: TestDataRow | null): Promise<TestDataRow | null> {
+  if (!config.dataRotation || !current || rotationExhausted) {
+    return current;
+  }
+
+  let next: TestDataRow | null;
+  try {
+    next = await testDataSource.popTestData();
+  } catch (error) {
+    logger.error(`Failed to rotate test data, keeping the current row: ${(error as Error).message}`);
+    return current;
+  }
+
+  if (!next) {
+    logger.warn('Test data exhausted, connections keep their current data row from now on');
+    rotationExhausted = true;
+    return current;
+  }
+
+  return next;
+}
@@ -0,0 +1,70 @@
+import { classifyCloseCode, classifyError, classifyHttpStatus, ErrorCategory } from './error-classifier';
+
+// Node.js style error with a code
+function errorWithCode(code: string, message: string = code): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('classifyHttpStatus', () => {
+  it('groups statuses by class', () => {
+    expect(classifyHttpStatus(302)).toEqual({ category: ErrorCategory.HTTP_3XX, code: '302' });
+    expect(classifyHttpStatus(404)).toEqual({ category: ErrorCategory.HTTP_4XX, code: '404' });
+    expect(classifyHttpStatus(503)).toEqual({ category: ErrorCategory.HTTP_5XX, code: '503' });
+    expect(classifyHttpStatus(200)).toEqual({ category: ErrorCategory.UNKNOWN, code: '200' });
+  });
+});
+
+describe('classifyCloseCode', () => {
+  it('ignores normal closes', () => {
+    expect(classifyCloseCode(1000)).toBeNull();
+    expect(classifyCloseCode(1001)).toBeNull();
+    expect(classifyCloseCode(1005)).toBeNull();
+  });
+
+  it('classifies abnormal closes', () => {
+    expect(classifyCloseCode(1006)).toEqual({ category: ErrorCategory.WS_CLOSE, code: '1006' });
+    expect(classifyCloseCode(4001)).toEqual({ category: ErrorCategory.WS_CLOSE, code: '4001' });
+  });
+});
+
+describe('classifyError', () => {
+  it('classifies network error codes', () => {
+    expect(classifyError(errorWithCode('ENOTFOUND'))).toEqual({ category: ErrorCategory.DNS, code: 'ENOTFOUND' });
+    expect(classifyError(errorWithCode('ETIMEDOUT'))).toEqual({ category: ErrorCategory.TIMEOUT, code: 'ETIMEDOUT' });
+    expect(classifyError(errorWithCode('ECONNREFUSED'))).toEqual({ category: ErrorCategory.CONNECTION_REFUSED, code: 'ECONNREFUSED' });
+    expect(classifyError(errorWithCode('ECONNRESET'))).toEqual({ category: ErrorCategory.CONNECTION_RESET, code: 'ECONNRESET' });
+    expect(classifyError(errorWithCode('EHOSTUNREACH'))).toEqual({ category: ErrorCategory.NETWORK, code: 'EHOSTUNREACH' });
+  });
+
+  it('classifies TLS error codes, including the prefixed ones', () => {
+    expect(classifyError(errorWithCode('CERT_HAS_EXPIRED'))).toEqual({ category: ErrorCategory.TLS, code: 'CERT_HAS_EXPIRED' });
+    expect(classifyError(errorWithCode('ERR_TLS_HANDSHAKE_TIMEOUT'))).toEqual({ category: ErrorCategory.TLS, code: 'ERR_TLS_HANDSHAKE_TIMEOUT' });
+    expect(classifyError(errorWithCode('ERR_SSL_WRONG_VERSION_NUMBER'))).toEqual({ category: ErrorCategory.TLS, code: 'ERR_SSL_WRONG_VERSION_NUMBER' });
+  });
+
+  it('classifies HTTP error responses by their status', () => {
+    const error = Object.assign(new Error('Request failed with status code 502'), { response: { status: 502 } });
+    expect(classifyError(error)).toEqual({ category: ErrorCategory.HTTP_5XX, code: '502' });
+  });
+
+  it('classifies rejected WebSocket handshakes by their status', () => {
+    expect(classifyError(new Error('Unexpected server response: 401'))).toEqual({ category: ErrorCategory.HTTP_4XX, code: '401' });
+  });
+
+  it('looks at the code of a wrapped error', () => {
+    const error = Object.assign(new Error('fetch failed'), { cause: errorWithCode('ECONNREFUSED') });
+    expect(classifyError(error)).toEqual({ category: ErrorCategory.CONNECTION_REFUSED, code: 'ECONNREFUSED' });
+  });
+
+  it('falls back to the message for errors without a known code', () => {
+    expect(classifyError(new Error('Opening handshake has timed out'))).toEqual({ category: ErrorCategory.TIMEOUT, code: 'timeout' });
+    expect(classifyError(errorWithCode('ERR_X', 'unable to verify the first certificate'))).toEqual({ category: ErrorCategory.TLS, code: 'ERR_X' });
+    expect(classifyError(errorWithCode('ERR_X', 'something else'))).toEqual({ category: ErrorCategory.UNKNOWN, code: 'ERR_X' });
+  });
+
+  it('accepts values that are not errors', () => {
+    expect(classifyError(undefined)).toEqual({ category: ErrorCategory.UNKNOWN, code: 'unknown' });
+    expect(classifyError('socket hang up')).toEqual({ category: ErrorCategory.UNKNOWN, code: 'unknown' });
+    expect(classifyError({ code: 42, response: null })).toEqual({ category: ErrorCategory.UNKNOWN, code: 'unknown' });
+  });
+});
@@ -0,0 +1,111 @@
+// Cause of a failed connection or request
+export enum ErrorCategory {
+  DNS = 'dns',
+  TLS = 'tls',
+  TIMEOUT = 'timeout',
+  CONNECTION_REFUSED = 'connection_refused',
+  CONNECTION_RESET = 'connection_reset',
+  NETWORK = 'network',
+  HTTP_3XX = 'http_3xx',
+  HTTP_4XX = 'http_4xx',
+  HTTP_5XX = 'http_5xx',
+  WS_CLOSE = 'ws_close',
+  UNKNOWN = 'unknown'
+}
+
+// Category plus the specific code (network error code, HTTP status or close code)
+export interface ErrorClassification {
+  category: ErrorCategory;
+  code: string;
+}
+
+const DNS_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_FAIL', 'EAI_NONAME'];
+const TIMEOUT_CODES = ['ETIMEDOUT', 'ECONNABORTED', 'ESOCKETTIMEDOUT', 'ERR_SOCKET_CONNECTION_TIMEOUT'];
+const RESET_CODES = ['ECONNRESET', 'EPIPE', 'ERR_STREAM_PREMATURE_CLOSE'];
+const NETWORK_CODES = ['EHOSTUNREACH', 'ENETUNREACH', 'ENETDOWN', 'EHOSTDOWN', 'EADDRNOTAVAIL', 'EADDRINUSE'];
+const TLS_CODES = [
+  'EPROTO',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'CERT_UNTRUSTED',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+  'HOSTNAME_MISMATCH'
+];
+
+// Close codes that mean the connection ended normally
+const NORMAL_CLOSE_CODES = [1000, 1001, 1005];
+
+// Classify an HTTP status code that indicates a failure
+export function classifyHttpStatus(status: number): ErrorClassification {
+  let category = ErrorCategory.UNKNOWN;
+  if (status >= 300 && status < 400) {
+    category = ErrorCategory.HTTP_3XX;
+  } else if (status >= 400 && status < 500) {
+    category = ErrorCategory.HTTP_4XX;
+  } else if (status >= 500 && status < 600) {
+    category = ErrorCategory.HTTP_5XX;
+  }
+
+  return { category, code: status.toString() };
+}
+
+// Classify a WebSocket close code, or return null if the close was normal
+export function classifyCloseCode(code: number): ErrorClassification | null {
+  if (NORMAL_CLOSE_CODES.includes(code)) {
+    return null;
+  }
+
+  return { category: ErrorCategory.WS_CLOSE, code: code.toString() };
+}
+
+// Properties of an error, or none if it is not an object
+function errorProperties(error: unknown): Record<string, unknown> {
+  return typeof error === 'object' && error !== null ? error as Record<string, unknown> : {};
+}
+
+// Classify a Node.js, axios or ws error by its cause
+export function classifyError(error: unknown): ErrorClassification {
+  const properties = errorProperties(error);
+
+  // HTTP error responses (axios)
+  const response = errorProperties(properties.response);
+  if (typeof response.status === 'number') {
+    return classifyHttpStatus(response.status);
+  }
+
+  // Rejected WebSocket handshakes (ws), e.g. "Unexpected server response: 503"
+  const message = typeof properties.message === 'string' ? properties.message : '';
+  const unexpectedResponse = /Unexpected server response: (\d{3})/.exec(message);
+  if (unexpectedResponse) {
+    return classifyHttpStatus(parseInt(unexpectedResponse[1], 10));
+  }
+
+  // Network error codes, looking through wrapped errors
+  const causeCode = errorProperties(properties.cause).code;
+  const code = typeof properties.code === 'string' && properties.code ? properties.code
+    : typeof causeCode === 'string' && causeCode ? causeCode : undefined;
+  if (code) {
+    if (DNS_CODES.includes(code)) return { category: ErrorCategory.DNS, code };
+    if (TIMEOUT_CODES.includes(code)) return { category: ErrorCategory.TIMEOUT, code };
+    if (code === 'ECONNREFUSED') return { category: ErrorCategory.CONNECTION_REFUSED, code };
+    if (RESET_CODES.includes(code)) return { category: ErrorCategory.CONNECTION_RESET, code };
+    if (NETWORK_CODES.includes(code)) return { category: ErrorCategory.NETWORK, code };
+    if (TLS_CODES.includes(code) || code.startsWith('ERR_TLS_') || code.startsWith('ERR_SSL_') || code.startsWith('CERT_')) {
+      return { category: ErrorCategory.TLS, code };
+    }
+  }
+
+  if (/handshake has timed out|timeout/i.test(message)) {
+    return { category: ErrorCategory.TIMEOUT, code: code || 'timeout' };
+  }
+  if (/certificate|ssl|tls/i.test(message)) {
+    return { category: ErrorCategory.TLS, code: code || 'tls' };
+  }
+
+  return { category: ErrorCategory.UNKNOWN, code: code || 'unknown' };
+}
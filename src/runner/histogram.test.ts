@@ -0,0 +1,144 @@
+import { formatLatencySummary, formatPercentiles, Histogram, summarizeLatencies } from './histogram';
+
+// Histogram of the values 1 to count
+function sequence(count: number): Histogram {
+  const histogram = new Histogram();
+  for (let value = 1; value <= count; value++) {
+    histogram.record(value);
+  }
+  return histogram;
+}
+
+describe('Histogram', () => {
+  it('returns zeros when empty', () => {
+    const histogram = new Histogram();
+
+    expect(histogram.getCount()).toBe(0);
+    expect(histogram.getMean()).toBe(0);
+    expect(histogram.getPercentiles()).toEqual({ p50: 0, p90: 0, p95: 0, p99: 0, max: 0 });
+    expect(histogram.snapshot().min).toBe(0);
+  });
+
+  it('keeps percentiles within 1% of the exact values', () => {
+    const histogram = sequence(10000);
+
+    expect(histogram.getCount()).toBe(10000);
+    expect(histogram.getMean()).toBeCloseTo(5000.5);
+    for (const percentile of [50, 90, 95, 99]) {
+      const exact = percentile * 100;
+      expect(Math.abs(histogram.percentile(percentile) - exact) / exact).toBeLessThanOrEqual(0.01);
+    }
+    expect(histogram.percentile(100)).toBe(10000);
+    expect(histogram.getMax()).toBe(10000);
+  });
+
+  it('clamps percentiles to the recorded range', () => {
+    const histogram = new Histogram();
+    histogram.record(42);
+
+    expect(histogram.getPercentiles()).toEqual({ p50: 42, p90: 42, p95: 42, p99: 42, max: 42 });
+  });
+
+  it('counts values close to zero in the zero bucket', () => {
+    const histogram = new Histogram();
+    histogram.record(0);
+    histogram.record(0.0001);
+    histogram.record(10);
+
+    expect(histogram.getCount()).toBe(3);
+    expect(histogram.snapshot().zeroCount).toBe(2);
+    expect(histogram.percentile(50)).toBe(0);
+    expect(histogram.percentile(99)).toBe(10);
+  });
+
+  it('ignores negative and non-finite values', () => {
+    const histogram = new Histogram();
+    histogram.record(-1);
+    histogram.record(NaN);
+    histogram.record(Infinity);
+
+    expect(histogram.getCount()).toBe(0);
+  });
+
+  it('merges histograms and snapshots', () => {
+    const low = sequence(100);
+    const high = new Histogram();
+    for (let value = 101; value <= 200; value++) {
+      high.record(value);
+    }
+
+    const merged = new Histogram();
+    merged.merge(low);
+    merged.merge(high.snapshot());
+
+    expect(merged.getCount()).toBe(200);
+    expect(merged.getMax()).toBe(200);
+    expect(merged.getMean()).toBeCloseTo(100.5);
+    expect(Math.abs(merged.percentile(50) - 100) / 100).toBeLessThanOrEqual(0.01);
+    expect(merged.snapshot().min).toBe(1);
+  });
+
+  it('restores the same state from a snapshot', () => {
+    const histogram = sequence(500);
+    const restored = Histogram.fromSnapshot(JSON.parse(JSON.stringify(histogram.snapshot())));
+
+    expect(restored.snapshot()).toEqual(histogram.snapshot());
+    expect(restored.getPercentiles()).toEqual(histogram.getPercentiles());
+  });
+
+  it('updates the percentiles after a bucket is added', () => {
+    const histogram = sequence(10);
+    histogram.percentile(50);
+    histogram.record(1000);
+
+    expect(histogram.percentile(100)).toBe(1000);
+    expect(Math.abs(histogram.percentile(95) - 1000) / 1000).toBeLessThanOrEqual(0.01);
+  });
+});
+
+describe('summarizeLatencies', () => {
+  it('summarizes the histograms that recorded values', () => {
+    const summary = summarizeLatencies({
+      connect: sequence(4).snapshot(),
+      message: new Histogram().snapshot()
+    });
+
+    expect(Object.keys(summary)).toEqual(['connect']);
+    expect(summary.connect.count).toBe(4);
+    expect(summary.connect.mean).toBe(2.5);
+    expect(summary.connect.max).toBe(4);
+    expect(summary.connect.dropped).toBeUndefined();
+  });
+
+  it('reports dropped values next to the percentiles they are missing from', () => {
+    const summary = summarizeLatencies({
+      corrected: sequence(4).snapshot(),
+      allDropped: new Histogram().snapshot(),
+      noneDropped: new Histogram().snapshot()
+    }, { corrected: 3, allDropped: 5, noneDropped: 0 });
+
+    expect(summary.corrected.count).toBe(4);
+    expect(summary.corrected.dropped).toBe(3);
+    expect(summary.allDropped.count).toBe(0);
+    expect(summary.allDropped.dropped).toBe(5);
+    expect(summary.noneDropped).toBeUndefined();
+  });
+});
+
+describe('formatPercentiles', () => {
+  it('formats each percentile in milliseconds', () => {
+    expect(formatPercentiles({ p50: 1, p90: 2.5, p95: 3, p99: 4, max: 5.126 }))
+      .toBe('p50=1.00ms p90=2.50ms p95=3.00ms p99=4.00ms max=5.13ms');
+  });
+});
+
+describe('formatLatencySummary', () => {
+  it('mentions dropped values', () => {
+    const stats = { count: 4, mean: 2.5, p50: 2, p90: 4, p95: 4, p99: 4, max: 4 };
+
+    expect(formatLatencySummary('corrected_response_time', stats))
+      .toBe('Latency corrected_response_time (4 samples): mean=2.50ms p50=2.00ms p90=4.00ms p95=4.00ms p99=4.00ms max=4.00ms');
+    expect(formatLatencySummary('corrected_response_time', { ...stats, dropped: 3 }))
+      .toMatch(/^Latency corrected_response_time \(4 samples, 3 dropped and not included\): mean=2.50ms/);
+  });
+});
@@ -0,0 +1,204 @@
+// Latency percentiles published for a histogram
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+// Sample count, mean and percentiles of a histogram
+export interface LatencySummary extends LatencyPercentiles {
+  count: number;
+  mean: number;
+  // Values that were never measured, e.g. open-model arrivals dropped because too many requests were in flight
+  dropped?: number;
+}
+
+// Serializable histogram state, used to merge histograms across runners
+export interface HistogramSnapshot {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  zeroCount: number;
+  buckets: Record<string, number>;
+}
+
+// Relative accuracy of the recorded values (1%)
+const RELATIVE_ACCURACY = 0.01;
+const GAMMA = (1 + RELATIVE_ACCURACY) / (1 - RELATIVE_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+
+// Values below this are counted in the zero bucket
+const MIN_TRACKABLE_VALUE = 0.001;
+
+// Streaming histogram with logarithmic buckets and bounded relative error.
+// Memory only grows with the dynamic range of the values, not with their number,
+// and two histograms can be merged by adding their bucket counts.
+export class Histogram {
+  private buckets: Map<number, number> = new Map();
+  private sortedIndexes: number[] | null = null;
+  private zeroCount: number = 0;
+  private count: number = 0;
+  private sum: number = 0;
+  private min: number = Infinity;
+  private max: number = 0;
+
+  // Record a single value
+  public record(value: number): void {
+    if (!isFinite(value) || value < 0) return;
+
+    if (value < MIN_TRACKABLE_VALUE) {
+      this.zeroCount++;
+    } else {
+      this.addToBucket(Math.ceil(Math.log(value) / LOG_GAMMA), 1);
+    }
+
+    this.count++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  // Number of recorded values
+  public getCount(): number {
+    return this.count;
+  }
+
+  // Mean of the recorded values
+  public getMean(): number {
+    return this.count === 0 ? 0 : this.sum / this.count;
+  }
+
+  // Largest recorded value
+  public getMax(): number {
+    return this.max;
+  }
+
+  // Value at the given percentile (0-100)
+  public percentile(percentile: number): number {
+    if (this.count === 0) return 0;
+    if (percentile >= 100) return this.max;
+
+    const rank = Math.max(1, Math.ceil((percentile / 100) * this.count));
+    if (rank <= this.zeroCount) return 0;
+
+    let seen = this.zeroCount;
+    for (const index of this.getSortedIndexes()) {
+      seen += this.buckets.get(index) as number;
+      if (seen >= rank) {
+        // Representative value of the bucket, clamped to the observed range
+        const value = (2 * Math.pow(GAMMA, index)) / (GAMMA + 1);
+        return Math.min(Math.max(value, this.min), this.max);
+      }
+    }
+
+    return this.max;
+  }
+
+  // Standard set of published percentiles
+  public getPercentiles(): LatencyPercentiles {
+    return {
+      p50: this.percentile(50),
+      p90: this.percentile(90),
+      p95: this.percentile(95),
+      p99: this.percentile(99),
+      max: this.max
+    };
+  }
+
+  // Add the values of another histogram to this one
+  public merge(other: Histogram | HistogramSnapshot): void {
+    const snapshot = other instanceof Histogram ? other.snapshot() : other;
+    if (snapshot.count === 0) return;
+
+    for (const [index, bucketCount] of Object.entries(snapshot.buckets)) {
+      this.addToBucket(parseInt(index, 10), bucketCount);
+    }
+
+    this.zeroCount += snapshot.zeroCount;
+    this.count += snapshot.count;
+    this.sum += snapshot.sum;
+    this.min = Math.min(this.min, snapshot.min);
+    this.max = Math.max(this.max, snapshot.max);
+  }
+
+  // Increment a bucket, invalidating the sorted index cache when a bucket is created
+  private addToBucket(index: number, bucketCount: number): void {
+    const current = this.buckets.get(index);
+    if (current === undefined) {
+      this.sortedIndexes = null;
+    }
+    this.buckets.set(index, (current || 0) + bucketCount);
+  }
+
+  // Bucket indexes in ascending order
+  private getSortedIndexes(): number[] {
+    if (!this.sortedIndexes) {
+      this.sortedIndexes = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+    }
+    return this.sortedIndexes;
+  }
+
+  // Export the histogram state
+  public snapshot(): HistogramSnapshot {
+    const buckets: Record<string, number> = {};
+    for (const [index, bucketCount] of this.buckets) {
+      buckets[index] = bucketCount;
+    }
+
+    return {
+      count: this.count,
+      sum: this.sum,
+      min: this.count === 0 ? 0 : this.min,
+      max: this.max,
+      zeroCount: this.zeroCount,
+      buckets
+    };
+  }
+
+  // Rebuild a histogram from a snapshot
+  public static fromSnapshot(snapshot: HistogramSnapshot): Histogram {
+    const histogram = new Histogram();
+    histogram.merge(snapshot);
+    return histogram;
+  }
+}
+
+// Percentiles of an empty histogram
+export function emptyPercentiles(): LatencyPercentiles {
+  return { p50: 0, p90: 0, p95: 0, p99: 0, max: 0 };
+}
+
+// Format percentiles for log output
+export function formatPercentiles(percentiles: LatencyPercentiles): string {
+  return `p50=${percentiles.p50.toFixed(2)}ms p90=${percentiles.p90.toFixed(2)}ms ` +
+    `p95=${percentiles.p95.toFixed(2)}ms p99=${percentiles.p99.toFixed(2)}ms max=${percentiles.max.toFixed(2)}ms`;
+}
+
+// Summarize every histogram snapshot that recorded at least one value or has dropped values
+export function summarizeLatencies(snapshots: Record<string, HistogramSnapshot>, dropped: Record<string, number> = {}): Record<string, LatencySummary> {
+  const latency: Record<string, LatencySummary> = {};
+  for (const [name, snapshot] of Object.entries(snapshots)) {
+    const histogram = Histogram.fromSnapshot(snapshot);
+    if (histogram.getCount() === 0 && !dropped[name]) continue;
+
+    latency[name] = {
+      count: histogram.getCount(),
+      mean: histogram.getMean(),
+      ...histogram.getPercentiles()
+    };
+    if (dropped[name] !== undefined) {
+      latency[name].dropped = dropped[name];
+    }
+  }
+  return latency;
+}
+
+// Describe a latency summary for the end-of-test report
+export function formatLatencySummary(name: string, stats: LatencySummary): string {
+  const dropped = stats.dropped ? `, ${stats.dropped} dropped and not included` : '';
+  return `Latency ${name} (${stats.count} samples${dropped}): mean=${stats.mean.toFixed(2)}ms p50=${stats.p50.toFixed(2)}ms ` +
+    `p90=${stats.p90.toFixed(2)}ms p95=${stats.p95.toFixed(2)}ms p99=${stats.p99.toFixed(2)}ms max=${stats.max.toFixed(2)}ms`;
+}
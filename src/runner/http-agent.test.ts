@@ -0,0 +1,162 @@
+import http from 'http';
+import net from 'net';
+
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.TEST_MODE = 'http';
+process.env.HTTP_URL = 'http://127.0.0.1:1';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+
+import type { HttpAgentPool } from './http-agent';
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => response.end('ok'));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  const { statsManager } = await import('./stats');
+  await statsManager.close();
+});
+
+// Send a GET request through the pool and resolve once its response has been read
+function get(pool: HttpAgentPool, path: string): Promise<http.ClientRequest> {
+  const url = `${baseUrl}${path}`;
+  return new Promise((resolve, reject) => {
+    const request = http.get(url, { agent: pool.agentsFor(url).httpAgent }, response => {
+      response.resume();
+      // The pool records the timings once the response has ended
+      response.once('end', () => setImmediate(() => resolve(request)));
+    });
+    request.once('error', reject);
+  });
+}
+
+// Pool with keep-alive on or off, and the number of sockets opened before it sends anything
+async function createPool(keepAlive: boolean): Promise<{ pool: HttpAgentPool, socketsOpenedBefore: number }> {
+  const { config } = await import('./config');
+  const { HttpAgentPool } = await import('./http-agent');
+  const { statsManager } = await import('./stats');
+  config.httpKeepAlive = keepAlive;
+  return { pool: new HttpAgentPool(), socketsOpenedBefore: statsManager.getHttpStats().socketsOpened };
+}
+
+describe('HttpAgentPool', () => {
+  it('opens one socket and reuses it for sequential requests with keep-alive', async () => {
+    const { statsManager } = await import('./stats');
+    const { pool, socketsOpenedBefore } = await createPool(true);
+
+    const requests: http.ClientRequest[] = [];
+    for (let index = 0; index < 3; index++) {
+      requests.push(await get(pool, `/item/${index}`));
+    }
+
+    expect(statsManager.getHttpStats().socketsOpened - socketsOpenedBefore).toBe(1);
+    expect(requests.map(request => request.reusedSocket)).toEqual([false, true, true]);
+    pool.destroy();
+  });
+
+  it('opens a socket for every request without keep-alive', async () => {
+    const { statsManager } = await import('./stats');
+    const { pool, socketsOpenedBefore } = await createPool(false);
+
+    const requests: http.ClientRequest[] = [];
+    for (let index = 0; index < 3; index++) {
+      requests.push(await get(pool, `/item/${index}`));
+    }
+
+    expect(statsManager.getHttpStats().socketsOpened - socketsOpenedBefore).toBe(3);
+    expect(requests.map(request => request.reusedSocket)).toEqual([false, false, false]);
+    pool.destroy();
+  });
+
+  it('gives hosts with a socket limit of their own separate agents', async () => {
+    const { config } = await import('./config');
+    const { pool } = await createPool(true);
+    config.httpHostMaxSockets = { 'limited.example.com': 2 };
+
+    try {
+      const limited = pool.agentsFor('http://limited.example.com/a');
+      expect(limited.httpAgent.maxSockets).toBe(2);
+      expect(pool.agentsFor('https://LIMITED.example.com/b')).toBe(limited);
+      expect(pool.agentsFor('http://other.example.com/')).not.toBe(limited);
+    } finally {
+      config.httpHostMaxSockets = {};
+      pool.destroy();
+    }
+  });
+});
+
+describe('timingsOf', () => {
+  it('times the connection phases of requests on new sockets', async () => {
+    const { timingsOf } = await import('./http-agent');
+    const { pool } = await createPool(false);
+
+    const timings = timingsOf(await get(pool, '/new'));
+
+    expect(timings).not.toBeNull();
+    // An IP address needs no lookup, and plain HTTP no TLS handshake
+    expect(timings!.dns).toBeNull();
+    expect(timings!.tls).toBeNull();
+    expect(timings!.tcp).toBeGreaterThanOrEqual(0);
+    expect(timings!.ttfb).toBeGreaterThanOrEqual(0);
+    expect(timings!.download).toBeGreaterThanOrEqual(0);
+    pool.destroy();
+  });
+
+  it('leaves out the connection phases of requests on reused sockets', async () => {
+    const { timingsOf } = await import('./http-agent');
+    const { pool } = await createPool(true);
+
+    await get(pool, '/first');
+    const request = await get(pool, '/second');
+    const timings = timingsOf(request);
+
+    expect(request.reusedSocket).toBe(true);
+    expect(timings).toEqual({ dns: null, tcp: null, tls: null, ttfb: expect.any(Number), download: expect.any(Number) });
+    expect(timings!.ttfb).toBeGreaterThanOrEqual(0);
+    expect(timings!.download).toBeGreaterThanOrEqual(0);
+    pool.destroy();
+  });
+
+  it('records only the phases that happened in the phase histograms', async () => {
+    const { timingsOf } = await import('./http-agent');
+    const { statsManager } = await import('./stats');
+    const { pool } = await createPool(true);
+    const counts = () => {
+      const snapshots = statsManager.getHistogramSnapshots();
+      return { dns: snapshots.dns_time.count, tcp: snapshots.tcp_time.count, ttfb: snapshots.ttfb.count };
+    };
+    const before = counts();
+
+    statsManager.httpTimings(timingsOf(await get(pool, '/first'))!);
+    statsManager.httpTimings(timingsOf(await get(pool, '/second'))!);
+
+    const after = counts();
+    expect(after.dns - before.dns).toBe(0);
+    expect(after.tcp - before.tcp).toBe(1);
+    expect(after.ttfb - before.ttfb).toBe(2);
+    pool.destroy();
+  });
+
+  it('has no timings for requests sent without the pool', async () => {
+    const { timingsOf } = await import('./http-agent');
+    const request = await new Promise<http.ClientRequest>((resolve, reject) => {
+      const sent = http.get(`${baseUrl}/direct`, { agent: false }, response => {
+        response.resume();
+        response.once('end', () => resolve(sent));
+      });
+      sent.once('error', reject);
+    });
+
+    expect(timingsOf(request)).toBeNull();
+    expect(timingsOf(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { performance } from 'perf_hooks';
+import { config, HttpAgentScope } from './config';
+import logger from './logger';
+import { HttpTimings, statsManager } from './stats';
+
+type Agent = http.Agent | https.Agent;
+
+// Agent method handing a socket to a request, missing from the Node.js typings
+type AddRequest = (request: http.ClientRequest, options: unknown) => void;
+
+// Phase timings of the requests whose response has been fully received
+const requestTimings = new WeakMap<http.ClientRequest, HttpTimings>();
+
+// Agents for both protocols, as redirects may switch from one to the other
+export interface RequestAgents {
+  httpAgent: http.Agent;
+  httpsAgent: https.Agent;
+}
+
+// Time the phases of a request from the events of its socket, starting when the request gets a socket
+function timeRequest(request: http.ClientRequest): void {
+  const timings: HttpTimings = { dns: null, tcp: null, tls: null, ttfb: 0, download: 0 };
+  let socketReady = 0;
+
+  request.once('socket', (socket: net.Socket) => {
+    let phaseStart = performance.now();
+    socketReady = phaseStart;
+    // A kept-alive socket is ready at once
+    if (!socket.connecting) return;
+
+    socket.once('lookup', () => {
+      const now = performance.now();
+      timings.dns = now - phaseStart;
+      phaseStart = now;
+    });
+    socket.once('connect', () => {
+      const now = performance.now();
+      timings.tcp = now - phaseStart;
+      phaseStart = now;
+      socketReady = now;
+    });
+    socket.once('secureConnect', () => {
+      const now = performance.now();
+      timings.tls = now - phaseStart;
+      socketReady = now;
+    });
+  });
+
+  request.once('response', (response: http.IncomingMessage) => {
+    const firstByte = performance.now();
+    timings.ttfb = firstByte - socketReady;
+    response.once('end', () => {
+      timings.download = performance.now() - firstByte;
+      requestTimings.set(request, timings);
+    });
+  });
+}
+
+// Count the sockets an agent opens and time its requests; reused sockets are counted per response
+function instrumentAgent<T extends Agent>(agent: T): T {
+  const createConnection = agent.createConnection.bind(agent);
+  agent.createConnection = (options, callback) => {
+    statsManager.socketOpened();
+    return createConnection(options, callback);
+  };
+
+  const instrumented = agent as T & { addRequest: AddRequest };
+  const addRequest = instrumented.addRequest.bind(agent);
+  instrumented.addRequest = (request, options) => {
+    timeRequest(request);
+    addRequest(request, options);
+  };
+  return agent;
+}
+
+// Phase timings of the request of a response, or null if it was not sent through a pool or is still being received.
+// After redirects, the timings are those of the last request.
+export function timingsOf(request: unknown): HttpTimings | null {
+  return request instanceof http.ClientRequest ? requestTimings.get(request) || null : null;
+}
+
+// Agent options from the configuration, with a socket limit of its own for hosts that have one
+function agentOptions(maxSockets: number): https.AgentOptions {
+  return {
+    keepAlive: config.httpKeepAlive,
+    maxSockets: maxSockets > 0 ? maxSockets : Infinity,
+    maxTotalSockets: config.httpMaxTotalSockets > 0 ? config.httpMaxTotalSockets : Infinity,
+    maxFreeSockets: config.httpMaxFreeSockets,
+    rejectUnauthorized: config.rejectUnauthorized // Use configuration value for certificate validation
+  };
+}
+
+// HTTP and HTTPS agents handing out the sockets of a set of connections
+export class HttpAgentPool {
+  // Agents by host, an empty host for the agents of hosts without a limit of their own
+  private agents: Map<string, RequestAgents> = new Map();
+
+  // Agents for a request to the given URL
+  public agentsFor(url: string): RequestAgents {
+    const requestUrl = new URL(url);
+
+    // Hosts with a limit of their own, given with or without the port, get separate agents
+    const hostLimit = config.httpHostMaxSockets[requestUrl.host.toLowerCase()] || config.httpHostMaxSockets[requestUrl.hostname.toLowerCase()];
+    const key = hostLimit ? requestUrl.host.toLowerCase() : '';
+
+    let agents = this.agents.get(key);
+    if (!agents) {
+      const options = agentOptions(hostLimit || config.httpMaxSockets);
+      agents = {
+        httpAgent: instrumentAgent(new http.Agent(options)),
+        httpsAgent: instrumentAgent(new https.Agent(options))
+      };
+      this.agents.set(key, agents);
+    }
+    return agents;
+  }
+
+  // Close the sockets of every agent
+  public destroy(): void {
+    for (const agents of this.agents.values()) {
+      agents.httpAgent.destroy();
+      agents.httpsAgent.destroy();
+    }
+    this.agents.clear();
+  }
+}
+
+// Pool shared by all connections of the runner
+export const sharedAgentPool = new HttpAgentPool();
+
+// Agent pool of a new connection: the shared one, or its own when each connection acts as a separate client
+export function createAgentPool(): HttpAgentPool {
+  return config.httpAgentScope === HttpAgentScope.SHARED ? sharedAgentPool : new HttpAgentPool();
+}
+
+// Describe the agent configuration for the startup log
+export function logAgentConfiguration(): void {
+  const limits = [
+    `max sockets per host: ${config.httpMaxSockets > 0 ? config.httpMaxSockets : 'unlimited'}`,
+    `max total sockets: ${config.httpMaxTotalSockets > 0 ? config.httpMaxTotalSockets : 'unlimited'}`,
+    `max free sockets: ${config.httpMaxFreeSockets}`
+  ];
+  for (const [host, maxSockets] of Object.entries(config.httpHostMaxSockets)) {
+    limits.push(`max sockets for ${host}: ${maxSockets}`);
+  }
+  logger.info(`HTTP agents: ${config.httpAgentScope} scope, keep-alive ${config.httpKeepAlive ? 'on' : 'off'}, ${limits.join(', ')}`);
+}
@@ -0,0 +1,54 @@
+import http from 'http';
+import net from 'net';
+
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.TEST_MODE = 'http';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.CONNECTION_MODE = 'staged';
+process.env.LOAD_STAGES = 'hold:1m:1';
+
+let server: http.Server;
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => response.end('ok'));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.HTTP_URL = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}/`;
+});
+
+afterAll(async () => {
+  const { httpManager } = await import('./http-manager');
+  await httpManager.shutdown();
+  await new Promise(resolve => server.close(resolve));
+});
+
+// Fail instead of hanging when a promise does not settle in time
+function within<T>(promise: Promise<T>, timeoutMs: number, description: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`${description} did not finish within ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+describe('HttpManager.scaleTo', () => {
+  it('stops virtual users while the test is paused', async () => {
+    const { httpManager } = await import('./http-manager');
+
+    await httpManager.scaleTo(3);
+    expect(httpManager.getConnectionStats().total).toBe(3);
+
+    // Let the virtual users reach the pause gate
+    httpManager.pause();
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    await within(httpManager.scaleTo(1), 2000, 'Scaling down while paused');
+    expect(httpManager.getConnectionStats().total).toBe(1);
+
+    await within(httpManager.setTarget(0), 2000, 'set_target while paused');
+    expect(httpManager.getConnectionStats().total).toBe(0);
+
+    httpManager.resume();
+  });
+});
@@ -1,8 +1,24 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { config, ConnectionMode } from './config';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { config, ConnectionMode, DataDistribution, HttpLoadModel, TestMode } from './config';
 import logger from './logger';
 import { statsManager } from './stats';
-import { redisClient, TestDataRow } from './redis-client';
+import { rotateTestData, testDataSource, TestDataRow } from './data-source';
+import { checkTemplates } from './template';
+import { HttpRequestDefinition, httpRequestFromConfig, httpRequestTemplates, loadHttpRequest, renderHttpRequest } from './http-request';
+import { acceptedStatuses, loadChecks, runChecks } from './checks';
+import { CookieJar, createCookieJar } from './cookie-jar';
+import { createAgentPool, HttpAgentPool, logAgentConfiguration, sharedAgentPool, timingsOf } from './http-agent';
+import { extractValue, HttpScenario, httpScenarioTemplates, httpScenarioVariables, HttpStep, loadHttpScenario } from './http-scenario';
+import { ArrivalRateScheduler } from './arrival-rate';
+import { LoadProfileRunner } from './load-profile';
+import { classifyError } from './error-classifier';
+import { PauseGate } from './pause-gate';
+import { LoadController } from './command-channel';
+
+// Whether a response status counts as an answer rather than an error
+function isAcceptedStatus(status: number, accepted: number[]): boolean {
+  return (status >= 200 && status < 300) || accepted.includes(status);
+}
 
 // HTTP connection class to handle individual HTTP requests
 class HttpConnection {
@@ -13,74 +29,149 @@ class HttpConnection {
   private reconnectTimer: NodeJS.Timeout | null = null;
   private isClosing: boolean = false;
   private testData: TestDataRow | null = null;
-  private urlTemplate: string;
+  private request: HttpRequestDefinition;
+  private scenario: HttpScenario | null;
+  private acceptedStatuses: number[];
+  private cookieJar: CookieJar | null;
+  private agentPool: HttpAgentPool = createAgentPool();
   private axiosInstance: AxiosInstance;
   private lastResponseStatus: number | null = null;
   private connectionClosedCalled: boolean = false;
-
-  constructor(urlTemplate: string, method: string, id: number, testData: TestDataRow | null = null) {
-    this.urlTemplate = urlTemplate;
-    this.method = method.toUpperCase();
+  // Open-model iterations running on this connection
+  private activeIterations: number = 0;
+
+  // The connections sending the sequential requests of a data row share its cookie jar
+  constructor(request: HttpRequestDefinition, id: number, testData: TestDataRow | null = null, scenario: HttpScenario | null = null,
+    cookieJar: CookieJar | null = createCookieJar(testData)) {
+    this.request = request;
+    this.scenario = scenario;
+    this.cookieJar = cookieJar;
+    this.acceptedStatuses = acceptedStatuses(scenario ? scenario.steps.flatMap(step => step.request.checks) : request.checks);
+    this.method = request.method;
     this.testData = testData;
-    this.url = this.replaceUrlVariables(urlTemplate, testData);
     this.id = id;
-    this.axiosInstance = axios.create({
-      httpsAgent: new (require('https').Agent)({
-        rejectUnauthorized: config.rejectUnauthorized // Use configuration value for certificate validation
-      })
-    });
+    // Rendered before each connection attempt
+    this.url = request.url;
+    this.axiosInstance = axios.create();
+    this.recordSocketMetrics();
+
+    if (config.httpCookieJar) {
+      this.useCookieJar();
+    }
 
     if (!config.rejectUnauthorized) {
       logger.warn(`Connection ${this.id}: Certificate validation is disabled. This is insecure and should only be used in testing environments.`);
     }
   }
 
-  // Replace variables in URL with test data values
-  private replaceUrlVariables(urlTemplate: string, testData: TestDataRow | null): string {
-    if (!testData) {
-      logger.debug(`Connection ${this.id}: No test data available, using raw URL`);
-      return urlTemplate;
-    }
+  // Record the phase timings of every response and count those received on a socket kept alive from an earlier request
+  private recordSocketMetrics(): void {
+    const recordResponse = (response: AxiosResponse) => {
+      if (response.request && response.request.reusedSocket) {
+        statsManager.socketReused();
+      }
+      const timings = timingsOf(response.request);
+      if (timings) {
+        statsManager.httpTimings(timings);
+      }
+    };
+    this.axiosInstance.interceptors.response.use(
+      (response) => {
+        recordResponse(response);
+        return response;
+      },
+      (error) => {
+        if (error.response) {
+          recordResponse(error.response);
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
 
-    let url = urlTemplate;
+  // Send the cookies of the jar with every request, redirects included, and store the cookies of every response
+  private useCookieJar(): void {
+    this.axiosInstance.interceptors.request.use((requestConfig: InternalAxiosRequestConfig) => {
+      const cookieJar = this.cookieJar;
+      if (!cookieJar || !requestConfig.url) return requestConfig;
+
+      // Cookies from the jar are added to a Cookie header set by the configuration
+      const cookies = cookieJar.cookieHeader(requestConfig.url);
+      const configured = requestConfig.headers.get('Cookie');
+      if (cookies) {
+        requestConfig.headers.set('Cookie', configured ? `${configured}; ${cookies}` : cookies);
+      }
 
-    // Replace ${variable} with corresponding value from test data
-    const variableRegex = /@{([^}]+)}/g;
-    let match;
+      let currentUrl = requestConfig.url;
+      requestConfig.beforeRedirect = (options: Record<string, unknown>, responseDetails: { headers: Record<string, unknown> }) => {
+        cookieJar.store(responseDetails.headers['set-cookie'] as string[] | undefined, currentUrl);
+        currentUrl = String(options.href);
 
-    while ((match = variableRegex.exec(urlTemplate)) !== null) {
-      const variableName = match[1];
-      if (testData[variableName]) {
-        url = url.replace(`@{${variableName}}`, testData[variableName]);
-        logger.debug(`Connection ${this.id}: Replaced @{${variableName}} with ${testData[variableName]}`);
-      } else {
-        logger.warn(`Connection ${this.id}: Variable @{${variableName}} not found in test data`);
-      }
-    }
+        const headers = options.headers as Record<string, string>;
+        for (const name of Object.keys(headers)) {
+          if (name.toLowerCase() === 'cookie') {
+            delete headers[name];
+          }
+        }
+        const redirectCookies = cookieJar.cookieHeader(currentUrl);
+        if (redirectCookies) {
+          headers.Cookie = redirectCookies;
+        }
+      };
+      return requestConfig;
+    });
 
-    return url;
+    const storeCookies = (response: AxiosResponse) => {
+      // After redirects, the cookies were set by the last URL
+      const url = (response.request && response.request.res && response.request.res.responseUrl) || response.config.url;
+      if (this.cookieJar && url) {
+        this.cookieJar.store(response.headers['set-cookie'], url);
+      }
+    };
+    this.axiosInstance.interceptors.response.use(
+      (response) => {
+        storeCookies(response);
+        return response;
+      },
+      (error) => {
+        if (error.response) {
+          storeCookies(error.response);
+        }
+        return Promise.reject(error);
+      }
+    );
   }
 
   // Send HTTP request
   public connect(onComplete?: () => void): void {
     this.isClosing = false;
     this.connectionClosedCalled = false;
+
+    // Run the scenario's steps instead, retrying the whole scenario after a failure
+    const scenario = this.scenario;
+    if (scenario) {
+      this.runScenario(scenario).then((succeeded) => {
+        if (this.isClosing) return;
+
+        if (succeeded) {
+          logger.info(`Connection ${this.id}: Scenario '${scenario.name}' completed`);
+          if (onComplete) {
+            onComplete();
+          }
+        } else {
+          logger.info(`Connection ${this.id}: Scenario '${scenario.name}' failed, scheduling reconnect`);
+          this.scheduleReconnect(onComplete);
+        }
+      });
+      return;
+    }
+
     this.connectStartTime = Date.now();
     statsManager.connectionAttempted();
 
-    logger.debug(`Connection ${this.id}: Attempting to send ${this.method} request to ${this.url}`);
-
     try {
-      const requestConfig: AxiosRequestConfig = {
-        method: this.method,
-        url: this.url,
-        timeout: 30000, // 30 seconds timeout
-      };
-
-      // Add request body for POST, PUT, PATCH methods
-      if (['POST', 'PUT', 'PATCH'].includes(this.method) && this.testData) {
-        requestConfig.data = this.testData;
-      }
+      const requestConfig = this.buildRequestConfig();
+      logger.debug(`Connection ${this.id}: Attempting to send ${this.method} request to ${this.url}`);
 
       this.axiosInstance.request(requestConfig)
         .then(this.handleSuccess.bind(this))
@@ -93,17 +184,150 @@ class HttpConnection {
         });
     } catch (error) {
       logger.error(`Connection ${this.id}: Failed to create HTTP request: ${(error as Error).message}`);
-      statsManager.connectionError();
+      statsManager.connectionError(classifyError(error));
       this.scheduleReconnect(onComplete);
     }
   }
 
+  // Send a single request without retrying; resolves to whether it succeeded.
+  // When an intended start time is given, the corrected response time is recorded as well.
+  public async sendOnce(intendedStartTime?: number): Promise<boolean> {
+    if (this.scenario) {
+      return this.runScenario(this.scenario, intendedStartTime);
+    }
+
+    const startTime = Date.now();
+    statsManager.connectionAttempted();
+
+    try {
+      const requestConfig = this.buildRequestConfig();
+      logger.debug(`Connection ${this.id}: Sending ${this.method} request to ${this.url}`);
+      const response = await this.axiosInstance.request(requestConfig);
+      const endTime = Date.now();
+      this.lastResponseStatus = response.status;
+      statsManager.httpStatus(response.status);
+      logger.debug(`Connection ${this.id}: ${this.method} request completed with status ${response.status} in ${endTime - startTime}ms`);
+      statsManager.connectionOpened(endTime - startTime);
+      if (intendedStartTime !== undefined) {
+        statsManager.correctedResponseTime(endTime - intendedStartTime);
+      }
+      // Failed checks are counted apart and do not make the request fail
+      this.checkResponse(this.request, response);
+      return this.isConnected();
+    } catch (error) {
+      this.handleError(error);
+      return false;
+    } finally {
+      statsManager.connectionClosed();
+    }
+  }
+
+  // Run one open-model iteration. With rotate, the connection first takes a fresh data row, unless an earlier
+  // iteration is still in flight: it keeps the row then, so that iteration finishes with its own data and cookies.
+  public async runIteration(intendedStartTime: number, rotate: boolean): Promise<boolean> {
+    const isIdle = this.activeIterations === 0;
+    this.activeIterations++;
+
+    try {
+      if (rotate && isIdle) {
+        this.setTestData(await rotateTestData(this.testData));
+      }
+      return await this.sendOnce(intendedStartTime);
+    } finally {
+      this.activeIterations--;
+    }
+  }
+
+  // Run the scenario's steps in order, passing the values extracted from each response on to the
+  // following steps; resolves to whether every step succeeded
+  private async runScenario(scenario: HttpScenario, intendedStartTime?: number): Promise<boolean> {
+    const variables: Record<string, string> = {};
+
+    for (const step of scenario.steps) {
+      if (this.isClosing) return false;
+
+      const startTime = Date.now();
+      let responseTime = 0;
+      let succeeded = false;
+      statsManager.connectionAttempted();
+
+      try {
+        const requestConfig = this.buildRequestConfig(step.request, variables);
+        logger.debug(`Connection ${this.id}: Step ${step.name}: sending ${step.request.method} request to ${this.url}`);
+        const response = await this.axiosInstance.request(requestConfig);
+        responseTime = Date.now() - startTime;
+        this.lastResponseStatus = response.status;
+        statsManager.httpStatus(response.status);
+        logger.debug(`Connection ${this.id}: Step ${step.name}: completed with status ${response.status} in ${responseTime}ms`);
+        statsManager.connectionOpened(responseTime);
+        // Every check is run and counted even when an earlier one fails
+        const checksPassed = this.checkResponse(step.request, response);
+        succeeded = checksPassed && this.extractVariables(step, response, variables);
+      } catch (error) {
+        responseTime = Date.now() - startTime;
+        this.handleError(error);
+      } finally {
+        statsManager.connectionClosed();
+      }
+
+      statsManager.stepCompleted(step.name, responseTime, succeeded);
+      if (!succeeded) return false;
+    }
+
+    if (intendedStartTime !== undefined) {
+      statsManager.correctedResponseTime(Date.now() - intendedStartTime);
+    }
+    return true;
+  }
+
+  // Store the values extracted from a step's response; returns false if one of them is missing
+  private extractVariables(step: HttpStep, response: AxiosResponse, variables: Record<string, string>): boolean {
+    for (const extraction of step.extract) {
+      const value = extractValue(extraction, response);
+      if (value === null) {
+        logger.warn(`Connection ${this.id}: Step ${step.name}: could not extract ${extraction.variable} from the response ${extraction.from} (${extraction.expression})`);
+        return false;
+      }
+      variables[extraction.variable] = value;
+    }
+    return true;
+  }
+
+  // Build the axios request configuration, rendering the templates so that generators produce fresh values
+  private buildRequestConfig(request: HttpRequestDefinition = this.request, variables?: Record<string, string>): AxiosRequestConfig {
+    const rendered = renderHttpRequest(request, { testData: this.testData, connectionId: this.id, variables });
+    this.url = rendered.url;
+    const { httpAgent, httpsAgent } = this.agentPool.agentsFor(rendered.url);
+    return {
+      method: rendered.method,
+      url: rendered.url,
+      headers: rendered.headers,
+      data: rendered.data,
+      timeout: request.timeoutMs,
+      // Sockets come from the shared or per-connection agents
+      httpAgent,
+      httpsAgent,
+      // Keep the body as received, for checks and extraction
+      responseType: 'text',
+      // Statuses expected by a status check of this request are answers to check, not errors
+      validateStatus: status => isAcceptedStatus(status, acceptedStatuses(request.checks))
+    };
+  }
+
   // Handle successful response
   private handleSuccess(response: AxiosResponse): void {
     const connectTime = Date.now() - this.connectStartTime;
     this.lastResponseStatus = response.status;
+    statsManager.httpStatus(response.status);
     logger.info(`Connection ${this.id}: ${this.method} request completed with status ${response.status} in ${connectTime}ms`);
     statsManager.connectionOpened(connectTime);
+    this.checkResponse(this.request, response);
+  }
+
+  // Run the request's checks against its response; returns whether all of them passed
+  private checkResponse(request: HttpRequestDefinition, response: AxiosResponse): boolean {
+    const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+    return runChecks(request.checks, { status: response.status, headers: response.headers, body }, this.id);
   }
 
   // Handle connection close (after request completes)
@@ -137,13 +361,15 @@ class HttpConnection {
       ? `Status: ${error.response.status}, ${error.response.statusText}`
       : error.message;
 
-    logger.error(`Connection ${this.id}: Error: ${errorMessage}`);
+    const classification = classifyError(error);
+    logger.error(`Connection ${this.id}: Error (${classification.category}/${classification.code}): ${errorMessage}`);
 
     if (error.response) {
       this.lastResponseStatus = error.response.status;
+      statsManager.httpStatus(error.response.status);
     }
 
-    statsManager.connectionError();
+    statsManager.connectionError(classification);
   }
 
   // Schedule reconnection attempt
@@ -154,7 +380,15 @@ class HttpConnection {
 
     logger.debug(`Connection ${this.id}: Scheduling reconnect in ${config.retryDelayMs}ms`);
 
-    this.reconnectTimer = setTimeout(() => {
+    this.reconnectTimer = setTimeout(async () => {
+      // Retry as a different user when data rotation is enabled; the current row is kept if rotating fails
+      try {
+        this.setTestData(await rotateTestData(this.testData));
+      } catch (error) {
+        logger.error(`Connection ${this.id}: Failed to rotate test data, keeping the current row: ${(error as Error).message}`);
+      }
+      if (this.isClosing) return;
+
       logger.info(`Connection ${this.id}: Attempting to reconnect`);
       this.connect(onComplete);
     }, config.retryDelayMs);
@@ -171,88 +405,339 @@ class HttpConnection {
 
     // For HTTP, we can't cancel in-flight requests with axios
     // But we can mark it as closing to prevent reconnects
+    if (this.agentPool !== sharedAgentPool) {
+      this.agentPool.destroy();
+    }
     logger.debug(`Connection ${this.id}: Marked as closing`);
   }
 
-  // Check if connection is active (for HTTP, we consider it connected if last status was 2xx)
+  // Check if connection is active (for HTTP, we consider it connected if last status was 2xx or accepted by a check)
   public isConnected(): boolean {
-    return this.lastResponseStatus !== null && this.lastResponseStatus >= 200 && this.lastResponseStatus < 300;
+    return this.lastResponseStatus !== null && isAcceptedStatus(this.lastResponseStatus, this.acceptedStatuses);
+  }
+
+  // Get the test data row bound to this connection
+  public getTestData(): TestDataRow | null {
+    return this.testData;
+  }
+
+  // Bind another test data row, used from the next request on; a new user starts with its own cookies
+  public setTestData(testData: TestDataRow | null): void {
+    if (testData !== this.testData && this.cookieJar) {
+      this.cookieJar = createCookieJar(testData);
+    }
+    this.testData = testData;
+  }
+}
+
+// Virtual user repeatedly running a data row's sequential requests until stopped
+class HttpVirtualUser {
+  private connection: HttpConnection;
+  private pauseGate: PauseGate;
+  private running: boolean = false;
+  private loopPromise: Promise<void> | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private wakeUp: (() => void) | null = null;
+  // Resolved by stop(), so that a loop held by a paused test can end
+  private stopped: Promise<void>;
+  private signalStopped: () => void = () => {};
+
+  constructor(connection: HttpConnection, pauseGate: PauseGate) {
+    this.connection = connection;
+    this.pauseGate = pauseGate;
+    this.stopped = new Promise(resolve => this.signalStopped = resolve);
+  }
+
+  // Start the request loop in the background
+  public start(): void {
+    this.running = true;
+    this.loopPromise = this.loop();
+  }
+
+  // Stop after the request in flight completes
+  public async stop(): Promise<void> {
+    this.running = false;
+    this.signalStopped();
+    this.connection.close();
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.wakeUp) {
+      this.wakeUp();
+      this.wakeUp = null;
+    }
+
+    if (this.loopPromise) {
+      await this.loopPromise;
+    }
+  }
+
+  // Get the underlying connection
+  public getConnection(): HttpConnection {
+    return this.connection;
+  }
+
+  // Run the sequence of requests for the data row over and over
+  private async loop(): Promise<void> {
+    let isFirstIteration = true;
+
+    while (this.running) {
+      // Every iteration after the first one runs as a different user when data rotation is enabled
+      if (!isFirstIteration) {
+        this.connection.setTestData(await rotateTestData(this.connection.getTestData()));
+      }
+      isFirstIteration = false;
+
+      for (let i = 0; i < config.httpRequestsPerData && this.running; i++) {
+        await Promise.race([this.pauseGate.wait(), this.stopped]);
+        if (!this.running) break;
+
+        const succeeded = await this.connection.sendOnce();
+
+        // Back off after a failure, as a failed connection would before reconnecting
+        if (!succeeded && this.running) {
+          await new Promise<void>(resolve => {
+            this.wakeUp = resolve;
+            this.retryTimer = setTimeout(resolve, config.retryDelayMs);
+          });
+          this.wakeUp = null;
+          this.retryTimer = null;
+        }
+      }
+    }
   }
 }
 
 // HTTP manager to handle multiple connections
-class HttpManager {
+class HttpManager implements LoadController {
   private connections: HttpConnection[] = [];
   private progressiveConnectionTimer: NodeJS.Timeout | null = null;
+  private isReadingProgressiveRow: boolean = false;
+  private progressiveDataRows: number = 0;
+  private progressiveConnectionId: number = 1;
+  private onProgressiveFinished: (() => void) | null = null;
+  private connectionRate: number = config.connectionRate;
+  private pauseGate: PauseGate = new PauseGate();
+  private arrivalRateScheduler: ArrivalRateScheduler | null = null;
+  private onScheduleComplete: (() => void) | null = null;
+  private loadProfileRunner: LoadProfileRunner | null = null;
+  private virtualUsers: HttpVirtualUser[] = [];
+  private releasedTestData: TestDataRow[] = [];
+  private nextConnectionId: number = 1;
+  private testDataExhausted: boolean = false;
   private isShuttingDown: boolean = false;
   private hasTestData: boolean = false;
   private calculatedNumConnections: number = 0;
+  private request: HttpRequestDefinition = httpRequestFromConfig();
+  private scenario: HttpScenario | null = null;
 
-  constructor() {
-    // Register process exit handlers
-    process.on('SIGINT', this.shutdown.bind(this));
-    process.on('SIGTERM', this.shutdown.bind(this));
+  // Called once the open-model schedule has run to its end, so that the test can be ended
+  public setScheduleCompleteHandler(handler: () => void): void {
+    this.onScheduleComplete = handler;
   }
 
   // Initialize connections
   public async initialize(): Promise<void> {
-    // Load test data from Redis
-    logger.info('Attempting to load test data from Redis...');
-    this.hasTestData = await redisClient.loadTestData();
+    // Load the request body template and scenario before waiting for test data, so that a bad file fails fast
+    const checks = config.checksFile ? await loadChecks(config.checksFile, TestMode.HTTP) : [];
+    this.request = await loadHttpRequest(checks);
+    if (config.httpScenarioFile) {
+      this.scenario = await loadHttpScenario(config.httpScenarioFile, checks);
+    }
+
+    // Load test data from the configured source
+    logger.info(`Attempting to load test data from ${testDataSource.description}...`);
+    this.hasTestData = await testDataSource.loadTestData();
+
+    // The test may have been stopped while waiting for the test data
+    if (this.isShuttingDown) return;
+
+    // Fail before sending requests if the URL, header or body templates are invalid
+    const sample = this.hasTestData ? await testDataSource.peekTestData() : null;
+    if (this.scenario) {
+      checkTemplates(httpScenarioTemplates(this.scenario), sample, httpScenarioVariables(this.scenario));
+    } else {
+      checkTemplates(httpRequestTemplates(this.request), sample);
+    }
 
     // Calculate number of connections
     let numConnections = config.numConnections;
 
     if (this.hasTestData) {
-      const dataCount = redisClient.getTestDataCount();
-      logger.info(`Successfully loaded ${dataCount} test data rows from Redis`);
+      const dataCount = testDataSource.getTestDataCount();
+      logger.info(`Successfully loaded ${dataCount} test data rows from ${testDataSource.description}`);
       logger.info('URLs will be generated dynamically using test data');
 
-      // Calculate connections based on Redis data count and replicas
-      numConnections = Math.ceil(dataCount / config.replicas);
-      logger.info(`Calculated ${numConnections} connections per replica (${dataCount} data rows / ${config.replicas} replicas)`);
+      // One connection per claimed data row, until the rows run out or the per-runner cap is reached;
+      // round-robin rows never run out, so NUM_CONNECTIONS sets the number of connections
+      if (config.dataDistribution === DataDistribution.ROUND_ROBIN) {
+        logger.info(`Using ${numConnections} connections, cycling through the data rows`);
+      } else {
+        numConnections = config.maxRowsPerRunner > 0 ? config.maxRowsPerRunner : Infinity;
+        logger.info(`Using one connection per claimed data row${config.maxRowsPerRunner > 0 ? `, at most ${config.maxRowsPerRunner}` : ''}`);
+      }
     } else {
       logger.warn('No test data available, using NUM_CONNECTIONS environment variable');
       logger.info(`Using ${numConnections} connections from NUM_CONNECTIONS environment variable`);
     }
 
-    logger.info(`Initializing HTTP manager with ${numConnections} connections to ${config.httpUrl}`);
-    logger.info(`HTTP Method: ${config.httpMethod}`);
-    logger.info(`Connection mode: ${config.connectionMode}, Rate: ${config.connectionRate} connections/second`);
+    logger.info(`Initializing HTTP manager with ${isFinite(numConnections) ? `${numConnections} connections` : 'claimed data rows'} to ${config.httpUrl}`);
+    if (this.scenario) {
+      logger.info(`HTTP scenario: ${this.scenario.steps.map(step => `${step.name} (${step.request.method})`).join(' -> ')}`);
+    } else {
+      logger.info(`HTTP Method: ${config.httpMethod}`);
+    }
+    logAgentConfiguration();
 
     // Store the calculated number of connections for use in connection creation methods
     this.calculatedNumConnections = numConnections;
 
+    if (config.httpLoadModel === HttpLoadModel.OPEN) {
+      await this.startOpenModel();
+      return;
+    }
+
+    logger.info(`Connection mode: ${config.connectionMode}, Rate: ${config.connectionRate} connections/second`);
+
     if (config.connectionMode === ConnectionMode.INSTANT) {
       await this.createInstantConnections();
+    } else if (config.connectionMode === ConnectionMode.STAGED) {
+      this.startLoadProfile();
     } else {
       await this.createProgressiveConnections();
     }
   }
 
+  // Follow the configured load profile in the background, the target being a number of virtual users
+  private startLoadProfile(): void {
+    logger.info(`Each virtual user repeats ${config.httpRequestsPerData} sequential requests per CSV line until stopped`);
+
+    this.loadProfileRunner = new LoadProfileRunner(config.loadStages, this.scaleTo.bind(this));
+    this.loadProfileRunner.run().then(() => {
+      logger.info(`Load profile finished with ${this.virtualUsers.length} virtual users`);
+    }).catch(error => {
+      logger.error(`Load profile failed: ${(error as Error).message}`);
+    });
+  }
+
+  // Start or stop virtual users until the given number are running
+  public async scaleTo(target: number): Promise<void> {
+    if (this.isShuttingDown) return;
+
+    // Start new virtual users, reusing data rows released by earlier ramp-downs first
+    while (this.virtualUsers.length < target && !this.isShuttingDown) {
+      let testData: TestDataRow | null = null;
+      if (this.hasTestData) {
+        testData = this.releasedTestData.pop() || await testDataSource.popTestData();
+        if (!testData) {
+          if (!this.testDataExhausted) {
+            logger.warn(`Test data exhausted, cannot scale beyond ${this.virtualUsers.length} virtual users`);
+            this.testDataExhausted = true;
+          }
+          break;
+        }
+      }
+
+      const connection = new HttpConnection(this.request, this.nextConnectionId++, testData, this.scenario);
+      const virtualUser = new HttpVirtualUser(connection, this.pauseGate);
+      this.connections.push(connection);
+      this.virtualUsers.push(virtualUser);
+      virtualUser.start();
+    }
+
+    // Stop the most recently started virtual users, letting their current request finish
+    const stopping = this.virtualUsers.splice(Math.max(target, 0));
+    const stoppingConnections = stopping.map(virtualUser => virtualUser.getConnection());
+    this.connections = this.connections.filter(conn => !stoppingConnections.includes(conn));
+    await Promise.all(stopping.map(virtualUser => virtualUser.stop()));
+
+    // Release their data rows only once they are stopped, so a new virtual user cannot use a row still in use
+    for (const connection of stoppingConnections.reverse()) {
+      const testData = connection.getTestData();
+      if (testData) {
+        this.releasedTestData.push(testData);
+        this.testDataExhausted = false;
+      }
+    }
+  }
+
+  // Send requests at a constant arrival rate, cycling through the test data rows
+  private async startOpenModel(): Promise<void> {
+    logger.info(`Open model: ${config.httpArrivalRate} requests/second for ${config.httpArrivalDurationMs}ms`);
+
+    // Each data row gets one connection, up to NUM_CONNECTIONS rows, so that one runner does not take every
+    // row of an unbounded share; rows are reused in turn for every iteration
+    const rowCount = this.hasTestData ? Math.min(this.calculatedNumConnections, config.numConnections) : 1;
+    for (let i = 0; i < rowCount; i++) {
+      const testData = this.hasTestData ? await testDataSource.popTestData() : null;
+      if (this.hasTestData && !testData) break;
+
+      this.connections.push(new HttpConnection(this.request, i + 1, testData, this.scenario));
+    }
+
+    if (this.connections.length === 0) {
+      throw new Error('No test data rows available for the open model');
+    }
+
+    logger.info(`Created ${this.connections.length} connections for the open model`);
+
+    let iteration = 0;
+    this.arrivalRateScheduler = new ArrivalRateScheduler(
+      config.httpArrivalRate,
+      config.httpArrivalDurationMs,
+      config.httpMaxInFlight,
+      config.httpLateThresholdMs,
+      async (intendedStartTime) => {
+        const connection = this.connections[iteration++ % this.connections.length];
+
+        // Each connection takes a fresh row for its next iterations when data rotation is enabled
+        await connection.runIteration(intendedStartTime, iteration > this.connections.length);
+      }
+    );
+
+    // Run in the background so status reporting starts while the schedule is running
+    this.arrivalRateScheduler.run().then(() => {
+      const httpStats = statsManager.getHttpStats();
+      logger.info(`Open model finished: ${httpStats.totalAttempted} requests sent, ${httpStats.droppedIterations} dropped, ${httpStats.lateIterations} late`);
+
+      // The scheduler also finishes when it is stopped by a shutdown
+      if (!this.isShuttingDown && this.onScheduleComplete) {
+        this.onScheduleComplete();
+      }
+    });
+  }
+
   // Create all connections at once but execute them sequentially
   private async createInstantConnections(): Promise<void> {
     logger.info('Creating all connections instantly');
     logger.info(`Using ${config.httpRequestsPerData} sequential requests per CSV line`);
 
     let connectionId = 1;
+    let dataRows = 0;
 
     // Create all connections first
-    for (let i = 0; i < this.calculatedNumConnections; i++) {
-      // Pop test data from Redis list if available
-      const testData = this.hasTestData ? await redisClient.popTestData() : null;
+    for (; dataRows < this.calculatedNumConnections && !this.isShuttingDown; dataRows++) {
+      // Pop test data if available
+      const testData = this.hasTestData ? await testDataSource.popTestData() : null;
+      if (this.hasTestData && !testData) {
+        logger.info(`Test data exhausted after ${dataRows} data rows`);
+        break;
+      }
 
       // Create multiple connections for the same test data based on httpRequestsPerData
+      const cookieJar = createCookieJar(testData);
       for (let j = 0; j < config.httpRequestsPerData; j++) {
-        const connection = new HttpConnection(config.httpUrl, config.httpMethod, connectionId++, testData);
+        const connection = new HttpConnection(this.request, connectionId++, testData, this.scenario, cookieJar);
         this.connections.push(connection);
       }
     }
 
-    logger.info(`Created ${this.connections.length} connections (${this.calculatedNumConnections} data rows × ${config.httpRequestsPerData} sequential requests)`);
+    logger.info(`Created ${this.connections.length} connections (${dataRows} data rows × ${config.httpRequestsPerData} sequential requests)`);
 
     // Execute connections sequentially by data row
-    for (let i = 0; i < this.calculatedNumConnections; i++) {
+    for (let i = 0; i < dataRows; i++) {
       const startIdx = i * config.httpRequestsPerData;
       await this.executeConnectionsSequentially(startIdx, config.httpRequestsPerData);
     }
@@ -267,12 +752,20 @@ class HttpManager {
           return;
         }
 
-        const connection = this.connections[index];
-        logger.info(`Executing sequential request ${index + 1 - startIndex} of ${count} for data row ${Math.floor(startIndex / count) + 1}`);
+        // Hold the next request while the test is paused
+        this.pauseGate.wait().then(() => {
+          if (this.isShuttingDown) {
+            resolve();
+            return;
+          }
+
+          const connection = this.connections[index];
+          logger.info(`Executing sequential request ${index + 1 - startIndex} of ${count} for data row ${Math.floor(startIndex / count) + 1}`);
 
-        connection.connect(() => {
-          // When this connection completes, execute the next one
-          executeNext(index + 1);
+          connection.connect(() => {
+            // When this connection completes, execute the next one
+            executeNext(index + 1);
+          });
         });
       };
 
@@ -283,49 +776,144 @@ class HttpManager {
 
   // Create connections progressively
   private async createProgressiveConnections(): Promise<void> {
-    logger.info(`Creating connections progressively at rate of ${config.connectionRate} per second`);
+    logger.info(`Creating connections progressively at rate of ${this.connectionRate} per second`);
     logger.info(`Using ${config.httpRequestsPerData} sequential requests per CSV line`);
 
-    let createdDataRows = 0;
-    let totalConnections = 0;
-    let connectionId = 1;
-    const intervalMs = 1000 / config.connectionRate;
-
     return new Promise((resolve) => {
-      this.progressiveConnectionTimer = setInterval(async () => {
-        if (createdDataRows >= this.calculatedNumConnections || this.isShuttingDown) {
-          if (this.progressiveConnectionTimer) {
-            clearInterval(this.progressiveConnectionTimer);
-            this.progressiveConnectionTimer = null;
-          }
-          logger.info(`Finished creating ${totalConnections} connections progressively (${createdDataRows} data rows × ${config.httpRequestsPerData} sequential requests)`);
-          resolve();
-          return;
-        }
+      this.onProgressiveFinished = resolve;
+      this.startProgressiveTimer();
+    });
+  }
 
-        // Pop test data from Redis list if available
-        const testData = this.hasTestData ? await redisClient.popTestData() : null;
+  // (Re)start the timer creating connections at the current rate
+  private startProgressiveTimer(): void {
+    if (this.progressiveConnectionTimer) {
+      clearInterval(this.progressiveConnectionTimer);
+    }
 
-        // Store the start index for this batch of connections
-        const startIndex = this.connections.length;
+    this.progressiveConnectionTimer = setInterval(async () => {
+      if (this.progressiveDataRows >= this.calculatedNumConnections || this.isShuttingDown) {
+        logger.info(`Finished creating ${this.connections.length} connections progressively (${this.progressiveDataRows} data rows × ${config.httpRequestsPerData} sequential requests)`);
+        this.stopProgressiveConnections();
+        return;
+      }
 
-        // Create multiple connections for the same test data based on httpRequestsPerData
-        for (let j = 0; j < config.httpRequestsPerData; j++) {
-          const connection = new HttpConnection(config.httpUrl, config.httpMethod, connectionId++, testData);
-          this.connections.push(connection);
-          totalConnections++;
-        }
+      // Hold creation while the test is paused
+      if (this.pauseGate.isPaused()) return;
+
+      // Pop test data if available; ticks are skipped while a read is pending, so that slow reads
+      // cannot create more connections than configured
+      if (this.isReadingProgressiveRow) return;
+      this.isReadingProgressiveRow = true;
+      let testData: TestDataRow | null;
+      try {
+        testData = this.hasTestData ? await testDataSource.popTestData() : null;
+      } catch (error) {
+        logger.error(`Failed to read test data for a new connection: ${(error as Error).message}`);
+        return;
+      } finally {
+        this.isReadingProgressiveRow = false;
+      }
+      if (this.hasTestData && !testData) {
+        logger.info(`Test data exhausted, finished creating ${this.connections.length} connections progressively (${this.progressiveDataRows} data rows × ${config.httpRequestsPerData} sequential requests)`);
+        this.stopProgressiveConnections();
+        return;
+      }
 
-        createdDataRows++;
+      // Store the start index for this batch of connections
+      const startIndex = this.connections.length;
 
-        if (createdDataRows % 10 === 0) {
-          logger.info(`Created ${totalConnections} connections (${createdDataRows}/${this.calculatedNumConnections} data rows × ${config.httpRequestsPerData} sequential requests)`);
-        }
+      // Create multiple connections for the same test data based on httpRequestsPerData
+      const cookieJar = createCookieJar(testData);
+      for (let j = 0; j < config.httpRequestsPerData; j++) {
+        const connection = new HttpConnection(this.request, this.progressiveConnectionId++, testData, this.scenario, cookieJar);
+        this.connections.push(connection);
+      }
 
-        // Execute the connections for this data row sequentially
-        await this.executeConnectionsSequentially(startIndex, config.httpRequestsPerData);
-      }, intervalMs);
-    });
+      this.progressiveDataRows++;
+
+      if (this.progressiveDataRows % 10 === 0) {
+        const total = isFinite(this.calculatedNumConnections) ? `/${this.calculatedNumConnections}` : '';
+        logger.info(`Created ${this.connections.length} connections (${this.progressiveDataRows}${total} data rows × ${config.httpRequestsPerData} sequential requests)`);
+      }
+
+      // Execute the connections for this data row sequentially
+      await this.executeConnectionsSequentially(startIndex, config.httpRequestsPerData);
+    }, 1000 / this.connectionRate);
+  }
+
+  // Stop creating connections progressively
+  private stopProgressiveConnections(): void {
+    if (this.progressiveConnectionTimer) {
+      clearInterval(this.progressiveConnectionTimer);
+      this.progressiveConnectionTimer = null;
+    }
+
+    if (this.onProgressiveFinished) {
+      const onFinished = this.onProgressiveFinished;
+      this.onProgressiveFinished = null;
+      onFinished();
+    }
+  }
+
+  // Stop starting new requests; requests in flight complete
+  public pause(): void {
+    this.pauseGate.pause();
+    if (this.arrivalRateScheduler) {
+      this.arrivalRateScheduler.pause();
+    }
+    if (this.loadProfileRunner) {
+      this.loadProfileRunner.pause();
+    }
+    logger.info('Paused');
+  }
+
+  // Start sending requests again
+  public resume(): void {
+    this.pauseGate.resume();
+    if (this.arrivalRateScheduler) {
+      this.arrivalRateScheduler.resume();
+    }
+    if (this.loadProfileRunner) {
+      this.loadProfileRunner.resume();
+    }
+    logger.info('Resumed');
+  }
+
+  // Override the number of virtual users, stopping the load profile
+  public async setTarget(target: number): Promise<void> {
+    if (config.httpLoadModel === HttpLoadModel.OPEN || config.connectionMode !== ConnectionMode.STAGED) {
+      throw new Error('set_target only applies to CONNECTION_MODE=staged with the closed HTTP load model');
+    }
+
+    if (this.loadProfileRunner) {
+      logger.info('Load profile stopped by a set_target command');
+      this.loadProfileRunner.stop();
+      this.loadProfileRunner = null;
+    }
+
+    await this.scaleTo(target);
+  }
+
+  // Change the open-model arrival rate or the progressive connection rate
+  public setRate(rate: number): void {
+    if (config.httpLoadModel === HttpLoadModel.OPEN) {
+      if (!this.arrivalRateScheduler) {
+        throw new Error('The open model is not running');
+      }
+      this.arrivalRateScheduler.setRate(rate);
+      return;
+    }
+
+    if (config.connectionMode !== ConnectionMode.PROGRESSIVE) {
+      throw new Error('set_rate only applies to the open model or CONNECTION_MODE=progressive');
+    }
+
+    this.connectionRate = rate;
+    if (this.progressiveConnectionTimer) {
+      this.startProgressiveTimer();
+    }
+    logger.info(`Connection rate changed to ${rate} connections/second`);
   }
 
   // Get connection statistics
@@ -345,11 +933,26 @@ class HttpManager {
     this.isShuttingDown = true;
     logger.info('Shutting down HTTP manager');
 
-    if (this.progressiveConnectionTimer) {
-      clearInterval(this.progressiveConnectionTimer);
-      this.progressiveConnectionTimer = null;
+    this.stopProgressiveConnections();
+
+    if (this.arrivalRateScheduler) {
+      this.arrivalRateScheduler.stop();
+      this.arrivalRateScheduler = null;
     }
 
+    if (this.loadProfileRunner) {
+      this.loadProfileRunner.stop();
+      this.loadProfileRunner = null;
+    }
+
+    // Stop virtual users started by the load profile
+    for (const virtualUser of this.virtualUsers) {
+      virtualUser.stop();
+    }
+
+    // Release loops waiting for a resume so they can see the shutdown
+    this.pauseGate.resume();
+
     // Close all connections
     for (const connection of this.connections) {
       connection.close();
@@ -358,12 +961,12 @@ class HttpManager {
     // Wait for stats to be updated one last time
     await new Promise(resolve => setTimeout(resolve, 1000));
 
+    // Close the kept-alive sockets of the shared agents
+    sharedAgentPool.destroy();
+
     // Close stats manager
     await statsManager.close();
 
-    // Close Redis client
-    await redisClient.close();
-
     logger.info('HTTP manager shutdown complete');
   }
 }
@@ -0,0 +1,145 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.TEST_MODE = 'http';
+process.env.HTTP_URL = 'http://127.0.0.1:1';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { HttpBodyType } from './config';
+import type { HttpRequestDefinition } from './http-request';
+import type { TemplateContext } from './template';
+
+const context: TemplateContext = {
+  testData: { level: '1', user: 'ada lovelace', id: '42' }
+};
+
+// POST request with a body of the given type
+function request(bodyType: HttpBodyType, body?: HttpRequestDefinition['body'], headers: Record<string, string> = {}): HttpRequestDefinition {
+  return { method: 'POST', url: 'http://127.0.0.1:1/users/@{id}', headers, bodyType, body, timeoutMs: 1000, checks: [] };
+}
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'http-request-'));
+});
+
+afterAll(async () => {
+  await fs.remove(directory);
+});
+
+describe('renderHttpRequest', () => {
+  it('sends JSON bodies as rendered JSON text', async () => {
+    const { renderHttpRequest } = await import('./http-request');
+    const rendered = renderHttpRequest(request(HttpBodyType.JSON, { user: { name: '@{user}' }, tags: ['@{id}'] }), context);
+
+    expect(rendered.url).toBe('http://127.0.0.1:1/users/42');
+    expect(rendered.data).toBe('{"user":{"name":"ada lovelace"},"tags":["42"]}');
+    expect(rendered.headers['Content-Type']).toBe('application/json');
+  });
+
+  it('renders text bodies as templates', async () => {
+    const { renderHttpRequest } = await import('./http-request');
+
+    const json = renderHttpRequest(request(HttpBodyType.JSON, '{"id": @{id}}'), context);
+    expect(json.data).toBe('{"id": 42}');
+    expect(json.headers['Content-Type']).toBe('application/json');
+
+    const raw = renderHttpRequest(request(HttpBodyType.RAW, 'user=@{user}'), context);
+    expect(raw.data).toBe('user=ada lovelace');
+    expect(raw.headers['Content-Type']).toBe('text/plain');
+  });
+
+  it('sends form bodies URL-encoded', async () => {
+    const { renderHttpRequest } = await import('./http-request');
+    const rendered = renderHttpRequest(request(HttpBodyType.FORM, { name: '@{user}', note: 'a&b=c' }), context);
+
+    expect(rendered.data).toBeInstanceOf(URLSearchParams);
+    expect(rendered.data!.toString()).toBe('name=ada+lovelace&note=a%26b%3Dc');
+    expect(rendered.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+  });
+
+  it('sends multipart bodies with their fields and files, leaving the Content-Type to the encoder', async () => {
+    const { renderHttpRequest } = await import('./http-request');
+    const rendered = renderHttpRequest(request(HttpBodyType.MULTIPART, {
+      name: '@{user}',
+      avatar: { content: Buffer.from('image bytes'), filename: 'avatar.png', contentType: 'image/png' }
+    }), context);
+
+    expect(rendered.headers['Content-Type']).toBeUndefined();
+    expect(rendered.data).toBeInstanceOf(FormData);
+
+    const form = rendered.data as FormData;
+    expect(form.get('name')).toBe('ada lovelace');
+    const file = form.get('avatar') as File;
+    expect(file.name).toBe('avatar.png');
+    expect(file.type).toBe('image/png');
+    expect(await file.text()).toBe('image bytes');
+
+    // The encoded body carries the boundary of its Content-Type
+    const encoded = new Response(form);
+    const contentType = encoded.headers.get('content-type')!;
+    expect(contentType).toMatch(/^multipart\/form-data; boundary=/);
+    const body = await encoded.text();
+    expect(body).toContain(`--${contentType.split('boundary=')[1]}`);
+    expect(body).toContain('Content-Disposition: form-data; name="name"\r\n\r\nada lovelace');
+    expect(body).toContain('Content-Disposition: form-data; name="avatar"; filename="avatar.png"\r\nContent-Type: image/png\r\n\r\nimage bytes');
+  });
+
+  it('keeps a configured Content-Type header', async () => {
+    const { renderHttpRequest } = await import('./http-request');
+    const rendered = renderHttpRequest(request(HttpBodyType.JSON, { id: '@{id}' }, { 'content-type': 'application/vnd.api+json' }), context);
+
+    expect(rendered.headers).toEqual({ 'content-type': 'application/vnd.api+json' });
+  });
+
+  it('sends the test data row without its level when there is no body', async () => {
+    const { renderHttpRequest } = await import('./http-request');
+    const rendered = renderHttpRequest(request(HttpBodyType.JSON), context);
+
+    expect(rendered.data).toEqual({ user: 'ada lovelace', id: '42' });
+    expect(rendered.headers['Content-Type']).toBeUndefined();
+    expect(renderHttpRequest(request(HttpBodyType.JSON), { testData: null }).data).toBeUndefined();
+  });
+
+  it('sends no body with GET requests', async () => {
+    const { renderHttpRequest } = await import('./http-request');
+    const rendered = renderHttpRequest({ ...request(HttpBodyType.JSON, { id: '@{id}' }), method: 'GET' }, context);
+
+    expect(rendered.data).toBeUndefined();
+    expect(rendered.headers).toEqual({});
+  });
+});
+
+describe('loadBody', () => {
+  it('reads the files of multipart fields relative to the body file', async () => {
+    const { loadBody } = await import('./http-request');
+    await fs.writeFile(path.join(directory, 'report.csv'), 'a,b');
+
+    const body = await loadBody(
+      { title: 'Report', count: 3, report: { file: 'report.csv', contentType: 'text/csv' } },
+      HttpBodyType.MULTIPART,
+      path.join(directory, 'body.yaml'),
+      'body'
+    );
+
+    expect(body).toEqual({
+      title: 'Report',
+      count: '3',
+      report: { content: Buffer.from('a,b'), filename: 'report.csv', contentType: 'text/csv' }
+    });
+  });
+
+  it('rejects bodies that do not match their type', async () => {
+    const { loadBody } = await import('./http-request');
+    const filePath = path.join(directory, 'body.json');
+
+    await expect(loadBody(['a'], HttpBodyType.FORM, filePath, 'body')).rejects.toThrow('Invalid body: form bodies must be an object of fields');
+    await expect(loadBody({ a: 1 }, HttpBodyType.RAW, filePath, 'body')).rejects.toThrow('Invalid body: raw bodies must be a string');
+    await expect(loadBody({ part: { name: 'x' } }, HttpBodyType.MULTIPART, filePath, 'body')).rejects.toThrow("field 'part' must be a string or an object with a file path");
+    await expect(loadBody({ part: { file: 'missing.bin' } }, HttpBodyType.MULTIPART, filePath, 'body')).rejects.toThrow("File of multipart field 'part' not found");
+  });
+});
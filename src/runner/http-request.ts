@@ -0,0 +1,212 @@
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import { config, HttpBodyType } from './config';
+import logger from './logger';
+import { renderInValue, renderTemplate, TemplateContext } from './template';
+import { Check } from './checks';
+
+// A file sent as a part of a multipart body, read once when the body file is loaded
+export interface MultipartFilePart {
+  content: Buffer;
+  filename: string;
+  contentType: string;
+}
+
+export type MultipartBody = Record<string, string | MultipartFilePart>;
+
+// Definition of the HTTP request sent by each connection, before template rendering
+export interface HttpRequestDefinition {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  bodyType: HttpBodyType;
+  // Text for json and raw bodies, fields for form and multipart bodies, or a value serialized as JSON;
+  // without a body, POST, PUT and PATCH requests send the test data row as JSON
+  body?: string | Record<string, string> | MultipartBody | object;
+  timeoutMs: number;
+  // Checks run against every response
+  checks: Check[];
+}
+
+// Request ready to be sent, with its templates rendered
+export interface RenderedHttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: string | URLSearchParams | FormData | Record<string, string>;
+}
+
+const METHODS_WITH_BODY = ['POST', 'PUT', 'PATCH'];
+
+// Default Content-Type of each body type; multipart bodies get theirs, with the boundary, from FormData
+const CONTENT_TYPES: Record<HttpBodyType, string | null> = {
+  [HttpBodyType.JSON]: 'application/json',
+  [HttpBodyType.FORM]: 'application/x-www-form-urlencoded',
+  [HttpBodyType.RAW]: 'text/plain',
+  [HttpBodyType.MULTIPART]: null
+};
+
+// Parse a JSON or YAML file according to its extension
+function parseFile(content: string, filePath: string): unknown {
+  const extension = path.extname(filePath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? YAML.parse(content) : JSON.parse(content);
+}
+
+// Read the files referenced by a multipart body, relative to the file defining the body
+async function loadMultipartBody(fields: Record<string, unknown>, filePath: string, location: string): Promise<MultipartBody> {
+  const body: MultipartBody = {};
+
+  for (const [name, value] of Object.entries(fields)) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      body[name] = String(value);
+      continue;
+    }
+
+    const part = value as { file?: unknown; filename?: unknown; contentType?: unknown } | null;
+    if (!part || typeof part.file !== 'string') {
+      throw new Error(`Invalid ${location}: field '${name}' must be a string or an object with a file path`);
+    }
+
+    const partPath = path.resolve(path.dirname(filePath), part.file);
+    if (!await fs.pathExists(partPath)) {
+      throw new Error(`File of multipart field '${name}' not found: ${partPath}`);
+    }
+    body[name] = {
+      content: await fs.readFile(partPath),
+      filename: typeof part.filename === 'string' ? part.filename : path.basename(partPath),
+      contentType: typeof part.contentType === 'string' ? part.contentType : 'application/octet-stream'
+    };
+  }
+
+  return body;
+}
+
+// Request defined by the configuration alone, without the body file
+export function httpRequestFromConfig(): HttpRequestDefinition {
+  return {
+    method: config.httpMethod.toUpperCase(),
+    url: config.httpUrl,
+    headers: config.httpHeaders,
+    bodyType: config.httpBodyType,
+    timeoutMs: config.httpTimeoutMs,
+    checks: []
+  };
+}
+
+// Validate a body read from a file and prepare it for its body type; location names it in errors
+export async function loadBody(body: unknown, bodyType: HttpBodyType, filePath: string, location: string): Promise<HttpRequestDefinition['body']> {
+  if (bodyType === HttpBodyType.JSON && body !== null && typeof body === 'object') {
+    return body;
+  }
+  if (bodyType === HttpBodyType.JSON || bodyType === HttpBodyType.RAW) {
+    if (typeof body !== 'string') {
+      throw new Error(`Invalid ${location}: ${bodyType} bodies must be a string${bodyType === HttpBodyType.JSON ? ' or an object' : ''}`);
+    }
+    return body;
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error(`Invalid ${location}: ${bodyType} bodies must be an object of fields`);
+  }
+  if (bodyType === HttpBodyType.MULTIPART) {
+    return loadMultipartBody(body as Record<string, unknown>, filePath, location);
+  }
+  return Object.fromEntries(Object.entries(body).map(([name, value]) => [name, String(value)]));
+}
+
+// Load the request sent by each HTTP connection from the configuration and the body file
+export async function loadHttpRequest(checks: Check[]): Promise<HttpRequestDefinition> {
+  const request = httpRequestFromConfig();
+  request.checks = checks;
+
+  if (!config.httpBodyFile) {
+    return request;
+  }
+
+  const filePath = path.resolve(config.httpBodyFile);
+  if (!await fs.pathExists(filePath)) {
+    throw new Error(`Body file not found: ${filePath}`);
+  }
+  const content = await fs.readFile(filePath, 'utf8');
+
+  // Text bodies are templates of the whole payload, form and multipart bodies list their fields
+  const isText = config.httpBodyType === HttpBodyType.JSON || config.httpBodyType === HttpBodyType.RAW;
+  request.body = await loadBody(isText ? content : parseFile(content, filePath), config.httpBodyType, filePath, `body file ${filePath}`);
+
+  if (!METHODS_WITH_BODY.includes(request.method)) {
+    logger.warn(`HTTP_BODY_FILE is set but ${request.method} requests are sent without a body`);
+  }
+  logger.info(`Loaded ${config.httpBodyType} request body from ${filePath}`);
+  return request;
+}
+
+// Templates of the request's URL, headers and body, for checking them before the test starts
+export function httpRequestTemplates(request: HttpRequestDefinition): unknown[] {
+  const templates: unknown[] = [request.url, request.headers];
+  if (request.bodyType === HttpBodyType.MULTIPART && request.body) {
+    // File parts are sent as read
+    templates.push(...Object.values(request.body).filter(value => typeof value === 'string'));
+  } else if (request.body !== undefined) {
+    templates.push(request.body);
+  }
+  return templates;
+}
+
+// Encode the rendered body according to its type
+function renderBody(request: HttpRequestDefinition, context: TemplateContext): RenderedHttpRequest['data'] {
+  if (request.body === undefined) {
+    if (!context.testData) {
+      return undefined;
+    }
+    // The level column only selects the rows of a test, it is not part of the payload
+    const { level, ...payload } = context.testData;
+    return payload;
+  }
+
+  if (typeof request.body === 'string') {
+    return renderTemplate(request.body, context);
+  }
+
+  if (request.bodyType === HttpBodyType.JSON) {
+    return JSON.stringify(renderInValue(request.body, context));
+  }
+
+  if (request.bodyType === HttpBodyType.FORM) {
+    return new URLSearchParams(renderInValue(request.body, context) as Record<string, string>);
+  }
+
+  const form = new FormData();
+  for (const [name, value] of Object.entries(request.body as MultipartBody)) {
+    if (typeof value === 'string') {
+      form.append(name, renderTemplate(value, context));
+    } else {
+      form.append(name, new Blob([value.content], { type: value.contentType }), value.filename);
+    }
+  }
+  return form;
+}
+
+// Render the templates of a request for one attempt, so that generators produce fresh values
+export function renderHttpRequest(request: HttpRequestDefinition, context: TemplateContext): RenderedHttpRequest {
+  const rendered: RenderedHttpRequest = {
+    method: request.method,
+    url: renderTemplate(request.url, context),
+    headers: renderInValue(request.headers, context) as Record<string, string>
+  };
+
+  if (!METHODS_WITH_BODY.includes(request.method)) {
+    return rendered;
+  }
+
+  rendered.data = renderBody(request, context);
+
+  // A Content-Type header from the configuration takes precedence
+  const contentType = CONTENT_TYPES[request.bodyType];
+  const hasContentType = Object.keys(rendered.headers).some(name => name.toLowerCase() === 'content-type');
+  if (rendered.data !== undefined && contentType && request.body !== undefined && !hasContentType) {
+    rendered.headers['Content-Type'] = contentType;
+  }
+
+  return rendered;
+}
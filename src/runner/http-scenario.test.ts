@@ -0,0 +1,143 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.TEST_MODE = 'http';
+process.env.HTTP_URL = 'http://127.0.0.1:1/api/';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { AxiosResponse } from 'axios';
+import type { Extraction, HttpScenario } from './http-scenario';
+
+// Response with only the fields read by the extractions
+function response(data: unknown, headers: Record<string, unknown> = {}): AxiosResponse {
+  return { data, headers, status: 200, statusText: 'OK', config: {} } as unknown as AxiosResponse;
+}
+
+// Extract a value from a response
+async function extract(extraction: Omit<Extraction, 'variable'>, from: AxiosResponse): Promise<string | null> {
+  const { extractValue } = await import('./http-scenario');
+  return extractValue({ variable: 'value', ...extraction }, from);
+}
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'http-scenario-'));
+});
+
+afterAll(async () => {
+  await fs.remove(directory);
+  const { statsManager } = await import('./stats');
+  await statsManager.close();
+});
+
+// Write a scenario file and load it
+async function load(scenario: unknown): Promise<HttpScenario> {
+  const { loadHttpScenario } = await import('./http-scenario');
+  const filePath = path.join(directory, 'scenario.json');
+  await fs.writeFile(filePath, JSON.stringify(scenario));
+  return loadHttpScenario(filePath, []);
+}
+
+describe('extractValue', () => {
+  it('reads JSON paths from parsed and text bodies', async () => {
+    const body = { token: 'abc', user: { id: 7, roles: ['admin'] }, empty: null };
+
+    expect(await extract({ from: 'json', expression: '$.token' }, response(body))).toBe('abc');
+    expect(await extract({ from: 'json', expression: '$.user.id' }, response(JSON.stringify(body)))).toBe('7');
+    expect(await extract({ from: 'json', expression: '$.user.roles' }, response(body))).toBe('["admin"]');
+  });
+
+  it('returns null for missing JSON values and bodies that are not JSON', async () => {
+    expect(await extract({ from: 'json', expression: '$.missing' }, response({ token: 'abc' }))).toBeNull();
+    expect(await extract({ from: 'json', expression: '$.empty' }, response({ empty: null }))).toBeNull();
+    expect(await extract({ from: 'json', expression: '$.token' }, response('<html></html>'))).toBeNull();
+  });
+
+  it('reads headers whatever the case of their name', async () => {
+    const headers = { 'x-request-id': 'r-1', 'x-multi': ['a', 'b'] };
+
+    expect(await extract({ from: 'header', expression: 'X-Request-Id' }, response('', headers))).toBe('r-1');
+    expect(await extract({ from: 'header', expression: 'x-multi' }, response('', headers))).toBe('a, b');
+    expect(await extract({ from: 'header', expression: 'x-missing' }, response('', headers))).toBeNull();
+  });
+
+  it('reads the first capture group of a regular expression, or the whole match without groups', async () => {
+    const body = '<input name="csrf" value="t0k3n"> order #42';
+
+    expect(await extract({ from: 'regex', expression: 'value="([^"]+)"' }, response(body))).toBe('t0k3n');
+    expect(await extract({ from: 'regex', expression: '#\\d+' }, response(body))).toBe('#42');
+    expect(await extract({ from: 'regex', expression: 'missing="(\\w+)"' }, response(body))).toBeNull();
+  });
+
+  it('reads the requested capture group and matches JSON bodies as text', async () => {
+    const body = 'order #42 for customer 7';
+
+    expect(await extract({ from: 'regex', expression: '#(\\d+) for customer (\\d+)', group: 2 }, response(body))).toBe('7');
+    expect(await extract({ from: 'regex', expression: '#(\\d+)', group: 0 }, response(body))).toBe('#42');
+    expect(await extract({ from: 'regex', expression: '#(\\d+)', group: 3 }, response(body))).toBeNull();
+    expect(await extract({ from: 'regex', expression: '"id":(\\d+)' }, response({ id: 9 }))).toBe('9');
+  });
+
+  it('reads cookies set by the response', async () => {
+    const headers = { 'set-cookie': ['theme=dark; Path=/', 'session=s-1; HttpOnly'] };
+
+    expect(await extract({ from: 'cookie', expression: 'session' }, response('', headers))).toBe('s-1');
+    expect(await extract({ from: 'cookie', expression: 'missing' }, response('', headers))).toBeNull();
+    expect(await extract({ from: 'cookie', expression: 'session' }, response(''))).toBeNull();
+  });
+});
+
+describe('loadHttpScenario', () => {
+  it('loads steps with their extractions and resolves relative URLs', async () => {
+    const scenario = await load({
+      name: 'checkout',
+      steps: [
+        {
+          name: 'login',
+          method: 'post',
+          url: '/login',
+          body: { user: 'a' },
+          extract: {
+            token: { json: '$.token' },
+            orderId: { regex: 'order-(\\d+)', group: 1 }
+          }
+        },
+        { name: 'status', url: 'https://status.example.com/health' }
+      ]
+    });
+
+    expect(scenario.name).toBe('checkout');
+    expect(scenario.steps[0].request.method).toBe('POST');
+    expect(scenario.steps[0].request.url).toBe('http://127.0.0.1:1/api/login');
+    expect(scenario.steps[0].extract).toEqual([
+      { variable: 'token', from: 'json', expression: '$.token' },
+      { variable: 'orderId', from: 'regex', expression: 'order-(\\d+)', group: 1 }
+    ]);
+    expect(scenario.steps[1].request.method).toBe('GET');
+    expect(scenario.steps[1].request.url).toBe('https://status.example.com/health');
+  });
+
+  it('rejects invalid steps', async () => {
+    await expect(load({ steps: [] })).rejects.toThrow('steps must be a non-empty array');
+    await expect(load({ steps: [{ name: 'Login', url: '/login' }] })).rejects.toThrow('steps[0].name must be lowercase');
+    await expect(load({ steps: [{ name: 'login' }] })).rejects.toThrow('steps[0].url must be a non-empty string');
+    await expect(load({ steps: [{ name: 'login', url: '/login', bodyType: 'xml' }] })).rejects.toThrow('steps[0].bodyType must be one of');
+    await expect(load({ steps: [{ name: 'login', url: '/login', timeoutMs: 0 }] })).rejects.toThrow('steps[0].timeoutMs must be a positive number');
+    await expect(load({ steps: [{ name: 'login', url: '/a' }, { name: 'login', url: '/b' }] })).rejects.toThrow("step name 'login' is used more than once");
+  });
+
+  it('rejects invalid extractions', async () => {
+    const step = (extract: unknown) => ({ steps: [{ name: 'login', url: '/login', extract }] });
+
+    await expect(load(step(['token']))).rejects.toThrow('steps[0].extract must be an object');
+    await expect(load(step({ '1token': { json: '$.token' } }))).rejects.toThrow('steps[0].extract.1token is not a valid variable name');
+    await expect(load(step({ token: { json: '$.token', header: 'x-token' } }))).rejects.toThrow('steps[0].extract.token must have exactly one of');
+    await expect(load(step({ token: { body: '$.token' } }))).rejects.toThrow('steps[0].extract.token must have exactly one of');
+    await expect(load(step({ token: { regex: '(\\w+)', group: -1 } }))).rejects.toThrow('steps[0].extract.token.group must be a non-negative integer');
+    await expect(load(step({ token: { regex: '(unclosed' } }))).rejects.toThrow('Invalid regular expression');
+  });
+});
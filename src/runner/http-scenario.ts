@@ -0,0 +1,223 @@
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import { AxiosResponse } from 'axios';
+import { config, HttpBodyType, TestMode } from './config';
+import logger from './logger';
+import { getJsonPath } from './json-path';
+import { HttpRequestDefinition, httpRequestTemplates, loadBody } from './http-request';
+import { Check, validateChecks } from './checks';
+
+// Parts of a response a value can be extracted from
+const EXTRACTION_SOURCES = ['json', 'header', 'regex', 'cookie'] as const;
+export type ExtractionSource = typeof EXTRACTION_SOURCES[number];
+
+// Value read from a step's response into a variable for the following steps
+export interface Extraction {
+  variable: string;
+  from: ExtractionSource;
+  // JSON path, header name, regular expression or cookie name
+  expression: string;
+  // Capture group of a regular expression
+  group?: number;
+}
+
+export interface HttpStep {
+  name: string;
+  request: HttpRequestDefinition;
+  extract: Extraction[];
+}
+
+export interface HttpScenario {
+  name: string;
+  steps: HttpStep[];
+}
+
+// Step names become metric names, so they are kept usable in thresholds and as tag values
+const STEP_NAME_REGEX = /^[a-z][a-z0-9_]*$/;
+const VARIABLE_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Append relative step URLs to HTTP_URL
+function resolveUrl(url: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    return url;
+  }
+  return `${config.httpUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+// Validate the extractions of a step
+function validateExtractions(extract: unknown, location: string): Extraction[] {
+  if (extract === undefined) {
+    return [];
+  }
+  if (!extract || typeof extract !== 'object' || Array.isArray(extract)) {
+    throw new Error(`Invalid HTTP scenario: ${location} must be an object of variable names to extractions`);
+  }
+
+  return Object.entries(extract as Record<string, unknown>).map(([variable, definition]) => {
+    const variableLocation = `${location}.${variable}`;
+    if (!VARIABLE_NAME_REGEX.test(variable)) {
+      throw new Error(`Invalid HTTP scenario: ${variableLocation} is not a valid variable name`);
+    }
+
+    const fields = definition && typeof definition === 'object' ? definition as Record<string, unknown> : {};
+    const sources = EXTRACTION_SOURCES.filter(source => source in fields);
+    const expression = fields[sources[0]];
+    if (sources.length !== 1 || typeof expression !== 'string') {
+      throw new Error(`Invalid HTTP scenario: ${variableLocation} must have exactly one of: ${EXTRACTION_SOURCES.join(', ')}`);
+    }
+
+    const extraction: Extraction = { variable, from: sources[0], expression };
+    if (extraction.from === 'regex') {
+      new RegExp(extraction.expression);
+      const group = fields.group;
+      if (group !== undefined && (typeof group !== 'number' || !Number.isInteger(group) || group < 0)) {
+        throw new Error(`Invalid HTTP scenario: ${variableLocation}.group must be a non-negative integer`);
+      }
+      extraction.group = group;
+    }
+    return extraction;
+  });
+}
+
+// Validate a step read from a scenario file and build its request
+async function loadStep(definition: unknown, location: string, filePath: string, checks: Check[]): Promise<HttpStep> {
+  if (!definition || typeof definition !== 'object') {
+    throw new Error(`Invalid HTTP scenario: ${location} must be an object`);
+  }
+  const step = definition as Record<string, unknown>;
+  if (typeof step.name !== 'string' || !STEP_NAME_REGEX.test(step.name)) {
+    throw new Error(`Invalid HTTP scenario: ${location}.name must be lowercase letters, digits and underscores, starting with a letter`);
+  }
+  if (typeof step.url !== 'string' || !step.url) {
+    throw new Error(`Invalid HTTP scenario: ${location}.url must be a non-empty string`);
+  }
+  if (step.method !== undefined && typeof step.method !== 'string') {
+    throw new Error(`Invalid HTTP scenario: ${location}.method must be a string`);
+  }
+  if (step.headers !== undefined && (!step.headers || typeof step.headers !== 'object' ||
+    Object.values(step.headers).some(value => typeof value !== 'string'))) {
+    throw new Error(`Invalid HTTP scenario: ${location}.headers must be an object of header names to string values`);
+  }
+  if (step.bodyType !== undefined && !Object.values(HttpBodyType).includes(step.bodyType as HttpBodyType)) {
+    throw new Error(`Invalid HTTP scenario: ${location}.bodyType must be one of: ${Object.values(HttpBodyType).join(', ')}`);
+  }
+  if (step.timeoutMs !== undefined && (typeof step.timeoutMs !== 'number' || step.timeoutMs <= 0)) {
+    throw new Error(`Invalid HTTP scenario: ${location}.timeoutMs must be a positive number`);
+  }
+
+  const request: HttpRequestDefinition = {
+    method: (step.method || 'GET').toUpperCase(),
+    url: resolveUrl(step.url),
+    // Step headers are added to, and override, the HTTP_HEADERS sent with every request
+    headers: { ...config.httpHeaders, ...(step.headers as Record<string, string> | undefined) },
+    bodyType: (step.bodyType as HttpBodyType | undefined) || HttpBodyType.JSON,
+    timeoutMs: step.timeoutMs || config.httpTimeoutMs,
+    // The step's own checks are named after the step, in addition to the checks of CHECKS_FILE
+    checks: [...checks, ...validateChecks(step.checks, `${location}.checks`, TestMode.HTTP, `${step.name}.`)]
+  };
+  if (step.body !== undefined) {
+    request.body = await loadBody(step.body, request.bodyType, filePath, `HTTP scenario: ${location}.body`);
+  }
+
+  return { name: step.name, request, extract: validateExtractions(step.extract, `${location}.extract`) };
+}
+
+// Load and validate an HTTP scenario from a JSON or YAML file; checks are run against the response of every step
+export async function loadHttpScenario(scenarioPath: string, checks: Check[]): Promise<HttpScenario> {
+  const filePath = path.resolve(scenarioPath);
+  if (!await fs.pathExists(filePath)) {
+    throw new Error(`HTTP scenario file not found: ${filePath}`);
+  }
+
+  const content = await fs.readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed = extension === '.yaml' || extension === '.yml' ? YAML.parse(content) : JSON.parse(content);
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid HTTP scenario: file must contain an object');
+  }
+  if (!Array.isArray(parsed.steps) || parsed.steps.length === 0) {
+    throw new Error('Invalid HTTP scenario: steps must be a non-empty array of steps');
+  }
+
+  const steps: HttpStep[] = [];
+  for (const [index, step] of parsed.steps.entries()) {
+    const loaded = await loadStep(step, `steps[${index}]`, filePath, checks);
+    if (steps.some(existing => existing.name === loaded.name)) {
+      throw new Error(`Invalid HTTP scenario: step name '${loaded.name}' is used more than once`);
+    }
+    steps.push(loaded);
+  }
+
+  const scenario: HttpScenario = {
+    name: typeof parsed.name === 'string' ? parsed.name : path.basename(filePath, extension),
+    steps
+  };
+
+  logger.info(`Loaded HTTP scenario '${scenario.name}' with ${steps.length} steps from ${filePath}`);
+  return scenario;
+}
+
+// Templates of every step's request, for checking them before the test starts
+export function httpScenarioTemplates(scenario: HttpScenario): unknown[] {
+  return scenario.steps.flatMap(step => httpRequestTemplates(step.request));
+}
+
+// Names of the variables extracted by the scenario's steps
+export function httpScenarioVariables(scenario: HttpScenario): string[] {
+  return scenario.steps.flatMap(step => step.extract.map(extraction => extraction.variable));
+}
+
+// Response body as text, for regular expressions
+function responseText(response: AxiosResponse): string {
+  return typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+}
+
+// Read the value of an extraction from a response, or null if it is not there
+export function extractValue(extraction: Extraction, response: AxiosResponse): string | null {
+  switch (extraction.from) {
+    case 'json': {
+      let data = response.data;
+      if (typeof data === 'string') {
+        try {
+          data = JSON.parse(data);
+        } catch {
+          return null;
+        }
+      }
+      const value = getJsonPath(data, extraction.expression);
+      if (value === undefined || value === null) {
+        return null;
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+    case 'header': {
+      const value = response.headers[extraction.expression.toLowerCase()];
+      if (value === undefined || value === null) {
+        return null;
+      }
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    }
+    case 'regex': {
+      const match = new RegExp(extraction.expression).exec(responseText(response));
+      if (!match) {
+        return null;
+      }
+      // The first capture group by default, or the whole match if there is none
+      const group = extraction.group !== undefined ? extraction.group : (match.length > 1 ? 1 : 0);
+      return match[group] !== undefined ? match[group] : null;
+    }
+    case 'cookie': {
+      const setCookies: string[] = response.headers['set-cookie'] || [];
+      for (const setCookie of setCookies) {
+        const [pair] = setCookie.split(';');
+        const separator = pair.indexOf('=');
+        if (separator > 0 && pair.slice(0, separator).trim() === extraction.expression) {
+          return pair.slice(separator + 1).trim();
+        }
+      }
+      return null;
+    }
+  }
+}
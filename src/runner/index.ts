@@ -1,8 +1,27 @@
-import { config, TestMode } from './config';
+import { config, DataSourceType, HttpLoadModel, MetricsSinkType, TestMode } from './config';
 import logger from './logger';
-import { statsManager } from './stats';
+import { HTTP_PHASE_METRICS, HttpPhase, statsManager } from './stats';
 import { webSocketManager } from './websocket-manager';
 import { httpManager } from './http-manager';
+import { formatPercentiles } from './histogram';
+import { buildSummary, ExitCode, printSummary, writeSummary } from './report';
+import { findIrrecoverableBreach, thresholds } from './thresholds';
+import { StatusServer } from './status-server';
+import { StartBarrier } from './start-barrier';
+import { redisClient } from './redis-client';
+import { testDataSource } from './data-source';
+import { CommandChannel, CommandType, LoadController, RunnerCommand } from './command-channel';
+import { SnapshotPublisher } from './snapshot-publisher';
+
+let statusInterval: NodeJS.Timeout | null = null;
+let durationTimer: NodeJS.Timeout | null = null;
+let thresholdInterval: NodeJS.Timeout | null = null;
+let statusServer: StatusServer | null = null;
+let startBarrier: StartBarrier | null = null;
+let commandChannel: CommandChannel | null = null;
+let snapshotPublisher: SnapshotPublisher | null = null;
+let isStopping: boolean = false;
+let testStartTime = Date.now();
 
 // Print startup banner
 function printBanner(): void {
@@ -15,6 +34,10 @@ function printBanner(): void {
   } else {
     logger.info(`Target HTTP URL: ${config.httpUrl}`);
     logger.info(`HTTP Method: ${config.httpMethod}`);
+    logger.info(`HTTP load model: ${config.httpLoadModel}`);
+    if (config.httpLoadModel === HttpLoadModel.OPEN) {
+      logger.info(`Arrival rate: ${config.httpArrivalRate} requests/second for ${config.httpArrivalDurationMs}ms`);
+    }
   }
 
   logger.info(`Number of connections: ${config.numConnections}`);
@@ -22,92 +45,300 @@ function printBanner(): void {
   if (config.connectionMode === 'progressive') {
     logger.info(`Connection rate: ${config.connectionRate} connections/second`);
   }
-  logger.info(`InfluxDB URL: ${config.influxUrl}`);
-  logger.info(`InfluxDB Organization: ${config.influxOrg}`);
-  logger.info(`InfluxDB Bucket: ${config.influxBucket}`);
-  logger.info(`Redis URL: ${config.redisUrl}`);
+  if (config.connectionMode === 'staged') {
+    logger.info(`Load stages: ${config.loadStages.map(stage => `${stage.name}:${stage.durationMs}ms:${stage.target}`).join(', ')}`);
+  }
+  logger.info(`Metrics sinks: ${config.metricsSinks.join(', ')}`);
+  if (config.metricsSinks.includes(MetricsSinkType.INFLUX)) {
+    logger.info(`InfluxDB URL: ${config.influxUrl}`);
+    logger.info(`InfluxDB Organization: ${config.influxOrg}`);
+    logger.info(`InfluxDB Bucket: ${config.influxBucket}`);
+  }
+  if (config.standalone) {
+    logger.info('Standalone mode: no InfluxDB or Redis required');
+  }
+  logger.info(`Test data source: ${config.dataSource}`);
+  if (config.dataSource === DataSourceType.REDIS) {
+    logger.info(`Redis URL: ${config.redisUrl}`);
+    logger.info(`Data access: ${config.dataAccess}`);
+  } else if (config.dataSource === DataSourceType.CSV) {
+    logger.info(`CSV path: ${config.csvPath} (level <= ${config.dataLevel})`);
+  }
+  if (config.dataSource !== DataSourceType.NONE) {
+    logger.info(`Data distribution: ${config.dataDistribution}, ${config.dataSharing}`);
+    if (config.maxRowsPerRunner > 0) {
+      logger.info(`Max rows per runner: ${config.maxRowsPerRunner}`);
+    }
+  }
   logger.info(`Log level: ${config.logLevel}`);
   logger.info(`Retry delay: ${config.retryDelayMs}ms`);
+  logger.info(`Command channel: ${config.commandChannel ? 'enabled' : 'disabled'}`);
+  if (config.publishSnapshots) {
+    logger.info(`Stats snapshots: published every ${config.snapshotIntervalMs}ms`);
+  }
+  if (config.startBarrier) {
+    logger.info(`Start barrier: ${config.replicas} runners, timeout ${config.startBarrierTimeoutMs}ms, delay ${config.startBarrierDelayMs}ms`);
+  }
+  logger.info(`Status server port: ${config.statusPort > 0 ? config.statusPort : 'disabled'}`);
+  logger.info(`Test duration: ${config.testDurationMs > 0 ? `${config.testDurationMs}ms` : 'until stopped'}`);
+  if (thresholds.length > 0) {
+    logger.info(`Thresholds: ${thresholds.map(threshold => threshold.expression).join(', ')}`);
+    logger.info(`Abort on threshold failure: ${config.thresholdsAbortOnFail}`);
+  }
   logger.info('='.repeat(60));
 }
 
+// Format error counts per cause for the status log
+function formatErrorCategories(errorsByCategory: Record<string, number>): string {
+  const entries = Object.entries(errorsByCategory);
+  if (entries.length === 0) return '';
+  return ` (${entries.map(([category, count]) => `${category}: ${count}`).join(', ')})`;
+}
+
+// Format counts per status or close code for the status log
+function formatCodeCounts(codes: Record<string, number>): string {
+  const entries = Object.entries(codes);
+  if (entries.length === 0) return 'none';
+  return entries.map(([code, count]) => `${code}=${count}`).join(', ');
+}
+
+// Apply an operator command to the running test
+async function handleCommand(command: RunnerCommand): Promise<string> {
+  const controller: LoadController = config.testMode === TestMode.WEBSOCKET ? webSocketManager : httpManager;
+
+  switch (command.command) {
+    case CommandType.PAUSE:
+      controller.pause();
+      return 'paused';
+    case CommandType.RESUME:
+      controller.resume();
+      return 'resumed';
+    case CommandType.SET_TARGET:
+      await controller.setTarget(command.value as number);
+      return `target set to ${command.value}`;
+    case CommandType.SET_RATE:
+      controller.setRate(command.value as number);
+      return `rate set to ${command.value}`;
+    case CommandType.STOP:
+      // Stop once the command has been acknowledged
+      setTimeout(() => stopTest(`stop command ${command.id}`), 100);
+      return 'stopping';
+  }
+}
+
+// Stop the test, report the results and exit
+async function stopTest(reason: string): Promise<void> {
+  if (isStopping) return;
+  isStopping = true;
+
+  logger.info(`Stopping test: ${reason}`);
+
+  if (statusServer) {
+    statusServer.markStopping();
+  }
+  if (startBarrier) {
+    startBarrier.cancel();
+  }
+
+  if (statusInterval) {
+    clearInterval(statusInterval);
+    statusInterval = null;
+  }
+  if (durationTimer) {
+    clearTimeout(durationTimer);
+    durationTimer = null;
+  }
+  if (thresholdInterval) {
+    clearInterval(thresholdInterval);
+    thresholdInterval = null;
+  }
+
+  try {
+    if (config.testMode === TestMode.WEBSOCKET) {
+      await webSocketManager.shutdown();
+    } else {
+      await httpManager.shutdown();
+    }
+  } catch (error) {
+    logger.error(`Error during shutdown: ${(error as Error).message}`);
+  }
+
+  if (commandChannel) {
+    await commandChannel.close();
+  }
+
+  // Publish the final snapshot so the aggregator knows this runner is done
+  if (snapshotPublisher) {
+    await snapshotPublisher.stop();
+  }
+
+  // Return unused test data and release the data source
+  await testDataSource.close();
+
+  // Let the next test wait for its runners again
+  if (startBarrier) {
+    await startBarrier.finish();
+  }
+
+  // Redis is also used without Redis test data, e.g. by the start barrier
+  if (redisClient) {
+    await redisClient.close();
+  }
+
+  const summary = buildSummary(reason, testStartTime);
+  printSummary(summary);
+  await writeSummary(summary, config.summaryFile);
+
+  if (statusServer) {
+    await statusServer.close();
+  }
+
+  process.exit(summary.exitCode);
+}
+
+// Connection counts of the active manager
+function getConnectionStats(): { total: number, active: number } {
+  return config.testMode === TestMode.WEBSOCKET
+    ? webSocketManager.getConnectionStats()
+    : httpManager.getConnectionStats();
+}
+
 // Start the application
 async function start(): Promise<void> {
   try {
     printBanner();
 
+    // Handle process termination
+    process.on('SIGINT', () => {
+      logger.info('Received SIGINT signal');
+      stopTest('SIGINT received');
+    });
+
+    process.on('SIGTERM', () => {
+      logger.info('Received SIGTERM signal');
+      stopTest('SIGTERM received');
+    });
+
+    // Expose live state over HTTP for probes and scrapers
+    if (config.statusPort > 0) {
+      statusServer = new StatusServer(config.statusPort, getConnectionStats);
+      await statusServer.start();
+    }
+
+    // Wait for the other replicas so that all runners start at the same time
+    if (config.startBarrier && redisClient) {
+      startBarrier = new StartBarrier(redisClient.getClient());
+      const startTime = await startBarrier.wait();
+      if (startTime === null || isStopping) return;
+      testStartTime = startTime;
+    }
+
+    // Let an operator adjust the test while it runs
+    if (config.commandChannel && redisClient) {
+      commandChannel = new CommandChannel(redisClient.getClient(), handleCommand);
+      await commandChannel.start();
+    }
+
+    // Share mergeable stats with the fleet aggregator
+    if (config.publishSnapshots && redisClient) {
+      snapshotPublisher = new SnapshotPublisher(redisClient.getClient(), getConnectionStats);
+      await snapshotPublisher.start(testStartTime);
+    }
+
+    // End the test automatically once the configured duration has elapsed
+    if (config.testDurationMs > 0) {
+      durationTimer = setTimeout(() => {
+        stopTest(`test duration of ${config.testDurationMs}ms elapsed`);
+      }, config.testDurationMs);
+    }
+
+    // Abort the test early once a threshold can no longer pass
+    if (config.thresholdsAbortOnFail && thresholds.length > 0) {
+      thresholdInterval = setInterval(() => {
+        const breach = findIrrecoverableBreach(buildSummary('threshold check', testStartTime));
+        if (breach) {
+          logger.error(`Threshold '${breach.expression}' breached with value ${breach.actual}, aborting test`);
+          stopTest(`threshold '${breach.expression}' breached`);
+        }
+      }, 5000);
+    }
+
     // Initialize the appropriate manager based on test mode
     if (config.testMode === TestMode.WEBSOCKET) {
       await webSocketManager.initialize();
     } else {
+      // End the test once the open-model schedule has run, rather than idling until the test duration
+      httpManager.setScheduleCompleteHandler(() => stopTest('schedule complete'));
       await httpManager.initialize();
     }
 
+    // The test may have been stopped while the manager was initializing
+    if (isStopping) return;
+
     // Start periodic status logging
-    const statusInterval = setInterval(() => {
-      const connStats = config.testMode === TestMode.WEBSOCKET
-        ? webSocketManager.getConnectionStats()
-        : httpManager.getConnectionStats();
+    statusInterval = setInterval(() => {
+      const connStats = getConnectionStats();
 
       logger.info('-'.repeat(40));
       logger.info(`Status update - Runner ID: ${config.runnerId}`);
       logger.info(`Test mode: ${config.testMode}`);
       logger.info(`Total connections: ${connStats.total}, Active: ${connStats.active}`);
 
+      const stage = statsManager.getCurrentStage();
+      if (stage) {
+        logger.info(`Current stage: ${stage}`);
+      }
+
       if (config.testMode === TestMode.WEBSOCKET) {
         // WebSocket specific stats
         const wsStats = statsManager.getWebSocketStats();
         logger.info(`Connection attempts: ${wsStats.totalAttempted}`);
         logger.info(`Open connections: ${wsStats.currentOpen}`);
         logger.info(`Closed connections: ${wsStats.totalClosed}`);
-        logger.info(`Connection errors: ${wsStats.totalErrors}`);
+        logger.info(`Connection errors: ${wsStats.totalErrors}${formatErrorCategories(wsStats.errorsByCategory)}`);
+        logger.info(`Close codes: ${formatCodeCounts(wsStats.closeCodes)}`);
         logger.info(`Average connect time: ${wsStats.averageConnectTime.toFixed(2)}ms`);
+        logger.info(`Connect time: ${formatPercentiles(wsStats.connectTimePercentiles)}`);
         logger.info(`Success rate: ${wsStats.successRate.toFixed(2)}%`);
+        logger.info(`Messages sent: ${wsStats.messagesSent}, received: ${wsStats.messagesReceived}, timeouts: ${wsStats.messageTimeouts}, unanswered on close: ${wsStats.messagesUnanswered}`);
+        if (config.wsCorrelationPath) {
+          logger.info(`Average message latency: ${wsStats.averageMessageLatency.toFixed(2)}ms`);
+          logger.info(`Message latency: ${formatPercentiles(wsStats.messageLatencyPercentiles)}`);
+        }
       } else {
         // HTTP specific stats
         const httpStats = statsManager.getHttpStats();
         logger.info(`Connection attempts: ${httpStats.totalAttempted}`);
         logger.info(`Successful connections: ${httpStats.totalSuccessful}`);
-        logger.info(`Connection errors: ${httpStats.totalErrors}`);
+        logger.info(`Connection errors: ${httpStats.totalErrors}${formatErrorCategories(httpStats.errorsByCategory)}`);
+        logger.info(`Status codes: ${formatCodeCounts(httpStats.statusCodes)}`);
         logger.info(`Average response time: ${httpStats.averageResponseTime.toFixed(2)}ms`);
+        logger.info(`Response time: ${formatPercentiles(httpStats.responseTimePercentiles)}`);
+        for (const [phase, metric] of Object.entries(HTTP_PHASE_METRICS) as [HttpPhase, string][]) {
+          logger.info(`${metric}: ${formatPercentiles(httpStats.phaseTimePercentiles[phase])}`);
+        }
+        if (config.httpLoadModel === HttpLoadModel.OPEN) {
+          logger.info(`Corrected response time: ${formatPercentiles(httpStats.correctedResponseTimePercentiles)}`);
+          logger.info(`Dropped iterations: ${httpStats.droppedIterations}, late iterations: ${httpStats.lateIterations}`);
+        }
+        logger.info(`Sockets opened: ${httpStats.socketsOpened}, reused: ${httpStats.socketsReused}`);
         logger.info(`Success rate: ${httpStats.successRate.toFixed(2)}%`);
       }
 
       logger.info('-'.repeat(40));
     }, 30000); // Log status every 30 seconds
 
-    // Handle process termination
-    process.on('SIGINT', async () => {
-      logger.info('Received SIGINT signal');
-      clearInterval(statusInterval);
-      if (config.testMode === TestMode.WEBSOCKET) {
-        await webSocketManager.shutdown();
-      } else {
-        await httpManager.shutdown();
-      }
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', async () => {
-      logger.info('Received SIGTERM signal');
-      clearInterval(statusInterval);
-      if (config.testMode === TestMode.WEBSOCKET) {
-        await webSocketManager.shutdown();
-      } else {
-        await httpManager.shutdown();
-      }
-      process.exit(0);
-    });
-
     logger.info(`${config.testMode} Load Tester started successfully`);
   } catch (error) {
+    // Shutting down already reports the outcome and exits
+    if (isStopping) return;
     logger.error(`Failed to start application: ${(error as Error).message}`);
-    process.exit(1);
+    process.exit(ExitCode.ERROR);
   }
 }
 
 // Start the application
 start().catch(error => {
   logger.error(`Unhandled error: ${error.message}`);
-  process.exit(1);
+  process.exit(ExitCode.ERROR);
 });
@@ -0,0 +1,54 @@
+import { getJsonPath, setJsonPath } from './json-path';
+
+describe('getJsonPath', () => {
+  const value = { data: { items: [{ id: 7 }, { id: 8, tags: ['a'] }], total: 0, empty: null } };
+
+  it('reads nested keys and array indexes', () => {
+    expect(getJsonPath(value, '$.data.items[1].id')).toBe(8);
+    expect(getJsonPath(value, 'data.items.0.id')).toBe(7);
+    expect(getJsonPath(value, '$.data.items[1].tags[0]')).toBe('a');
+    expect(getJsonPath(value, '$.data.total')).toBe(0);
+  });
+
+  it('returns the whole value for the root path', () => {
+    expect(getJsonPath(value, '$')).toBe(value);
+    expect(getJsonPath(value, '')).toBe(value);
+  });
+
+  it('returns undefined when a part of the path is missing', () => {
+    expect(getJsonPath(value, '$.data.missing.id')).toBeUndefined();
+    expect(getJsonPath(value, '$.data.items[5].id')).toBeUndefined();
+    expect(getJsonPath(value, '$.data.empty.id')).toBeUndefined();
+    expect(getJsonPath(value, '$.data.total.id')).toBeUndefined();
+    expect(getJsonPath('text', '$.length.value')).toBeUndefined();
+  });
+});
+
+describe('setJsonPath', () => {
+  it('writes nested keys, creating the objects on the way', () => {
+    const target: Record<string, unknown> = { meta: { keep: true } };
+    setJsonPath(target, '$.meta.id', 'x');
+    setJsonPath(target, '$.request.user.name', 'ada');
+
+    expect(target).toEqual({ meta: { keep: true, id: 'x' }, request: { user: { name: 'ada' } } });
+  });
+
+  it('replaces values that are in the way of the path', () => {
+    const target: Record<string, unknown> = { meta: 'text', other: null };
+    setJsonPath(target, 'meta.id', 1);
+    setJsonPath(target, 'other.id', 2);
+
+    expect(target).toEqual({ meta: { id: 1 }, other: { id: 2 } });
+  });
+
+  it('writes array elements by index', () => {
+    const target: Record<string, unknown> = { items: [{ id: 1 }] };
+    setJsonPath(target, '$.items[0].id', 2);
+
+    expect(target).toEqual({ items: [{ id: 2 }] });
+  });
+
+  it('rejects the root path', () => {
+    expect(() => setJsonPath({}, '$', 1)).toThrow('Invalid JSON path: $');
+  });
+});
@@ -0,0 +1,43 @@
+// Split a path such as "$.data.items[0].id" into its keys
+function parsePath(jsonPath: string): string[] {
+  const normalized = jsonPath.replace(/^\$\.?/, '');
+  if (!normalized) return [];
+
+  return normalized
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(key => key.length > 0);
+}
+
+// Read the value at a dot-separated path, or undefined if any part is missing
+export function getJsonPath(value: unknown, jsonPath: string): unknown {
+  let current: unknown = value;
+
+  for (const key of parsePath(jsonPath)) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+// Write a value at a dot-separated path, creating intermediate objects as needed
+export function setJsonPath(target: Record<string, unknown>, jsonPath: string, newValue: unknown): void {
+  const keys = parsePath(jsonPath);
+  if (keys.length === 0) {
+    throw new Error(`Invalid JSON path: ${jsonPath}`);
+  }
+
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    if (next === null || typeof next !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  current[keys[keys.length - 1]] = newValue;
+}
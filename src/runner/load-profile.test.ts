@@ -0,0 +1,113 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+
+import type { LoadStage } from './config';
+
+const STAGES: LoadStage[] = [
+  { name: 'ramp-up', durationMs: 10000, target: 10 },
+  { name: 'hold', durationMs: 5000, target: 10 },
+  { name: 'ramp-down', durationMs: 5000, target: 0 }
+];
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: 0 });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('LoadProfileRunner', () => {
+  it('moves the target linearly through the stages and applies the final target', async () => {
+    const { LoadProfileRunner } = await import('./load-profile');
+    const targets: number[] = [];
+    const runner = new LoadProfileRunner(STAGES, async target => {
+      targets.push(target);
+    });
+    let finished = false;
+    runner.run().then(() => finished = true);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(targets).toEqual([0]);
+    expect(runner.getCurrentStage()).toBe('ramp-up');
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(targets[targets.length - 1]).toBe(5);
+
+    await jest.advanceTimersByTimeAsync(7000);
+    expect(targets[targets.length - 1]).toBe(10);
+    expect(runner.getCurrentStage()).toBe('hold');
+
+    await jest.advanceTimersByTimeAsync(5500);
+    expect(runner.getCurrentStage()).toBe('ramp-down');
+    expect(finished).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(targets[targets.length - 1]).toBe(0);
+    expect(finished).toBe(true);
+  });
+
+  it('does not count paused time towards the stages', async () => {
+    const { LoadProfileRunner } = await import('./load-profile');
+    const targets: number[] = [];
+    const runner = new LoadProfileRunner(STAGES, async target => {
+      targets.push(target);
+    });
+    runner.run();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    runner.pause();
+    const appliedWhenPaused = targets.length;
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(targets).toHaveLength(appliedWhenPaused);
+
+    runner.resume();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(targets[targets.length - 1]).toBe(5);
+    expect(runner.getCurrentStage()).toBe('ramp-up');
+    runner.stop();
+  });
+
+  it('skips ticks while a target is still being applied, but always applies the final target', async () => {
+    const { LoadProfileRunner } = await import('./load-profile');
+    const targets: number[] = [];
+    let release: () => void = () => {};
+    const runner = new LoadProfileRunner([{ name: 'ramp-up', durationMs: 3000, target: 30 }], target => {
+      targets.push(target);
+      // The first target takes longer to apply than the whole profile
+      return targets.length === 1 ? new Promise<void>(resolve => release = resolve) : Promise.resolve();
+    });
+    let finished = false;
+    runner.run().then(() => finished = true);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(targets).toEqual([0]);
+    expect(finished).toBe(false);
+
+    release();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(targets).toEqual([0, 30]);
+    expect(finished).toBe(true);
+  });
+
+  it('stops following the profile when stopped', async () => {
+    const { LoadProfileRunner } = await import('./load-profile');
+    const targets: number[] = [];
+    const runner = new LoadProfileRunner(STAGES, async target => {
+      targets.push(target);
+    });
+    const run = runner.run();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    runner.stop();
+    await run;
+    const appliedWhenStopped = targets.length;
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(targets).toHaveLength(appliedWhenStopped);
+  });
+});
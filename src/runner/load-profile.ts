@@ -0,0 +1,141 @@
+import { LoadStage } from './config';
+import logger from './logger';
+import { statsManager } from './stats';
+
+// Interval at which the target is recomputed and applied
+const TICK_INTERVAL_MS = 1000;
+
+// Drives a manager through a multi-stage load profile.
+// Each stage moves the target linearly from the previous stage's target to its own
+// over its duration, so a stage with the same target as the previous one holds steady.
+export class LoadProfileRunner {
+  private stages: LoadStage[];
+  private applyTarget: (target: number) => Promise<void>;
+  private timer: NodeJS.Timeout | null = null;
+  private startTime: number = 0;
+  private currentStageIndex: number = -1;
+  private applying: Promise<void> | null = null;
+  private onFinished: (() => void) | null = null;
+  private pausedAt: number | null = null;
+
+  constructor(stages: LoadStage[], applyTarget: (target: number) => Promise<void>) {
+    this.stages = stages;
+    this.applyTarget = applyTarget;
+  }
+
+  // Run the profile; resolves when the last stage has completed
+  public run(): Promise<void> {
+    const totalMs = this.stages.reduce((sum, stage) => sum + stage.durationMs, 0);
+    logger.info(`Starting load profile with ${this.stages.length} stages over ${totalMs}ms: ` +
+      this.stages.map(stage => `${stage.name} → ${stage.target} in ${stage.durationMs}ms`).join(', '));
+
+    this.startTime = Date.now();
+
+    return new Promise<void>((resolve) => {
+      this.onFinished = resolve;
+      this.tick();
+      this.timer = setInterval(this.tick.bind(this), TICK_INTERVAL_MS);
+    });
+  }
+
+  // Stop following the profile
+  public stop(): void {
+    this.pausedAt = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.onFinished) {
+      const onFinished = this.onFinished;
+      this.onFinished = null;
+      onFinished();
+    }
+  }
+
+  // Freeze the profile at its current target
+  public pause(): void {
+    if (this.pausedAt !== null || !this.timer) return;
+
+    this.pausedAt = Date.now();
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Continue the profile where it was paused
+  public resume(): void {
+    if (this.pausedAt === null) return;
+
+    // Paused time does not count towards the stage durations
+    this.startTime += Date.now() - this.pausedAt;
+    this.pausedAt = null;
+    if (this.onFinished) {
+      this.timer = setInterval(this.tick.bind(this), TICK_INTERVAL_MS);
+    }
+  }
+
+  // Name of the stage currently running
+  public getCurrentStage(): string | null {
+    const stage = this.stages[this.currentStageIndex];
+    return stage ? stage.name : null;
+  }
+
+  // Compute the stage and target for the elapsed time
+  private getTargetAt(elapsedMs: number): { stageIndex: number, target: number } {
+    let stageStart = 0;
+    let previousTarget = 0;
+
+    for (let i = 0; i < this.stages.length; i++) {
+      const stage = this.stages[i];
+      if (elapsedMs < stageStart + stage.durationMs) {
+        const progress = stage.durationMs === 0 ? 1 : (elapsedMs - stageStart) / stage.durationMs;
+        return {
+          stageIndex: i,
+          target: Math.round(previousTarget + (stage.target - previousTarget) * progress)
+        };
+      }
+      stageStart += stage.durationMs;
+      previousTarget = stage.target;
+    }
+
+    return { stageIndex: this.stages.length, target: previousTarget };
+  }
+
+  // Move to the current stage and apply its target
+  private async tick(): Promise<void> {
+    const { stageIndex, target } = this.getTargetAt(Date.now() - this.startTime);
+
+    if (stageIndex !== this.currentStageIndex && stageIndex < this.stages.length) {
+      this.currentStageIndex = stageIndex;
+      const stage = this.stages[stageIndex];
+      logger.info(`Entering stage '${stage.name}' (target ${stage.target} in ${stage.durationMs}ms)`);
+      statsManager.setStage(stage.name);
+    }
+
+    const finished = stageIndex >= this.stages.length;
+    if (finished && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    // Skip this tick if the previous target is still being applied, except for the final target
+    if (this.applying) {
+      if (!finished) return;
+      await this.applying;
+    }
+
+    this.applying = this.applyTarget(target)
+      .catch(error => {
+        logger.error(`Failed to apply load profile target ${target}: ${(error as Error).message}`);
+      })
+      .finally(() => {
+        this.applying = null;
+      });
+    await this.applying;
+
+    if (finished) {
+      logger.info(`Load profile completed, holding final target of ${target}`);
+      this.stop();
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { config } from './config';
+import logger from './logger';
+import { readCsvRows } from '../data-loader/csv-reader';
+import { TestDataRow, TestDataSource } from './data-source';
+import { randomSeed, rowIndexAt } from './data-distribution';
+
+// Serves test data rows from a local CSV file, for runs without Redis
+export class LocalDataSource implements TestDataSource {
+  public readonly description: string;
+  private csvPath: string;
+  private rows: TestDataRow[] = [];
+  private nextPosition: number = 0;
+  private seed: number = randomSeed();
+
+  // An empty path means the run has no test data
+  constructor(csvPath: string) {
+    this.csvPath = csvPath;
+    this.description = csvPath ? `CSV file ${csvPath}` : 'no data source';
+  }
+
+  // Read the CSV file, keeping the rows up to DATA_LEVEL
+  public async loadTestData(): Promise<boolean> {
+    if (!this.csvPath) {
+      logger.info('No test data source configured');
+      return false;
+    }
+
+    try {
+      const { headers, rows } = await readCsvRows(this.csvPath, config.dataLevel);
+      logger.info(`CSV headers: ${headers.join(', ')}`);
+      logger.info(`Read ${rows.length} rows with level <= ${config.dataLevel} from ${this.csvPath}`);
+
+      this.rows = rows;
+      this.nextPosition = 0;
+      return rows.length > 0;
+    } catch (error) {
+      logger.error(`Failed to read test data from ${this.csvPath}: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  // Take the next row in DATA_DISTRIBUTION order
+  public async popTestData(): Promise<TestDataRow | null> {
+    if (config.maxRowsPerRunner > 0 && this.nextPosition >= config.maxRowsPerRunner) {
+      return null;
+    }
+
+    const index = rowIndexAt(this.nextPosition, this.rows.length, config.dataDistribution, this.seed);
+    if (index === null) {
+      return null;
+    }
+
+    this.nextPosition++;
+    return this.rows[index];
+  }
+
+  // Read the first row without taking it
+  public async peekTestData(): Promise<TestDataRow | null> {
+    return this.rows.length > 0 ? this.rows[0] : null;
+  }
+
+  // Number of rows read from the file
+  public getTestDataCount(): number {
+    return this.rows.length;
+  }
+
+  // Number of rows taken so far
+  public getConsumedCount(): number {
+    return this.nextPosition;
+  }
+
+  // Nothing to release
+  public async close(): Promise<void> {}
+}
@@ -0,0 +1,84 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+process.env.WS_CORRELATION_PATH = 'meta.id';
+process.env.WS_RESPONSE_TIMEOUT_MS = '1000';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+afterAll(async () => {
+  const { statsManager } = await import('./stats');
+  await statsManager.close();
+});
+
+// Message counters of the stats manager, as changes from when the function was called
+async function trackCounters(): Promise<() => { received: number, timeouts: number, unanswered: number }> {
+  const { statsManager } = await import('./stats');
+  const counters = () => {
+    const stats = statsManager.getWebSocketStats();
+    return { received: stats.messagesReceived, timeouts: stats.messageTimeouts, unanswered: stats.messagesUnanswered };
+  };
+  const before = counters();
+  return () => {
+    const after = counters();
+    return {
+      received: after.received - before.received,
+      timeouts: after.timeouts - before.timeouts,
+      unanswered: after.unanswered - before.unanswered
+    };
+  };
+}
+
+describe('MessageTracker', () => {
+  it('adds a correlation id and times the reply carrying it', async () => {
+    const { MessageTracker } = await import('./message-tracker');
+    const changes = await trackCounters();
+    const tracker = new MessageTracker(3);
+
+    const sent = JSON.parse(tracker.prepareOutgoing('{"type": "subscribe"}'));
+    expect(sent.meta.id).toMatch(/-3-1$/);
+
+    jest.advanceTimersByTime(200);
+    tracker.handleIncoming(JSON.stringify({ meta: { id: sent.meta.id } }));
+    jest.advanceTimersByTime(2000);
+
+    expect(changes()).toEqual({ received: 1, timeouts: 0, unanswered: 0 });
+  });
+
+  it('counts a timeout when no reply arrives in time', async () => {
+    const { MessageTracker } = await import('./message-tracker');
+    const changes = await trackCounters();
+    const tracker = new MessageTracker(1);
+
+    tracker.prepareOutgoing('{"meta": {"id": "a"}}');
+    jest.advanceTimersByTime(1000);
+    tracker.handleIncoming('{"meta": {"id": "a"}}');
+
+    expect(changes()).toEqual({ received: 1, timeouts: 1, unanswered: 0 });
+  });
+
+  it('counts the messages still waiting for a reply as unanswered when stopped', async () => {
+    const { MessageTracker } = await import('./message-tracker');
+    const changes = await trackCounters();
+    const tracker = new MessageTracker(1);
+
+    tracker.prepareOutgoing('{"meta": {"id": "a"}}');
+    tracker.prepareOutgoing('{"meta": {"id": "b"}}');
+    tracker.prepareOutgoing('{"meta": {"id": "c"}}');
+    tracker.handleIncoming('{"meta": {"id": "b"}}');
+    tracker.stop();
+    // Their timeouts no longer fire
+    jest.advanceTimersByTime(2000);
+    tracker.stop();
+
+    expect(changes()).toEqual({ received: 1, timeouts: 0, unanswered: 2 });
+  });
+});
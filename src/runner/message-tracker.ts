@@ -0,0 +1,107 @@
+import { config } from './config';
+import logger from './logger';
+import { statsManager } from './stats';
+import { getJsonPath, setJsonPath } from './json-path';
+
+interface PendingMessage {
+  sentAt: number;
+  timer: NodeJS.Timeout;
+}
+
+// Tracks messages sent on a WebSocket connection and times the matching replies
+export class MessageTracker {
+  private connectionId: number;
+  private sequence: number = 0;
+  private pending: Map<string, PendingMessage> = new Map();
+
+  constructor(connectionId: number) {
+    this.connectionId = connectionId;
+  }
+
+  // Record an outgoing message, adding a correlation id when correlation is enabled
+  public prepareOutgoing(message: string): string {
+    statsManager.messageSent();
+
+    if (!config.wsCorrelationPath) {
+      return message;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message);
+    } catch {
+      logger.debug(`Connection ${this.connectionId}: Outgoing message is not JSON, latency will not be tracked`);
+      return message;
+    }
+
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return message;
+    }
+
+    // Keep an id already present in the message, otherwise generate one
+    let correlationId = getJsonPath(payload, config.wsCorrelationPath);
+    if (correlationId === undefined || correlationId === null || correlationId === '') {
+      correlationId = `${config.runnerId}-${this.connectionId}-${++this.sequence}`;
+      setJsonPath(payload as Record<string, unknown>, config.wsCorrelationPath, correlationId);
+    }
+
+    this.track(String(correlationId));
+    return JSON.stringify(payload);
+  }
+
+  // Record an incoming message and resolve the pending request it answers, if any
+  public handleIncoming(message: string): void {
+    if (!config.wsCorrelationPath || this.pending.size === 0) {
+      statsManager.messageReceived();
+      return;
+    }
+
+    let correlationId: unknown;
+    try {
+      correlationId = getJsonPath(JSON.parse(message), config.wsCorrelationPath);
+    } catch {
+      correlationId = undefined;
+    }
+
+    const pendingMessage = correlationId !== undefined ? this.pending.get(String(correlationId)) : undefined;
+    if (!pendingMessage) {
+      statsManager.messageReceived();
+      return;
+    }
+
+    clearTimeout(pendingMessage.timer);
+    this.pending.delete(String(correlationId));
+
+    const latency = Date.now() - pendingMessage.sentAt;
+    logger.debug(`Connection ${this.connectionId}: Reply to ${correlationId} received in ${latency}ms`);
+    statsManager.messageReceived(latency);
+  }
+
+  // Count the messages still waiting for a reply as unanswered when the connection goes away
+  public stop(): void {
+    if (this.pending.size === 0) return;
+
+    for (const pendingMessage of this.pending.values()) {
+      clearTimeout(pendingMessage.timer);
+    }
+    logger.debug(`Connection ${this.connectionId}: Closed with ${this.pending.size} messages waiting for a reply`);
+    statsManager.messagesUnanswered(this.pending.size);
+    this.pending.clear();
+  }
+
+  // Start waiting for the reply to a message
+  private track(correlationId: string): void {
+    const existing = this.pending.get(correlationId);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const timer = setTimeout(() => {
+      this.pending.delete(correlationId);
+      logger.warn(`Connection ${this.connectionId}: No reply to ${correlationId} within ${config.wsResponseTimeoutMs}ms`);
+      statsManager.messageTimeout();
+    }, config.wsResponseTimeoutMs);
+
+    this.pending.set(correlationId, { sentAt: Date.now(), timer });
+  }
+}
@@ -0,0 +1,30 @@
+// Lets loops that generate load wait while the test is paused
+export class PauseGate {
+  private paused: boolean = false;
+  private waiters: (() => void)[] = [];
+
+  // Hold loops at their next wait()
+  public pause(): void {
+    this.paused = true;
+  }
+
+  // Release every waiting loop
+  public resume(): void {
+    this.paused = false;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter();
+    }
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Resolve immediately, or once the test is resumed
+  public wait(): Promise<void> {
+    if (!this.paused) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+}
@@ -0,0 +1,67 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+process.env.RUNNER_ID = 'runner-7';
+
+describe('PrometheusWriter', () => {
+  it('declares each metric once, before its first sample', async () => {
+    const { PrometheusWriter } = await import('./prometheus-writer');
+    const writer = new PrometheusWriter();
+
+    writer.sample('loadtest_errors_total', 'counter', 'Errors by cause', 3, { category: 'timeout' });
+    writer.sample('loadtest_errors_total', 'counter', 'Errors by cause', 1, { category: 'refused' });
+    writer.sample('loadtest_open_connections', 'gauge', 'Open connections', 25);
+
+    expect(writer.toString()).toBe([
+      '# HELP loadtest_errors_total Errors by cause',
+      '# TYPE loadtest_errors_total counter',
+      'loadtest_errors_total{runner_id="runner-7",category="timeout"} 3',
+      'loadtest_errors_total{runner_id="runner-7",category="refused"} 1',
+      '# HELP loadtest_open_connections Open connections',
+      '# TYPE loadtest_open_connections gauge',
+      'loadtest_open_connections{runner_id="runner-7"} 25',
+      ''
+    ].join('\n'));
+  });
+
+  it('adds the samples of a family under the declaration of the metric', async () => {
+    const { PrometheusWriter } = await import('./prometheus-writer');
+    const writer = new PrometheusWriter();
+
+    writer.sample('loadtest_latency_ms', 'summary', 'Latency', 12, { quantile: '0.5' });
+    writer.sample('loadtest_latency_ms', 'summary', 'Latency', 40, { quantile: '0.99' });
+    writer.familySample('loadtest_latency_ms_sum', 1500);
+    writer.familySample('loadtest_latency_ms_count', 100);
+
+    expect(writer.toString()).toBe([
+      '# HELP loadtest_latency_ms Latency',
+      '# TYPE loadtest_latency_ms summary',
+      'loadtest_latency_ms{runner_id="runner-7",quantile="0.5"} 12',
+      'loadtest_latency_ms{runner_id="runner-7",quantile="0.99"} 40',
+      'loadtest_latency_ms_sum{runner_id="runner-7"} 1500',
+      'loadtest_latency_ms_count{runner_id="runner-7"} 100',
+      ''
+    ].join('\n'));
+  });
+
+  it('escapes label values', async () => {
+    const { PrometheusWriter } = await import('./prometheus-writer');
+    const writer = new PrometheusWriter();
+
+    writer.sample('loadtest_errors_total', 'counter', 'Errors', 1, { message: 'say "hi"\\n\nnext' });
+
+    expect(writer.toString()).toContain('loadtest_errors_total{runner_id="runner-7",message="say \\"hi\\"\\\\n\\nnext"} 1\n');
+  });
+
+  it('writes values that are not finite as zero', async () => {
+    const { PrometheusWriter } = await import('./prometheus-writer');
+    const writer = new PrometheusWriter();
+
+    writer.sample('loadtest_rate', 'gauge', 'Rate', NaN);
+    writer.familySample('loadtest_rate', Infinity, { kind: 'max' });
+
+    expect(writer.toString()).toContain('loadtest_rate{runner_id="runner-7"} 0\nloadtest_rate{runner_id="runner-7",kind="max"} 0\n');
+  });
+});
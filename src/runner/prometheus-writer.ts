@@ -0,0 +1,38 @@
+import { config } from './config';
+
+// Escape a label value for the Prometheus text format
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+// Format a label set, always including the runner id
+function formatLabels(labels: Record<string, string> = {}): string {
+  const allLabels: Record<string, string> = { runner_id: config.runnerId, ...labels };
+  return `{${Object.entries(allLabels).map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+// Builds a Prometheus text exposition, grouping samples under their metric headers
+export class PrometheusWriter {
+  private lines: string[] = [];
+  private declared: Set<string> = new Set();
+
+  // Add a sample, declaring the metric the first time it is seen
+  public sample(name: string, type: 'counter' | 'gauge' | 'summary', help: string, value: number, labels: Record<string, string> = {}): void {
+    if (!this.declared.has(name)) {
+      this.declared.add(name);
+      this.lines.push(`# HELP ${name} ${help}`);
+      this.lines.push(`# TYPE ${name} ${type}`);
+    }
+    this.lines.push(`${name}${formatLabels(labels)} ${Number.isFinite(value) ? value : 0}`);
+  }
+
+  // Add a sample belonging to an already declared metric family, such as a summary's _sum and _count
+  public familySample(name: string, value: number, labels: Record<string, string> = {}): void {
+    this.lines.push(`${name}${formatLabels(labels)} ${Number.isFinite(value) ? value : 0}`);
+  }
+
+  // Render the exposition text
+  public toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+}
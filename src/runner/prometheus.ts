@@ -0,0 +1,62 @@
+import { config, TestMode } from './config';
+import { statsManager } from './stats';
+import { Histogram } from './histogram';
+import { PrometheusWriter } from './prometheus-writer';
+
+// Render the runner statistics in the Prometheus text format
+export function formatPrometheusMetrics(connectionStats: { total: number, active: number }): string {
+  const writer = new PrometheusWriter();
+  const mode = { mode: config.testMode };
+
+  writer.sample('loadtest_connections', 'gauge', 'Connections managed by the runner', connectionStats.total, mode);
+  writer.sample('loadtest_active_connections', 'gauge', 'Connections currently active', connectionStats.active, mode);
+
+  const stats = config.testMode === TestMode.WEBSOCKET ? statsManager.getWebSocketStats() : statsManager.getHttpStats();
+  writer.sample('loadtest_attempts_total', 'counter', 'Connection or request attempts', stats.totalAttempted, mode);
+  writer.sample('loadtest_errors_total', 'counter', 'Connection or request errors', stats.totalErrors, mode);
+  for (const [category, count] of Object.entries(stats.errorsByCategory)) {
+    writer.sample('loadtest_errors_by_category_total', 'counter', 'Errors by cause', count, { ...mode, category });
+  }
+  writer.sample('loadtest_success_rate', 'gauge', 'Success rate in percent', stats.successRate, mode);
+
+  if (config.testMode === TestMode.WEBSOCKET) {
+    const wsStats = statsManager.getWebSocketStats();
+    writer.sample('loadtest_ws_open_connections', 'gauge', 'WebSocket connections currently open', wsStats.currentOpen);
+    writer.sample('loadtest_ws_closed_total', 'counter', 'WebSocket connections closed', wsStats.totalClosed);
+    writer.sample('loadtest_ws_messages_sent_total', 'counter', 'WebSocket messages sent', wsStats.messagesSent);
+    writer.sample('loadtest_ws_messages_received_total', 'counter', 'WebSocket messages received', wsStats.messagesReceived);
+    writer.sample('loadtest_ws_message_timeouts_total', 'counter', 'WebSocket messages without a reply in time', wsStats.messageTimeouts);
+    writer.sample('loadtest_ws_messages_unanswered_total', 'counter', 'WebSocket messages still waiting for a reply when their connection closed', wsStats.messagesUnanswered);
+    for (const [code, count] of Object.entries(wsStats.closeCodes)) {
+      writer.sample('loadtest_ws_close_codes_total', 'counter', 'WebSocket closes by close code', count, { code });
+    }
+  } else {
+    const httpStats = statsManager.getHttpStats();
+    writer.sample('loadtest_http_successful_total', 'counter', 'Successful HTTP requests', httpStats.totalSuccessful);
+    writer.sample('loadtest_http_dropped_iterations_total', 'counter', 'Open-model iterations dropped', httpStats.droppedIterations);
+    writer.sample('loadtest_http_late_iterations_total', 'counter', 'Open-model iterations started late', httpStats.lateIterations);
+    writer.sample('loadtest_http_sockets_opened_total', 'counter', 'Sockets opened by the HTTP agents', httpStats.socketsOpened);
+    writer.sample('loadtest_http_sockets_reused_total', 'counter', 'HTTP requests sent on a kept-alive socket', httpStats.socketsReused);
+    for (const [code, count] of Object.entries(httpStats.statusCodes)) {
+      writer.sample('loadtest_http_status_codes_total', 'counter', 'HTTP responses by status code', count, { code });
+    }
+  }
+
+  for (const [check, checkStats] of Object.entries(statsManager.getCheckStats())) {
+    writer.sample('loadtest_checks_total', 'counter', 'Response and message checks by outcome', checkStats.passes, { ...mode, check, result: 'pass' });
+    writer.sample('loadtest_checks_total', 'counter', 'Response and message checks by outcome', checkStats.failures, { ...mode, check, result: 'fail' });
+  }
+
+  // Latency histograms as summaries with quantiles in milliseconds
+  for (const [metric, snapshot] of Object.entries(statsManager.getHistogramSnapshots())) {
+    const histogram = Histogram.fromSnapshot(snapshot);
+    for (const quantile of [0.5, 0.9, 0.95, 0.99]) {
+      const value = histogram.percentile(quantile * 100);
+      writer.sample('loadtest_latency_ms', 'summary', 'Latency in milliseconds', value, { metric, quantile: quantile.toString() });
+    }
+    writer.familySample('loadtest_latency_ms_sum', snapshot.sum, { metric });
+    writer.familySample('loadtest_latency_ms_count', snapshot.count, { metric });
+  }
+
+  return writer.toString();
+}
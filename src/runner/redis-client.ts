@@ -1,20 +1,69 @@
 import Redis from 'ioredis';
-import { config } from './config';
+import { config, DataAccessMode, DataSharing } from './config';
 import logger from './logger';
+import { TestDataRow, TestDataSource } from './data-source';
+import { randomSeed, rowIndexAt } from './data-distribution';
 
-// Interface for test data row
-export interface TestDataRow {
-  level: string;
-  [key: string]: string;
+// Shared read position, shuffle seed and positions given back by stopped runners, for the rows
+// read by index (DATA_ACCESS=index, DATA_SHARING=unique)
+export const DATA_CURSOR_KEY = 'test:data:cursor';
+export const DATA_SEED_KEY = 'test:data:seed';
+export const DATA_RETURNED_KEY = 'test:data:returned';
+// Number of runners reading the rows by index; the first one of a test rewinds the read position
+export const DATA_READERS_KEY = 'test:data:readers';
+
+// How long the reader count is kept when the test runs until it is stopped
+const UNTIL_STOPPED_EXPIRY_SECONDS = 24 * 3600;
+
+// Count a reader in and, if it is the first one, rewind the read position in the same step,
+// so that no other runner reads the position or the seed of the previous test
+const REGISTER_READER_SCRIPT = `
+local readers = redis.call('INCR', KEYS[1])
+redis.call('EXPIRE', KEYS[1], ARGV[1])
+if readers == 1 then
+  redis.call('DEL', KEYS[2], KEYS[3], KEYS[4])
+end
+return readers`;
+
+// Count a reader out, deleting the count once the last reader has left
+const UNREGISTER_READER_SCRIPT = `
+local readers = redis.call('DECR', KEYS[1])
+if readers <= 0 then
+  redis.call('DEL', KEYS[1])
+end
+return readers`;
+
+// Rows read from the head of the list when looking for a valid row to peek at
+const PEEK_ROWS = 10;
+
+// Row read by index, with its position in the read order
+interface IndexedRow {
+  position: number;
+  row: string;
 }
 
-class RedisClient {
+export class RedisClient implements TestDataSource {
+  public readonly description = 'Redis';
   private redis: Redis;
   private dataKey = 'test:data';
   private countKey = 'test:data:count';
-  private testData: TestDataRow[] | null = null;
+  // Rows consumed by each runner, keyed by runner id
+  private consumedKey = 'test:data:consumed';
+  private claimedRows: string[] = [];
+  // Positions in the read order of the claimed rows, when they are read by index
+  private claimedPositions: number[] = [];
+  private claiming: Promise<void> | null = null;
+  private claimedCount: number = 0;
+  private consumedCount: number = 0;
+  private isExhausted: boolean = false;
+  // Read order of the rows when they are read by index
+  private rowCount: number = 0;
+  private seed: number = 0;
+  private nextPosition: number = 0;
+  private isReader: boolean = false;
   private dataCount: number = 0;
   private isConnected: boolean = false;
+  private isClosed: boolean = false;
 
   constructor() {
     // Initialize Redis client
@@ -63,6 +112,15 @@ class RedisClient {
       }
 
       logger.info(`Found ${listLength} test data rows in Redis list`);
+
+      if (config.dataAccess === DataAccessMode.INDEX) {
+        this.rowCount = listLength;
+        if (config.dataSharing === DataSharing.UNIQUE) {
+          await this.registerReader();
+        }
+        this.seed = await this.getSeed();
+        logger.info(`Reading rows by index without removing them (${config.dataDistribution}, ${config.dataSharing})`);
+      }
       return true;
     } catch (error) {
       logger.error(`Failed to check test data in Redis: ${(error as Error).message}`);
@@ -70,28 +128,192 @@ class RedisClient {
     }
   }
 
-  // Pop a test data row from the Redis list
+  // Take the next row, claiming a new batch from the shared list when the claimed rows are used up
   public async popTestData(): Promise<TestDataRow | null> {
+    while (this.claimedRows.length === 0 && !this.isExhausted) {
+      await this.claimBatch();
+    }
+
+    const jsonData = this.claimedRows.shift();
+    this.claimedPositions.shift();
+    if (!jsonData) {
+      return null;
+    }
+
     try {
-      // Use LPOP to get and remove one element from the list
-      const jsonData = await this.redis.lpop(this.dataKey);
+      const testData = JSON.parse(jsonData) as TestDataRow;
+      this.consumedCount++;
+      return testData;
+    } catch (error) {
+      logger.error(`Skipping invalid test data row: ${(error as Error).message}`);
+      return this.popTestData();
+    }
+  }
 
-      if (!jsonData) {
-        logger.warn('No more test data available in Redis list');
-        return null;
+  // Read the first valid row of the list without taking it, skipping invalid rows as popTestData does
+  public async peekTestData(): Promise<TestDataRow | null> {
+    const candidates = this.claimedRows.length > 0 ? this.claimedRows : await this.redis.lrange(this.dataKey, 0, PEEK_ROWS - 1);
+
+    for (const jsonData of candidates) {
+      try {
+        return JSON.parse(jsonData) as TestDataRow;
+      } catch (error) {
+        logger.error(`Skipping invalid test data row: ${(error as Error).message}`);
       }
+    }
+    return null;
+  }
 
-      // Parse the JSON string into a TestDataRow object
-      const testData = JSON.parse(jsonData) as TestDataRow;
+  // Atomically claim the next batch of rows, so that runners share the list without a fixed partition
+  private claimBatch(): Promise<void> {
+    // Concurrent callers wait for the claim in progress instead of claiming another batch
+    if (!this.claiming) {
+      this.claiming = this.fetchBatch().finally(() => {
+        this.claiming = null;
+      });
+    }
+    return this.claiming;
+  }
 
-      // Decrement the count (for informational purposes)
-      const remainingCount = await this.redis.llen(this.dataKey);
-      logger.debug(`Popped test data from Redis list. Remaining items: ${remainingCount}`);
+  // Take up to DATA_BATCH_SIZE rows from the list, within MAX_ROWS_PER_RUNNER; only an empty read ends the data
+  private async fetchBatch(): Promise<void> {
+    let count = config.dataBatchSize;
+    if (config.maxRowsPerRunner > 0) {
+      count = Math.min(count, config.maxRowsPerRunner - this.claimedCount);
+      if (count <= 0) {
+        logger.info(`Reached MAX_ROWS_PER_RUNNER after claiming ${this.claimedCount} test data rows`);
+        this.isExhausted = true;
+        return;
+      }
+    }
 
-      return testData;
+    try {
+      let batch: string[] | null;
+      if (config.dataAccess === DataAccessMode.INDEX) {
+        const rows = await this.readBatch(count);
+        batch = rows.map(indexed => indexed.row);
+        this.claimedPositions.push(...rows.map(indexed => indexed.position));
+      } else {
+        batch = await this.redis.lpop(this.dataKey, count);
+      }
+      if (!batch || batch.length === 0) {
+        logger.info(`No more test data in Redis list after claiming ${this.claimedCount} rows`);
+        this.isExhausted = true;
+        return;
+      }
+
+      this.claimedRows.push(...batch);
+      this.claimedCount += batch.length;
+      await this.redis.hincrby(this.consumedKey, config.runnerId, batch.length);
+      logger.debug(`Claimed ${batch.length} test data rows from Redis list (${this.claimedCount} in total)`);
     } catch (error) {
-      logger.error(`Failed to pop test data from Redis: ${(error as Error).message}`);
-      return null;
+      // A failed claim, e.g. while Redis reconnects, is retried by the next call rather than ending the data
+      logger.error(`Failed to claim test data from Redis: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  // Read the rows at the next positions of the read order, leaving the list intact
+  private async readBatch(count: number): Promise<IndexedRow[]> {
+    // Unique rows take the positions given back by stopped runners first, then advance a counter
+    // shared by the fleet; shared rows take their positions from a local counter
+    let positions: number[];
+    if (config.dataSharing === DataSharing.UNIQUE) {
+      positions = (await this.redis.lpop(DATA_RETURNED_KEY, count) || []).map(Number);
+      const remaining = count - positions.length;
+      if (remaining > 0) {
+        const start = await this.redis.incrby(DATA_CURSOR_KEY, remaining) - remaining;
+        positions.push(...Array.from({ length: remaining }, (_, offset) => start + offset));
+      }
+    } else {
+      positions = Array.from({ length: count }, (_, offset) => this.nextPosition + offset);
+      this.nextPosition += count;
+    }
+
+    const pipeline = this.redis.pipeline();
+    const readPositions: number[] = [];
+    for (const position of positions) {
+      const index = rowIndexAt(position, this.rowCount, config.dataDistribution, this.seed);
+      if (index === null) break;
+      pipeline.lindex(this.dataKey, index);
+      readPositions.push(position);
+    }
+
+    if (pipeline.length === 0) return [];
+
+    const results = await pipeline.exec() || [];
+    return results.flatMap(([, row], i) => typeof row === 'string' ? [{ position: readPositions[i], row }] : []);
+  }
+
+  // Count this runner among the readers of the shared read position; the first reader of a test
+  // rewinds it, so a rerun reads the same rows again without reloading the data
+  private async registerReader(): Promise<void> {
+    const readers = await this.redis.eval(REGISTER_READER_SCRIPT, 4,
+      DATA_READERS_KEY, DATA_CURSOR_KEY, DATA_SEED_KEY, DATA_RETURNED_KEY, this.readerExpiry());
+    this.isReader = true;
+
+    if (Number(readers) === 1) {
+      logger.info('First runner of the test to read rows by index, rewound the shared read position');
+    }
+  }
+
+  // Count this runner out of the readers, so that the next test rewinds the read position
+  private async unregisterReader(): Promise<void> {
+    if (!this.isReader) return;
+    this.isReader = false;
+
+    try {
+      await this.redis.eval(UNREGISTER_READER_SCRIPT, 1, DATA_READERS_KEY);
+    } catch (error) {
+      logger.error(`Failed to unregister from the test data readers: ${(error as Error).message}`);
+    }
+  }
+
+  // Seconds the reader count is kept, so that the count left by runners that crash expires in the end
+  private readerExpiry(): number {
+    if (config.testDurationMs <= 0) return UNTIL_STOPPED_EXPIRY_SECONDS;
+    return Math.ceil(config.testDurationMs / 1000) + 60;
+  }
+
+  // Seed of the random order, agreed on by the fleet when rows are unique
+  private async getSeed(): Promise<number> {
+    if (config.dataSharing === DataSharing.SHARED) {
+      return randomSeed();
+    }
+
+    await this.redis.set(DATA_SEED_KEY, randomSeed().toString(), 'NX');
+    return parseInt(await this.redis.get(DATA_SEED_KEY) || '0', 10);
+  }
+
+  // Put claimed rows that were not used back at the head of the list for the other runners
+  private async returnUnusedRows(): Promise<void> {
+    if (this.claimedRows.length === 0) return;
+
+    const unused = this.claimedRows.splice(0);
+    const positions = this.claimedPositions.splice(0);
+
+    try {
+      // Rows read by index were never removed from the list; unique rows give their positions back to the fleet,
+      // shared rows are read on their own by every runner
+      if (config.dataAccess === DataAccessMode.INDEX) {
+        const transaction = this.redis.multi().hincrby(this.consumedKey, config.runnerId, -unused.length);
+        if (config.dataSharing === DataSharing.UNIQUE) {
+          transaction.rpush(DATA_RETURNED_KEY, ...positions);
+        }
+        await transaction.exec();
+        if (config.dataSharing === DataSharing.UNIQUE) {
+          logger.info(`Returned the positions of ${positions.length} unused test data rows to the other runners`);
+        }
+        return;
+      }
+
+      await this.redis.multi()
+        .lpush(this.dataKey, ...unused.reverse())
+        .hincrby(this.consumedKey, config.runnerId, -unused.length)
+        .exec();
+      logger.info(`Returned ${unused.length} unused test data rows to the Redis list`);
+    } catch (error) {
+      logger.error(`Failed to return unused test data rows to Redis: ${(error as Error).message}`);
     }
   }
 
@@ -105,8 +327,27 @@ class RedisClient {
     return this.dataCount;
   }
 
+  // Number of rows taken by this runner
+  public getConsumedCount(): number {
+    return this.consumedCount;
+  }
+
+  // Underlying connection, for features that coordinate runners through Redis
+  public getClient(): Redis {
+    return this.redis;
+  }
+
   // Close Redis connection
   public async close(): Promise<void> {
+    if (this.isClosed) return;
+    this.isClosed = true;
+
+    await this.returnUnusedRows();
+    await this.unregisterReader();
+    if (this.consumedCount > 0) {
+      logger.info(`Consumed ${this.consumedCount} test data rows (per-runner counts in ${this.consumedKey})`);
+    }
+
     try {
       await this.redis.quit();
       logger.info('Redis connection closed');
@@ -116,5 +357,5 @@ class RedisClient {
   }
 }
 
-// Export singleton instance
-export const redisClient = new RedisClient();
+// Export singleton instance, created only when Redis is configured
+export const redisClient: RedisClient | null = config.redisUrl ? new RedisClient() : null;
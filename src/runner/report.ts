@@ -0,0 +1,207 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { config, HttpLoadModel, TestMode } from './config';
+import logger from './logger';
+import { CheckStats, statsManager, StepStats } from './stats';
+import { testDataSource } from './data-source';
+import { formatLatencySummary, LatencySummary, summarizeLatencies } from './histogram';
+import { evaluateThresholds, printThresholdReport, ThresholdResult } from './thresholds';
+
+// Process exit codes reported at the end of a test
+export enum ExitCode {
+  SUCCESS = 0,
+  ERROR = 1,
+  NO_SUCCESS = 2,
+  THRESHOLDS_FAILED = 3
+}
+
+// Final summary of a test run
+export interface TestSummary {
+  runnerId: string;
+  testMode: TestMode;
+  reason: string;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  attempts: number;
+  successes: number;
+  successRate: number;
+  errors: {
+    total: number;
+    byCategory: Record<string, number>;
+  };
+  statusCodes: Record<string, number>;
+  closeCodes: Record<string, number>;
+  steps: Record<string, StepStats>;
+  // Sockets opened by the HTTP agents and requests sent on a kept-alive socket
+  sockets: {
+    opened: number;
+    reused: number;
+  };
+  // Response and message checks, counted apart from errors
+  checks: {
+    passed: number;
+    failed: number;
+    passRate: number;
+    byName: Record<string, CheckStats>;
+  };
+  dataRowsConsumed: number;
+  throughput: {
+    attemptsPerSecond: number;
+    successesPerSecond: number;
+  };
+  latency: Record<string, LatencySummary>;
+  thresholds: ThresholdResult[];
+  exitCode: ExitCode;
+}
+
+// Build the summary of the test from the current statistics
+export function buildSummary(reason: string, startTime: number): TestSummary {
+  const endTime = Date.now();
+  const durationSeconds = Math.max((endTime - startTime) / 1000, 0.001);
+
+  let attempts: number;
+  let successes: number;
+  let successRate: number;
+  let statusCodes: Record<string, number> = {};
+  let closeCodes: Record<string, number> = {};
+  let steps: Record<string, StepStats> = {};
+  const sockets = { opened: 0, reused: 0 };
+  const byCategory: Record<string, number> = {};
+  const dropped: Record<string, number> = {};
+
+  if (config.testMode === TestMode.WEBSOCKET) {
+    const wsStats = statsManager.getWebSocketStats();
+    attempts = wsStats.totalAttempted;
+    successes = wsStats.totalOpened;
+    successRate = wsStats.successRate;
+    Object.assign(byCategory, wsStats.errorsByCategory);
+    closeCodes = wsStats.closeCodes;
+    byCategory.message_timeout = wsStats.messageTimeouts;
+  } else {
+    const httpStats = statsManager.getHttpStats();
+    attempts = httpStats.totalAttempted;
+    successes = httpStats.totalSuccessful;
+    successRate = httpStats.successRate;
+    Object.assign(byCategory, httpStats.errorsByCategory);
+    statusCodes = httpStats.statusCodes;
+    steps = httpStats.steps;
+    sockets.opened = httpStats.socketsOpened;
+    sockets.reused = httpStats.socketsReused;
+    byCategory.dropped_iteration = httpStats.droppedIterations;
+    if (config.httpLoadModel === HttpLoadModel.OPEN) {
+      dropped.corrected_response_time = httpStats.droppedIterations;
+    }
+  }
+
+  const checksByName = statsManager.getCheckStats();
+  const checksPassed = Object.values(checksByName).reduce((sum, check) => sum + check.passes, 0);
+  const checksFailed = Object.values(checksByName).reduce((sum, check) => sum + check.failures, 0);
+
+  // Summarize every latency histogram; dropped arrivals have no corrected response time and are reported next to it
+  const latency = summarizeLatencies(statsManager.getHistogramSnapshots(), dropped);
+
+  const summary: TestSummary = {
+    runnerId: config.runnerId,
+    testMode: config.testMode,
+    reason,
+    startedAt: new Date(startTime).toISOString(),
+    endedAt: new Date(endTime).toISOString(),
+    durationMs: endTime - startTime,
+    attempts,
+    successes,
+    successRate,
+    errors: {
+      total: Object.values(byCategory).reduce((sum, count) => sum + count, 0),
+      byCategory
+    },
+    statusCodes,
+    closeCodes,
+    steps,
+    sockets,
+    checks: {
+      passed: checksPassed,
+      failed: checksFailed,
+      passRate: checksPassed + checksFailed > 0 ? (checksPassed / (checksPassed + checksFailed)) * 100 : 100,
+      byName: checksByName
+    },
+    dataRowsConsumed: testDataSource.getConsumedCount(),
+    throughput: {
+      attemptsPerSecond: attempts / durationSeconds,
+      successesPerSecond: successes / durationSeconds
+    },
+    latency,
+    thresholds: [],
+    exitCode: ExitCode.SUCCESS
+  };
+
+  summary.thresholds = evaluateThresholds(summary);
+  summary.exitCode = determineExitCode(summary);
+  return summary;
+}
+
+// Decide the process exit code from the summary
+export function determineExitCode(summary: TestSummary): ExitCode {
+  if (summary.thresholds.some(result => !result.passed)) {
+    return ExitCode.THRESHOLDS_FAILED;
+  }
+  if (summary.attempts > 0 && summary.successes === 0) {
+    return ExitCode.NO_SUCCESS;
+  }
+  return ExitCode.SUCCESS;
+}
+
+// Print the summary to the log
+export function printSummary(summary: TestSummary): void {
+  logger.info('='.repeat(60));
+  logger.info(`Test summary - Runner ID: ${summary.runnerId}`);
+  logger.info(`Test mode: ${summary.testMode}, ended because: ${summary.reason}`);
+  logger.info(`Duration: ${(summary.durationMs / 1000).toFixed(1)}s`);
+  logger.info(`Attempts: ${summary.attempts}, successes: ${summary.successes}, success rate: ${summary.successRate.toFixed(2)}%`);
+  logger.info(`Throughput: ${summary.throughput.attemptsPerSecond.toFixed(2)} attempts/s, ${summary.throughput.successesPerSecond.toFixed(2)} successes/s`);
+  if (summary.dataRowsConsumed > 0) {
+    logger.info(`Test data rows consumed: ${summary.dataRowsConsumed}`);
+  }
+  logger.info(`Errors: ${summary.errors.total}`);
+  for (const [category, count] of Object.entries(summary.errors.byCategory)) {
+    if (count > 0) {
+      logger.info(`  ${category}: ${count}`);
+    }
+  }
+  for (const [code, count] of Object.entries(summary.statusCodes)) {
+    logger.info(`HTTP status ${code}: ${count}`);
+  }
+  for (const [code, count] of Object.entries(summary.closeCodes)) {
+    logger.info(`WebSocket close code ${code}: ${count}`);
+  }
+  if (summary.testMode === TestMode.HTTP) {
+    logger.info(`Sockets opened: ${summary.sockets.opened}, reused: ${summary.sockets.reused}`);
+  }
+  if (summary.checks.passed + summary.checks.failed > 0) {
+    logger.info(`Checks: ${summary.checks.passed} passed, ${summary.checks.failed} failed (${summary.checks.passRate.toFixed(2)}% pass rate)`);
+    for (const [check, stats] of Object.entries(summary.checks.byName)) {
+      logger.info(`  ${check}: ${stats.passes} passed, ${stats.failures} failed`);
+    }
+  }
+  for (const [step, stats] of Object.entries(summary.steps)) {
+    logger.info(`Step ${step}: ${stats.attempts} attempts, ${stats.successes} successes, ${stats.failures} failures`);
+  }
+  for (const [name, stats] of Object.entries(summary.latency)) {
+    logger.info(formatLatencySummary(name, stats));
+  }
+  printThresholdReport(summary.thresholds);
+  logger.info(`Exit code: ${summary.exitCode}`);
+  logger.info('='.repeat(60));
+}
+
+// Write the summary as a JSON file
+export async function writeSummary(summary: TestSummary, summaryPath: string): Promise<void> {
+  const filePath = path.resolve(summaryPath);
+
+  try {
+    await fs.outputJson(filePath, summary, { spaces: 2 });
+    logger.info(`Test summary written to ${filePath}`);
+  } catch (error) {
+    logger.error(`Failed to write test summary to ${filePath}: ${(error as Error).message}`);
+  }
+}
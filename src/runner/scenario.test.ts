@@ -0,0 +1,85 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+
+import type { Scenario, ScenarioContext, ScenarioRunner } from './scenario';
+
+// Run a scenario against a fake connection and resolve with the messages it sent once it closes
+async function runScenario(scenario: Scenario, reply: (runner: ScenarioRunner) => void): Promise<string[]> {
+  const { ScenarioRunner } = await import('./scenario');
+
+  return new Promise((resolve, reject) => {
+    const sent: string[] = [];
+    const timer = setTimeout(() => reject(new Error(`Scenario did not complete, sent: ${sent.join(', ')}`)), 1000);
+    const context: ScenarioContext = {
+      connectionId: 1,
+      testData: null,
+      send: message => {
+        sent.push(message);
+        reply(runner);
+      },
+      close: () => {
+        clearTimeout(timer);
+        resolve(sent);
+      }
+    };
+    const runner = new ScenarioRunner(scenario, context);
+    runner.start();
+  });
+}
+
+describe('ScenarioRunner', () => {
+  it('matches replies that arrive out of order', async () => {
+    const scenario: Scenario = {
+      name: 'out of order',
+      steps: [
+        { type: 'send', message: 'subscribe' },
+        { type: 'expect', pattern: '^first$', timeoutMs: 200 },
+        { type: 'expect', pattern: '^second$', timeoutMs: 200 },
+        { type: 'close' }
+      ]
+    };
+
+    const sent = await runScenario(scenario, runner => {
+      runner.handleMessage('second');
+      runner.handleMessage('first');
+    });
+    expect(sent).toEqual(['subscribe']);
+  });
+
+  it('keeps messages that do not match the pending expect step for later steps', async () => {
+    const scenario: Scenario = {
+      name: 'pending',
+      steps: [
+        { type: 'send', message: 'subscribe' },
+        { type: 'expect', pattern: '^ack$', timeoutMs: 200 },
+        { type: 'expect', pattern: '^update$', timeoutMs: 200 },
+        { type: 'close' }
+      ]
+    };
+
+    const sent = await runScenario(scenario, runner => {
+      setTimeout(() => {
+        runner.handleMessage('update');
+        runner.handleMessage('ack');
+      }, 10);
+    });
+    expect(sent).toEqual(['subscribe']);
+  });
+
+  it('uses each buffered message for one expect step only', async () => {
+    const scenario: Scenario = {
+      name: 'once',
+      steps: [
+        { type: 'send', message: 'ping' },
+        { type: 'expect', pattern: '^pong$', timeoutMs: 200 },
+        { type: 'expect', pattern: '^pong$', timeoutMs: 100 },
+        { type: 'close' }
+      ]
+    };
+
+    await expect(runScenario(scenario, runner => runner.handleMessage('pong'))).rejects.toThrow(/did not complete/);
+  });
+});
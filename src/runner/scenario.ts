@@ -0,0 +1,323 @@
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+import logger from './logger';
+import { TestDataRow } from './data-source';
+import { renderInValue, renderTemplate } from './template';
+
+// Scenario step definitions
+export interface SendStep {
+  type: 'send';
+  message: string | object;
+}
+
+export interface ExpectStep {
+  type: 'expect';
+  pattern: string;
+  timeoutMs?: number;
+}
+
+export interface SleepStep {
+  type: 'sleep';
+  durationMs: number;
+}
+
+export interface LoopStep {
+  type: 'loop';
+  count?: number;
+  steps: ScenarioStep[];
+}
+
+export interface CloseStep {
+  type: 'close';
+  code?: number;
+  reason?: string;
+}
+
+export type ScenarioStep = SendStep | ExpectStep | SleepStep | LoopStep | CloseStep;
+
+export interface Scenario {
+  name: string;
+  steps: ScenarioStep[];
+}
+
+// Hooks a scenario uses to act on its WebSocket connection
+export interface ScenarioContext {
+  connectionId: number;
+  testData: TestDataRow | null;
+  send(message: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+const DEFAULT_EXPECT_TIMEOUT_MS = 10000;
+const MAX_BUFFERED_MESSAGES = 100;
+
+// Error raised when an expect step does not receive a matching message in time
+class ScenarioTimeoutError extends Error {
+  constructor(pattern: string, timeoutMs: number) {
+    super(`No message matching /${pattern}/ received within ${timeoutMs}ms`);
+    this.name = 'ScenarioTimeoutError';
+  }
+}
+
+// Validate a list of steps read from a scenario file
+function validateSteps(steps: unknown, location: string): ScenarioStep[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error(`Invalid scenario: ${location} must be a non-empty array of steps`);
+  }
+
+  steps.forEach((step: unknown, index) => {
+    const stepLocation = `${location}[${index}]`;
+    if (!step || typeof step !== 'object') {
+      throw new Error(`Invalid scenario: ${stepLocation} must be an object`);
+    }
+    const fields = step as Record<string, unknown>;
+
+    switch (fields.type) {
+      case 'send':
+        if (typeof fields.message !== 'string' && (typeof fields.message !== 'object' || fields.message === null)) {
+          throw new Error(`Invalid scenario: ${stepLocation}.message must be a string or an object`);
+        }
+        break;
+      case 'expect':
+        if (typeof fields.pattern !== 'string') {
+          throw new Error(`Invalid scenario: ${stepLocation}.pattern must be a string`);
+        }
+        new RegExp(fields.pattern);
+        if (fields.timeoutMs !== undefined && (typeof fields.timeoutMs !== 'number' || fields.timeoutMs <= 0)) {
+          throw new Error(`Invalid scenario: ${stepLocation}.timeoutMs must be a positive number`);
+        }
+        break;
+      case 'sleep':
+        if (typeof fields.durationMs !== 'number' || fields.durationMs < 0) {
+          throw new Error(`Invalid scenario: ${stepLocation}.durationMs must be a non-negative number`);
+        }
+        break;
+      case 'loop':
+        if (fields.count !== undefined && (typeof fields.count !== 'number' || !Number.isInteger(fields.count) || fields.count <= 0)) {
+          throw new Error(`Invalid scenario: ${stepLocation}.count must be a positive integer`);
+        }
+        validateSteps(fields.steps, `${stepLocation}.steps`);
+        break;
+      case 'close':
+        if (fields.code !== undefined && !Number.isInteger(fields.code)) {
+          throw new Error(`Invalid scenario: ${stepLocation}.code must be an integer`);
+        }
+        break;
+      default:
+        throw new Error(`Invalid scenario: ${stepLocation}.type must be one of: send, expect, sleep, loop, close`);
+    }
+  });
+
+  return steps as ScenarioStep[];
+}
+
+// Load and validate a scenario from a JSON or YAML file
+export async function loadScenario(scenarioPath: string): Promise<Scenario> {
+  const filePath = path.resolve(scenarioPath);
+  if (!await fs.pathExists(filePath)) {
+    throw new Error(`Scenario file not found: ${filePath}`);
+  }
+
+  const content = await fs.readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed = extension === '.yaml' || extension === '.yml' ? YAML.parse(content) : JSON.parse(content);
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid scenario: file must contain an object');
+  }
+
+  const scenario: Scenario = {
+    name: typeof parsed.name === 'string' ? parsed.name : path.basename(filePath, extension),
+    steps: validateSteps(parsed.steps, 'steps')
+  };
+
+  logger.info(`Loaded scenario '${scenario.name}' with ${scenario.steps.length} top-level steps from ${filePath}`);
+  return scenario;
+}
+
+// Templates of the scenario's messages and patterns, for checking them before the test starts
+export function scenarioTemplates(steps: ScenarioStep[]): unknown[] {
+  const templates: unknown[] = [];
+  for (const step of steps) {
+    if (step.type === 'send') {
+      templates.push(step.message);
+    } else if (step.type === 'expect') {
+      templates.push(step.pattern);
+    } else if (step.type === 'loop') {
+      templates.push(...scenarioTemplates(step.steps));
+    }
+  }
+  return templates;
+}
+
+// Executes a scenario against a single open WebSocket connection
+export class ScenarioRunner {
+  private scenario: Scenario;
+  private context: ScenarioContext;
+  private stopped: boolean = false;
+  private bufferedMessages: string[] = [];
+  private pendingExpect: { regex: RegExp, resolve: () => void } | null = null;
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private wakeUp: (() => void) | null = null;
+
+  constructor(scenario: Scenario, context: ScenarioContext) {
+    this.scenario = scenario;
+    this.context = context;
+  }
+
+  // Start executing the scenario in the background
+  public start(): void {
+    logger.debug(`Connection ${this.context.connectionId}: Starting scenario '${this.scenario.name}'`);
+
+    this.runSteps(this.scenario.steps)
+      .then(() => {
+        if (!this.stopped) {
+          logger.debug(`Connection ${this.context.connectionId}: Scenario '${this.scenario.name}' completed`);
+        }
+      })
+      .catch(error => {
+        if (this.stopped) return;
+
+        if (error instanceof ScenarioTimeoutError) {
+          logger.warn(`Connection ${this.context.connectionId}: Scenario '${this.scenario.name}' aborted: ${error.message}`);
+        } else {
+          logger.error(`Connection ${this.context.connectionId}: Scenario '${this.scenario.name}' failed: ${(error as Error).message}`);
+        }
+        this.stop();
+      });
+  }
+
+  // Feed an incoming message to the scenario
+  public handleMessage(message: string): void {
+    if (this.stopped) return;
+
+    if (this.pendingExpect && this.pendingExpect.regex.test(message)) {
+      const { resolve } = this.pendingExpect;
+      this.pendingExpect = null;
+      resolve();
+      return;
+    }
+
+    // Keep other messages for later expect steps, so that fast or out-of-order replies are not missed
+    this.bufferedMessages.push(message);
+    if (this.bufferedMessages.length > MAX_BUFFERED_MESSAGES) {
+      this.bufferedMessages.shift();
+    }
+  }
+
+  // Stop the scenario and cancel any pending wait
+  public stop(): void {
+    this.stopped = true;
+    this.pendingExpect = null;
+    this.bufferedMessages = [];
+
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    if (this.wakeUp) {
+      this.wakeUp();
+      this.wakeUp = null;
+    }
+  }
+
+  // Run a list of steps in order
+  private async runSteps(steps: ScenarioStep[]): Promise<void> {
+    for (const step of steps) {
+      if (this.stopped) return;
+
+      switch (step.type) {
+        case 'send':
+          this.send(step);
+          break;
+        case 'expect':
+          await this.expect(step);
+          break;
+        case 'sleep':
+          await this.sleep(step.durationMs);
+          break;
+        case 'loop':
+          await this.loop(step);
+          break;
+        case 'close':
+          logger.debug(`Connection ${this.context.connectionId}: Scenario closing connection`);
+          this.stopped = true;
+          this.context.close(step.code, step.reason);
+          return;
+      }
+    }
+  }
+
+  // Send a message after rendering its templates
+  private send(step: SendStep): void {
+    const message = typeof step.message === 'string'
+      ? renderTemplate(step.message, this.context)
+      : JSON.stringify(renderInValue(step.message, this.context));
+
+    logger.debug(`Connection ${this.context.connectionId}: Sending message: ${message}`);
+    this.context.send(message);
+  }
+
+  // Wait for a message matching the step pattern
+  private expect(step: ExpectStep): Promise<void> {
+    const regex = new RegExp(renderTemplate(step.pattern, this.context));
+    const timeoutMs = step.timeoutMs ?? DEFAULT_EXPECT_TIMEOUT_MS;
+
+    // Take the first message that arrived before this step started and matches; the others stay buffered
+    const index = this.bufferedMessages.findIndex(message => regex.test(message));
+    if (index >= 0) {
+      this.bufferedMessages.splice(index, 1);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.pendingExpect = null;
+        this.wakeUp = null;
+        reject(new ScenarioTimeoutError(step.pattern, timeoutMs));
+      }, timeoutMs);
+      this.timers.add(timer);
+
+      const done = () => {
+        clearTimeout(timer);
+        this.timers.delete(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+      this.pendingExpect = { regex, resolve: done };
+      this.wakeUp = done;
+    });
+  }
+
+  // Pause the scenario for the given duration
+  private sleep(durationMs: number): Promise<void> {
+    return new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.wakeUp = null;
+        resolve();
+      }, durationMs);
+      this.timers.add(timer);
+
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.timers.delete(timer);
+        resolve();
+      };
+    });
+  }
+
+  // Repeat nested steps a fixed number of times, or until the connection closes
+  private async loop(step: LoopStep): Promise<void> {
+    for (let iteration = 0; step.count === undefined || iteration < step.count; iteration++) {
+      if (this.stopped) return;
+      await this.runSteps(step.steps);
+
+      // Yield to the event loop so loops without waits do not starve other connections
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import logger from '../logger';
+import { MetricField, MetricPoint, MetricsSink } from './metrics-sink';
+
+// Minimum time between two summary lines
+const LOG_INTERVAL_MS = 10000;
+
+// Logs the latest summary point, for local runs without any metrics backend.
+// Individual events are only logged at debug level
+export class ConsoleSink implements MetricsSink {
+  public readonly name = 'console';
+  private latestSummary: MetricPoint | null = null;
+  // Summaries written after single events leave out the latency percentiles, so fields of earlier summaries are kept
+  private summaryFields: Record<string, MetricField> = {};
+  private lastLogTime: number = 0;
+
+  // Keep the latest summary and log events at debug level
+  public write(point: MetricPoint): void {
+    if (point.isSummary()) {
+      this.latestSummary = point;
+      this.summaryFields = { ...this.summaryFields, ...point.fields };
+    } else {
+      logger.debug(`Metrics ${point.measurement} ${point.tags.event_type}: ${this.formatFields(point.fields)}`);
+    }
+  }
+
+  // Log the latest summary if enough time has passed since the previous one
+  public async flush(): Promise<void> {
+    if (Date.now() - this.lastLogTime >= LOG_INTERVAL_MS) {
+      this.logSummary();
+    }
+  }
+
+  // Log the final summary
+  public async close(): Promise<void> {
+    this.logSummary();
+  }
+
+  // Log the latest summary, once
+  private logSummary(): void {
+    if (!this.latestSummary) return;
+
+    logger.info(`Metrics ${this.latestSummary.measurement}: ${this.formatFields(this.summaryFields)}`);
+    this.latestSummary = null;
+    this.lastLogTime = Date.now();
+  }
+
+  // Format the fields of a point as name=value pairs
+  private formatFields(fields: Record<string, MetricField>): string {
+    return Object.entries(fields)
+      .map(([name, field]) => `${name}=${field.type === 'float' ? Number(field.value.toFixed(2)) : field.value}`)
+      .join(' ');
+  }
+}
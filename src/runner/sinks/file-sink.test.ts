@@ -0,0 +1,66 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { MetricPoint } from './metrics-sink';
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'file-sink-'));
+});
+
+afterAll(async () => {
+  await fs.remove(directory);
+});
+
+// Lines of a metrics file, parsed
+async function readLines(filePath: string): Promise<unknown[]> {
+  const content = await fs.readFile(filePath, 'utf8');
+  return content.trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('FileSink', () => {
+  it('writes points as JSON lines when flushed', async () => {
+    const { FileSink } = await import('./file-sink');
+    const filePath = path.join(directory, 'nested', 'metrics.jsonl');
+    const sink = new FileSink(filePath);
+    const point = new MetricPoint('websocket').tag('event_type', 'connection').intField('count', 1).floatField('duration_ms', 12.5);
+
+    sink.write(point);
+    // The file is opened in the background, and nothing is written before the flush
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await fs.readFile(filePath, 'utf8')).toBe('');
+
+    await sink.flush();
+    expect(await readLines(filePath)).toEqual([{
+      timestamp: point.timestamp.toISOString(),
+      measurement: 'websocket',
+      tags: { event_type: 'connection' },
+      fields: { count: 1, duration_ms: 12.5 }
+    }]);
+    await sink.close();
+  });
+
+  it('appends to an existing file and flushes on close', async () => {
+    const { FileSink } = await import('./file-sink');
+    const filePath = path.join(directory, 'append.jsonl');
+
+    const first = new FileSink(filePath);
+    first.write(new MetricPoint('http').intField('count', 1));
+    await first.close();
+
+    const second = new FileSink(filePath);
+    second.write(new MetricPoint('http').intField('count', 2));
+    second.write(new MetricPoint('http').intField('count', 3));
+    await second.close();
+
+    const lines = await readLines(filePath) as { fields: { count: number } }[];
+    expect(lines.map(line => line.fields.count)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,56 @@
+import fs from 'fs-extra';
+import path from 'path';
+import logger from '../logger';
+import { MetricPoint, MetricsSink } from './metrics-sink';
+
+// Appends points to a file as JSON lines
+export class FileSink implements MetricsSink {
+  public readonly name = 'file';
+  private filePath: string;
+  private stream: fs.WriteStream;
+  private buffer: string[] = [];
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    fs.ensureDirSync(path.dirname(this.filePath));
+    this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      logger.error(`Failed to write metrics to ${this.filePath}: ${error.message}`);
+    });
+
+    logger.info(`Writing metrics to ${this.filePath}`);
+  }
+
+  // Serialize the point as one JSON line
+  public write(point: MetricPoint): void {
+    const fields: Record<string, number> = {};
+    for (const [name, field] of Object.entries(point.fields)) {
+      fields[name] = field.value;
+    }
+
+    this.buffer.push(JSON.stringify({
+      timestamp: point.timestamp.toISOString(),
+      measurement: point.measurement,
+      tags: point.tags,
+      fields
+    }));
+  }
+
+  // Append the buffered lines to the file
+  public async flush(): Promise<void> {
+    if (this.buffer.length === 0) return;
+
+    const data = this.buffer.join('\n') + '\n';
+    this.buffer = [];
+    await new Promise<void>((resolve, reject) => {
+      this.stream.write(data, (error) => error ? reject(error) : resolve());
+    });
+  }
+
+  // Flush and close the file
+  public async close(): Promise<void> {
+    await this.flush();
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+    logger.info(`Metrics file ${this.filePath} closed`);
+  }
+}
@@ -0,0 +1,34 @@
+import { config, MetricsSinkType } from '../config';
+import { MetricsSink } from './metrics-sink';
+import { InfluxSink } from './influx-sink';
+import { ConsoleSink } from './console-sink';
+import { PrometheusSink } from './prometheus-sink';
+import { StatsdSink } from './statsd-sink';
+import { FileSink } from './file-sink';
+import { NoopSink } from './noop-sink';
+
+export { MetricPoint, MetricsSink } from './metrics-sink';
+export { PrometheusSink } from './prometheus-sink';
+
+// Create a sink of the given type
+function createSink(type: MetricsSinkType): MetricsSink {
+  switch (type) {
+    case MetricsSinkType.INFLUX:
+      return new InfluxSink();
+    case MetricsSinkType.CONSOLE:
+      return new ConsoleSink();
+    case MetricsSinkType.PROMETHEUS:
+      return new PrometheusSink();
+    case MetricsSinkType.STATSD:
+      return new StatsdSink();
+    case MetricsSinkType.FILE:
+      return new FileSink(config.metricsFile);
+    case MetricsSinkType.NOOP:
+      return new NoopSink();
+  }
+}
+
+// Create the sinks selected by METRICS_SINKS
+export function createSinks(): MetricsSink[] {
+  return [...new Set(config.metricsSinks)].map(createSink);
+}
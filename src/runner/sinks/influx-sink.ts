@@ -0,0 +1,57 @@
+import { InfluxDB, Point, WriteApi } from '@influxdata/influxdb-client';
+import { config } from '../config';
+import logger from '../logger';
+import { MetricPoint, MetricsSink } from './metrics-sink';
+
+// Writes points to InfluxDB
+export class InfluxSink implements MetricsSink {
+  public readonly name = 'influx';
+  private writeApi: WriteApi;
+
+  constructor() {
+    const influxDB = new InfluxDB({
+      url: config.influxUrl,
+      token: config.influxToken
+    });
+
+    // Create a write API for the specified org and bucket
+    this.writeApi = influxDB.getWriteApi(
+      config.influxOrg,
+      config.influxBucket,
+      'ns' // Precision (nanoseconds)
+    );
+
+    logger.info(`Connected to InfluxDB at ${config.influxUrl}`);
+    logger.info(`Using organization: ${config.influxOrg}, bucket: ${config.influxBucket}`);
+  }
+
+  // Convert the point and add it to the write buffer
+  public write(metricPoint: MetricPoint): void {
+    const point = new Point(metricPoint.measurement).timestamp(metricPoint.timestamp);
+
+    for (const [name, value] of Object.entries(metricPoint.tags)) {
+      point.tag(name, value);
+    }
+    for (const [name, field] of Object.entries(metricPoint.fields)) {
+      if (field.type === 'int') {
+        point.intField(name, field.value);
+      } else {
+        point.floatField(name, field.value);
+      }
+    }
+
+    this.writeApi.writePoint(point);
+  }
+
+  // Flush the write buffer to ensure data is sent to InfluxDB
+  public async flush(): Promise<void> {
+    await this.writeApi.flush();
+  }
+
+  // Flush any remaining writes and close the client
+  public async close(): Promise<void> {
+    await this.writeApi.flush();
+    await this.writeApi.close();
+    logger.info('InfluxDB connection closed');
+  }
+}
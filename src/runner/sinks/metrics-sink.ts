@@ -0,0 +1,54 @@
+// A numeric field value, keeping the distinction between integer and float fields
+export interface MetricField {
+  value: number;
+  type: 'int' | 'float';
+}
+
+// A measurement with tags and fields, independent of the backend it is written to
+export class MetricPoint {
+  public readonly measurement: string;
+  public readonly tags: Record<string, string> = {};
+  public readonly fields: Record<string, MetricField> = {};
+  public readonly timestamp: Date = new Date();
+
+  constructor(measurement: string) {
+    this.measurement = measurement;
+  }
+
+  // Add a tag
+  public tag(name: string, value: string): MetricPoint {
+    this.tags[name] = value;
+    return this;
+  }
+
+  // Add an integer field
+  public intField(name: string, value: number): MetricPoint {
+    this.fields[name] = { value: Math.trunc(value), type: 'int' };
+    return this;
+  }
+
+  // Add a float field
+  public floatField(name: string, value: number): MetricPoint {
+    this.fields[name] = { value, type: 'float' };
+    return this;
+  }
+
+  // Whether this point is a periodic summary rather than a single event
+  public isSummary(): boolean {
+    return this.tags.event_type === 'summary';
+  }
+}
+
+// Destination of the points written by the stats manager
+export interface MetricsSink {
+  readonly name: string;
+
+  // Queue a point for writing
+  write(point: MetricPoint): void;
+
+  // Send any buffered points
+  flush(): Promise<void>;
+
+  // Flush and release resources
+  close(): Promise<void>;
+}
@@ -0,0 +1,12 @@
+import { MetricPoint, MetricsSink } from './metrics-sink';
+
+// Discards every point, for runs that only need the logs and the summary report
+export class NoopSink implements MetricsSink {
+  public readonly name = 'noop';
+
+  public write(_point: MetricPoint): void {}
+
+  public async flush(): Promise<void> {}
+
+  public async close(): Promise<void> {}
+}
@@ -0,0 +1,87 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+process.env.RUNNER_ID = 'runner-7';
+
+import { MetricPoint } from './metrics-sink';
+
+// Event point counting one occurrence
+function event(eventType: string, tags: Record<string, string> = {}): MetricPoint {
+  const point = new MetricPoint('websocket').tag('event_type', eventType).tag('runnerId', 'runner-7');
+  for (const [name, value] of Object.entries(tags)) {
+    point.tag(name, value);
+  }
+  return point.intField('count', 1).floatField('duration_ms', 12.5);
+}
+
+// Summary point with the given fields
+function summary(stage: string, fields: Record<string, number>): MetricPoint {
+  const point = new MetricPoint('websocket').tag('event_type', 'summary').tag('stage', stage).tag('runnerId', 'runner-7');
+  for (const [name, value] of Object.entries(fields)) {
+    point.intField(name, value);
+  }
+  return point;
+}
+
+describe('PrometheusSink', () => {
+  it('accumulates event counts per label set', async () => {
+    const { PrometheusSink } = await import('./prometheus-sink');
+    const sink = new PrometheusSink();
+
+    sink.write(event('connection', { status: 'ok' }));
+    sink.write(event('connection', { status: 'ok' }));
+    sink.write(event('connection', { status: 'error' }));
+    sink.write(new MetricPoint('websocket').tag('event_type', 'message').floatField('latency_ms', 3));
+
+    expect(sink.render()).toBe([
+      '# HELP websocket_events_total Events written to the websocket measurement',
+      '# TYPE websocket_events_total counter',
+      'websocket_events_total{runner_id="runner-7",event_type="connection",status="ok"} 2',
+      'websocket_events_total{runner_id="runner-7",event_type="connection",status="error"} 1',
+      ''
+    ].join('\n'));
+    await sink.close();
+  });
+
+  it('keeps the latest summary fields as gauges without stage labels', async () => {
+    const { PrometheusSink } = await import('./prometheus-sink');
+    const sink = new PrometheusSink();
+
+    sink.write(summary('ramp', { current_open: 10, 'messages.sent': 100 }));
+    sink.write(summary('hold', { current_open: 25, 'messages.sent': 400 }));
+
+    expect(sink.render()).toBe([
+      '# HELP websocket_current_open Field current_open of the latest websocket summary',
+      '# TYPE websocket_current_open gauge',
+      'websocket_current_open{runner_id="runner-7"} 25',
+      '# HELP websocket_messages_sent Field messages.sent of the latest websocket summary',
+      '# TYPE websocket_messages_sent gauge',
+      'websocket_messages_sent{runner_id="runner-7"} 400',
+      ''
+    ].join('\n'));
+    await sink.close();
+  });
+
+  it('groups the samples of each metric under a single header', async () => {
+    const { PrometheusSink } = await import('./prometheus-sink');
+    const sink = new PrometheusSink();
+
+    sink.write(event('connection', { status: 'ok' }));
+    sink.write(summary('hold', { current_open: 1 }));
+    sink.write(new MetricPoint('http').tag('event_type', 'request').intField('count', 3));
+    sink.write(event('connection', { status: 'error' }));
+
+    const lines = sink.render().trim().split('\n');
+    const names = lines.filter(line => !line.startsWith('#')).map(line => line.split('{')[0]);
+    expect(names).toEqual(['http_events_total', 'websocket_events_total', 'websocket_events_total', 'websocket_current_open']);
+    expect(lines.filter(line => line.startsWith('# TYPE'))).toEqual([
+      '# TYPE http_events_total counter',
+      '# TYPE websocket_events_total counter',
+      '# TYPE websocket_current_open gauge'
+    ]);
+    expect(lines).toContain('http_events_total{runner_id="runner-7",event_type="request"} 3');
+    await sink.close();
+  });
+});
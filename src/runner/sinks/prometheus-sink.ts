@@ -0,0 +1,128 @@
+import axios from 'axios';
+import { config } from '../config';
+import logger from '../logger';
+import { PrometheusWriter } from '../prometheus-writer';
+import { MetricPoint, MetricsSink } from './metrics-sink';
+
+// Tags that do not become labels: the runner id is always added by the writer, and
+// summary gauges would otherwise leave a stale series behind for every stage
+const IGNORED_LABELS = ['runnerId'];
+const IGNORED_SUMMARY_LABELS = ['runnerId', 'stage', 'event_type'];
+
+interface Sample {
+  name: string;
+  help: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+// Turn a measurement, field or tag name into a valid Prometheus name
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_]/g, '_').replace(/^([0-9])/, '_$1');
+}
+
+// Key identifying a series by name and labels
+function seriesKey(name: string, labels: Record<string, string>): string {
+  return `${name}${JSON.stringify(Object.entries(labels).sort())}`;
+}
+
+// Keeps points as Prometheus series: event counts become counters and summary fields
+// become gauges. The series are served by the status server's /metrics endpoint and,
+// when a Pushgateway is configured, pushed to it periodically
+export class PrometheusSink implements MetricsSink {
+  public readonly name = 'prometheus';
+  private counters: Map<string, Sample> = new Map();
+  private gauges: Map<string, Sample> = new Map();
+  private pushInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    if (config.prometheusPushgatewayUrl) {
+      this.pushInterval = setInterval(() => {
+        this.push();
+      }, 5000);
+      logger.info(`Pushing Prometheus metrics to ${config.prometheusPushgatewayUrl}`);
+    }
+  }
+
+  // Update the series for the point
+  public write(point: MetricPoint): void {
+    const measurement = sanitizeName(point.measurement);
+
+    if (point.isSummary()) {
+      const labels = this.labelsOf(point, IGNORED_SUMMARY_LABELS);
+      for (const [field, { value }] of Object.entries(point.fields)) {
+        const name = `${measurement}_${sanitizeName(field)}`;
+        const help = `Field ${field} of the latest ${point.measurement} summary`;
+        this.gauges.set(seriesKey(name, labels), { name, help, labels, value });
+      }
+      return;
+    }
+
+    // Other event fields (durations, lags) are covered by the summary gauges and the latency summaries
+    const count = point.fields.count;
+    if (!count) return;
+
+    const name = `${measurement}_events_total`;
+    const labels = this.labelsOf(point, IGNORED_LABELS);
+    const key = seriesKey(name, labels);
+    const sample = this.counters.get(key);
+    if (sample) {
+      sample.value += count.value;
+    } else {
+      this.counters.set(key, { name, help: `Events written to the ${point.measurement} measurement`, labels, value: count.value });
+    }
+  }
+
+  // Series are served on demand, there is nothing to flush
+  public async flush(): Promise<void> {}
+
+  // Push the final values and stop pushing
+  public async close(): Promise<void> {
+    if (this.pushInterval) {
+      clearInterval(this.pushInterval);
+      this.pushInterval = null;
+      await this.push();
+    }
+  }
+
+  // Render the series in the Prometheus text format
+  public render(): string {
+    const writer = new PrometheusWriter();
+
+    // Samples of a metric must be contiguous
+    const byName = (a: Sample, b: Sample) => a.name.localeCompare(b.name);
+    for (const sample of [...this.counters.values()].sort(byName)) {
+      writer.sample(sample.name, 'counter', sample.help, sample.value, sample.labels);
+    }
+    for (const sample of [...this.gauges.values()].sort(byName)) {
+      writer.sample(sample.name, 'gauge', sample.help, sample.value, sample.labels);
+    }
+
+    return writer.toString();
+  }
+
+  // Labels of a point, without the ignored tags
+  private labelsOf(point: MetricPoint, ignored: string[]): Record<string, string> {
+    const labels: Record<string, string> = {};
+    for (const [name, value] of Object.entries(point.tags)) {
+      if (!ignored.includes(name)) {
+        labels[sanitizeName(name)] = value;
+      }
+    }
+    return labels;
+  }
+
+  // Replace this runner's group on the Pushgateway
+  private async push(): Promise<void> {
+    const url = `${config.prometheusPushgatewayUrl}/metrics/job/loadtest/instance/${encodeURIComponent(config.runnerId)}`;
+
+    try {
+      await axios.put(url, this.render(), {
+        headers: { 'Content-Type': 'text/plain; version=0.0.4' },
+        timeout: 5000
+      });
+    } catch (error) {
+      logger.error(`Failed to push metrics to the Pushgateway: ${(error as Error).message}`);
+    }
+  }
+}
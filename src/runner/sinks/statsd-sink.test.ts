@@ -0,0 +1,111 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+process.env.STATSD_PREFIX = 'loadtest';
+
+import dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { MetricPoint } from './metrics-sink';
+import type { StatsdSink } from './statsd-sink';
+
+let server: dgram.Socket;
+let packets: string[] = [];
+
+beforeAll(async () => {
+  server = dgram.createSocket('udp4');
+  server.on('message', message => packets.push(message.toString()));
+  await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+});
+
+beforeEach(() => {
+  packets = [];
+});
+
+afterAll(() => {
+  server.close();
+});
+
+// Sink sending to the test server
+async function createSink(): Promise<StatsdSink> {
+  const { config } = await import('../config');
+  const { StatsdSink } = await import('./statsd-sink');
+  config.statsdHost = '127.0.0.1';
+  config.statsdPort = (server.address() as AddressInfo).port;
+  return new StatsdSink();
+}
+
+// Wait until the packets received hold the given number of lines
+async function receiveLines(count: number): Promise<string[]> {
+  const deadline = Date.now() + 2000;
+  while (packets.join('\n').split('\n').filter(line => line).length < count) {
+    if (Date.now() > deadline) {
+      throw new Error(`Received ${packets.length} packets, expected ${count} lines`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return packets.join('\n').split('\n');
+}
+
+describe('StatsdSink', () => {
+  it('writes counters, timers and gauges with their tags', async () => {
+    const sink = await createSink();
+
+    sink.write(new MetricPoint('websocket')
+      .tag('event_type', 'connection')
+      .tag('status code', 'a:b|c')
+      .intField('count', 1)
+      .floatField('duration_ms', 12.5)
+      .floatField('size', 3));
+    sink.write(new MetricPoint('websocket')
+      .tag('event_type', 'summary')
+      .tag('stage', 'hold')
+      .intField('current_open', 25));
+    await sink.flush();
+
+    expect(await receiveLines(4)).toEqual([
+      'loadtest.websocket.connection:1|c|#status_code:a_b_c',
+      'loadtest.websocket.connection.duration_ms:12.5|ms|#status_code:a_b_c',
+      'loadtest.websocket.connection.size:3|g|#status_code:a_b_c',
+      'loadtest.websocket.current_open:25|g|#stage:hold'
+    ]);
+    await sink.close();
+  });
+
+  it('splits the lines into packets that fit the MTU', async () => {
+    const sink = await createSink();
+    const written: string[] = [];
+    for (let index = 0; index < 100; index++) {
+      sink.write(new MetricPoint('http').tag('event_type', 'request').tag('step', `step_${index}`).intField('count', 1));
+      written.push(`loadtest.http.request:1|c|#step:step_${index}`);
+    }
+    expect(packets).toHaveLength(0);
+
+    await sink.flush();
+    const lines = await receiveLines(100);
+
+    expect(packets.length).toBeGreaterThan(1);
+    for (const packet of packets) {
+      expect(Buffer.byteLength(packet)).toBeLessThanOrEqual(1432);
+    }
+    expect([...lines].sort()).toEqual([...written].sort());
+    await sink.close();
+  });
+
+  it('sends early when a lot of lines are waiting', async () => {
+    const sink = await createSink();
+    // About 150 bytes a line, so the buffer fills every hundred lines or so
+    for (let index = 0; index < 200; index++) {
+      sink.write(new MetricPoint('http').tag('event_type', 'request').tag('step', `${'x'.repeat(110)}_${index}`).intField('count', 1));
+    }
+
+    // Nothing was flushed explicitly
+    await receiveLines(90);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(packets.join('\n').split('\n').length).toBeLessThan(200);
+
+    await sink.close();
+    expect(await receiveLines(200)).toHaveLength(200);
+  });
+});
@@ -0,0 +1,113 @@
+import dgram from 'dgram';
+import { config } from '../config';
+import logger from '../logger';
+import { MetricPoint, MetricsSink } from './metrics-sink';
+
+// Keep packets below the usual network MTU
+const MAX_PACKET_BYTES = 1432;
+
+// Tags encoded in the metric name rather than as DogStatsD tags
+const NAME_TAGS = ['event_type'];
+
+// Replace characters that have a meaning in the StatsD line protocol
+function sanitize(value: string): string {
+  return value.replace(/[:|@#,\s]/g, '_');
+}
+
+// Sends points to a StatsD server over UDP, with DogStatsD-style tags
+export class StatsdSink implements MetricsSink {
+  public readonly name = 'statsd';
+  private socket: dgram.Socket;
+  private host: string;
+  private port: number;
+  private prefix: string;
+  private lines: string[] = [];
+  private bufferedBytes: number = 0;
+
+  constructor() {
+    this.host = config.statsdHost;
+    this.port = config.statsdPort;
+    this.prefix = config.statsdPrefix;
+    this.socket = dgram.createSocket('udp4');
+    this.socket.on('error', (error) => {
+      logger.error(`StatsD socket error: ${error.message}`);
+    });
+    // Do not keep the process alive just for metrics
+    this.socket.unref();
+
+    logger.info(`Sending metrics to StatsD at ${this.host}:${this.port} with prefix '${this.prefix}'`);
+  }
+
+  // Convert the point to StatsD lines: counters for event counts, timers for event
+  // durations and gauges for the summary fields
+  public write(point: MetricPoint): void {
+    const base = [this.prefix, point.measurement, point.isSummary() ? null : point.tags.event_type]
+      .filter((part): part is string => !!part)
+      .map(sanitize)
+      .join('.');
+
+    const tags = Object.entries(point.tags)
+      .filter(([name]) => !NAME_TAGS.includes(name))
+      .map(([name, value]) => `${sanitize(name)}:${sanitize(value)}`);
+    const tagSuffix = tags.length > 0 ? `|#${tags.join(',')}` : '';
+
+    for (const [name, field] of Object.entries(point.fields)) {
+      let type = 'g';
+      if (!point.isSummary()) {
+        type = name === 'count' ? 'c' : name.endsWith('_ms') ? 'ms' : 'g';
+      }
+      const metric = type === 'c' ? base : `${base}.${sanitize(name)}`;
+      this.addLine(`${metric}:${field.value}|${type}${tagSuffix}`);
+    }
+  }
+
+  // Send the buffered lines, packing as many as fit in each packet
+  public async flush(): Promise<void> {
+    if (this.lines.length === 0) return;
+
+    const lines = this.lines;
+    this.lines = [];
+    this.bufferedBytes = 0;
+
+    const packets: string[] = [];
+    let packet = '';
+    for (const line of lines) {
+      if (packet.length > 0 && packet.length + line.length + 1 > MAX_PACKET_BYTES) {
+        packets.push(packet);
+        packet = '';
+      }
+      packet = packet.length > 0 ? `${packet}\n${line}` : line;
+    }
+    packets.push(packet);
+
+    await Promise.all(packets.map(data => this.send(data)));
+  }
+
+  // Send what is left and close the socket
+  public async close(): Promise<void> {
+    await this.flush();
+    this.socket.close();
+    logger.info('StatsD socket closed');
+  }
+
+  // Buffer a line, flushing early when a lot of data is waiting
+  private addLine(line: string): void {
+    this.lines.push(line);
+    this.bufferedBytes += line.length + 1;
+    if (this.bufferedBytes >= MAX_PACKET_BYTES * 10) {
+      this.flush().catch(error => logger.error(`Failed to send metrics to StatsD: ${(error as Error).message}`));
+    }
+  }
+
+  // Send one packet
+  private send(data: string): Promise<void> {
+    return new Promise((resolve) => {
+      this.socket.send(data, this.port, this.host, (error) => {
+        if (error) {
+          logger.error(`Failed to send metrics to StatsD: ${error.message}`);
+        }
+        resolve();
+      });
+    });
+  }
+}
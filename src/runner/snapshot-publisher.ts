@@ -0,0 +1,150 @@
+import Redis from 'ioredis';
+import { config, TestMode } from './config';
+import logger from './logger';
+import { statsManager } from './stats';
+import { testDataSource } from './data-source';
+import { RunnerSnapshot, SNAPSHOTS_KEY } from './snapshot';
+
+type ConnectionStatsProvider = () => { total: number, active: number };
+
+// Snapshots outlive the test long enough for the aggregator to build the fleet report
+const SNAPSHOTS_TTL_SECONDS = 86400;
+
+// Number of snapshot intervals without an update after which a runner is considered gone
+const STALE_SNAPSHOT_INTERVALS = 3;
+
+// Periodically publishes the runner's mergeable statistics to Redis for the fleet aggregator
+export class SnapshotPublisher {
+  private redis: Redis;
+  private getConnectionStats: ConnectionStatsProvider;
+  private interval: NodeJS.Timeout | null = null;
+  private startTime: number = Date.now();
+
+  constructor(redis: Redis, getConnectionStats: ConnectionStatsProvider) {
+    this.redis = redis;
+    this.getConnectionStats = getConnectionStats;
+  }
+
+  // Clear the snapshots of the previous test, then publish a first snapshot and one every SNAPSHOT_INTERVAL
+  public async start(startTime: number): Promise<void> {
+    this.startTime = startTime;
+    await this.clearPreviousTest();
+    await this.publish(false);
+    this.interval = setInterval(() => this.publish(false), config.snapshotIntervalMs);
+    logger.info(`Publishing stats snapshots to Redis every ${config.snapshotIntervalMs}ms`);
+  }
+
+  // Stop publishing and mark this runner's snapshot as final
+  public async stop(): Promise<void> {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    await this.publish(true);
+  }
+
+  // Build the current snapshot of this runner
+  private buildSnapshot(final: boolean): RunnerSnapshot {
+    const snapshot: RunnerSnapshot = {
+      runnerId: config.runnerId,
+      testMode: config.testMode,
+      stage: statsManager.getCurrentStage(),
+      startedAt: new Date(this.startTime).toISOString(),
+      updatedAt: new Date().toISOString(),
+      final,
+      connections: this.getConnectionStats(),
+      attempts: 0,
+      successes: 0,
+      errorsByCategory: {},
+      statusCodes: {},
+      closeCodes: {},
+      counters: {},
+      histograms: statsManager.getHistogramSnapshots()
+    };
+
+    if (config.testMode === TestMode.WEBSOCKET) {
+      const wsStats = statsManager.getWebSocketStats();
+      snapshot.attempts = wsStats.totalAttempted;
+      snapshot.successes = wsStats.totalOpened;
+      snapshot.errorsByCategory = wsStats.errorsByCategory;
+      snapshot.closeCodes = wsStats.closeCodes;
+      snapshot.counters = {
+        currentOpen: wsStats.currentOpen,
+        totalClosed: wsStats.totalClosed,
+        messagesSent: wsStats.messagesSent,
+        messagesReceived: wsStats.messagesReceived,
+        messageTimeouts: wsStats.messageTimeouts,
+        messagesUnanswered: wsStats.messagesUnanswered,
+        dataRowsConsumed: testDataSource.getConsumedCount()
+      };
+    } else {
+      const httpStats = statsManager.getHttpStats();
+      snapshot.attempts = httpStats.totalAttempted;
+      snapshot.successes = httpStats.totalSuccessful;
+      snapshot.errorsByCategory = httpStats.errorsByCategory;
+      snapshot.statusCodes = httpStats.statusCodes;
+      snapshot.counters = {
+        droppedIterations: httpStats.droppedIterations,
+        lateIterations: httpStats.lateIterations,
+        socketsOpened: httpStats.socketsOpened,
+        socketsReused: httpStats.socketsReused,
+        dataRowsConsumed: testDataSource.getConsumedCount()
+      };
+      for (const [step, stepStats] of Object.entries(httpStats.steps)) {
+        snapshot.counters[`step_${step}_attempts`] = stepStats.attempts;
+        snapshot.counters[`step_${step}_successes`] = stepStats.successes;
+      }
+    }
+
+    for (const [check, checkStats] of Object.entries(statsManager.getCheckStats())) {
+      snapshot.counters[`check_${check}_passes`] = checkStats.passes;
+      snapshot.counters[`check_${check}_failures`] = checkStats.failures;
+    }
+
+    return snapshot;
+  }
+
+  // Remove the snapshots left by the runners of a previous test, so that the aggregator neither merges
+  // them nor counts them as finished: final snapshots from before this test started, and snapshots
+  // that were not updated for a few intervals, e.g. because their runner crashed
+  private async clearPreviousTest(): Promise<void> {
+    try {
+      const staleBefore = this.startTime - STALE_SNAPSHOT_INTERVALS * config.snapshotIntervalMs;
+      const entries = await this.redis.hgetall(SNAPSHOTS_KEY);
+      const previous = Object.entries(entries)
+        .filter(([, value]) => isFromPreviousTest(value, this.startTime, staleBefore))
+        .map(([runnerId]) => runnerId);
+
+      if (previous.length > 0) {
+        await this.redis.hdel(SNAPSHOTS_KEY, ...previous);
+        logger.info(`Removed the stats snapshots of ${previous.length} runners of a previous test`);
+      }
+    } catch (error) {
+      logger.error(`Failed to clear previous stats snapshots: ${(error as Error).message}`);
+    }
+  }
+
+  // Store the snapshot in the shared hash, keyed by runner id
+  private async publish(final: boolean): Promise<void> {
+    try {
+      await this.redis.multi()
+        .hset(SNAPSHOTS_KEY, config.runnerId, JSON.stringify(this.buildSnapshot(final)))
+        .expire(SNAPSHOTS_KEY, SNAPSHOTS_TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      logger.error(`Failed to publish stats snapshot: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Whether a published snapshot belongs to a previous test; unreadable snapshots are cleared too
+function isFromPreviousTest(value: string, startTime: number, staleBefore: number): boolean {
+  try {
+    const snapshot = JSON.parse(value) as RunnerSnapshot;
+    const updatedAt = Date.parse(snapshot.updatedAt);
+    if (isNaN(updatedAt)) return true;
+    return (snapshot.final && updatedAt < startTime) || updatedAt < staleBefore;
+  } catch {
+    return true;
+  }
+}
@@ -0,0 +1,131 @@
+import { Histogram, HistogramSnapshot } from './histogram';
+import { mergeSnapshots, RunnerSnapshot } from './snapshot';
+
+// Histogram snapshot of the values low to high
+function range(low: number, high: number): HistogramSnapshot {
+  const histogram = new Histogram();
+  for (let value = low; value <= high; value++) {
+    histogram.record(value);
+  }
+  return histogram.snapshot();
+}
+
+// WebSocket runner snapshot with the given fields
+function snapshot(fields: Partial<RunnerSnapshot>): RunnerSnapshot {
+  return {
+    runnerId: 'runner',
+    testMode: 'websocket',
+    stage: null,
+    startedAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:10.000Z',
+    final: false,
+    connections: { total: 0, active: 0 },
+    attempts: 0,
+    successes: 0,
+    errorsByCategory: {},
+    statusCodes: {},
+    closeCodes: {},
+    counters: {},
+    histograms: {},
+    ...fields
+  };
+}
+
+describe('mergeSnapshots', () => {
+  const first = snapshot({
+    runnerId: 'runner-b',
+    stage: 'ramp',
+    final: true,
+    connections: { total: 10, active: 8 },
+    attempts: 100,
+    successes: 90,
+    errorsByCategory: { timeout: 6, refused: 4 },
+    closeCodes: { '1000': 80 },
+    counters: { currentOpen: 8, messagesSent: 500, messageTimeouts: 2 },
+    histograms: { connection_time: range(1, 100) }
+  });
+  const second = snapshot({
+    runnerId: 'runner-a',
+    stage: 'hold',
+    startedAt: '2024-01-01T00:00:05.000Z',
+    updatedAt: '2024-01-01T00:00:20.000Z',
+    connections: { total: 20, active: 15 },
+    attempts: 300,
+    successes: 270,
+    errorsByCategory: { timeout: 30 },
+    closeCodes: { '1000': 200, '1006': 5 },
+    counters: { currentOpen: 15, messagesSent: 1500, messageTimeouts: 3 },
+    histograms: { connection_time: range(101, 200), message_latency: range(1, 10) }
+  });
+
+  it('sums the counts of every runner', () => {
+    const summary = mergeSnapshots([first, second]);
+
+    expect(summary.runners).toEqual(['runner-a', 'runner-b']);
+    expect(summary.finishedRunners).toBe(1);
+    expect(summary.stages).toEqual(['ramp', 'hold']);
+    expect(summary.attempts).toBe(400);
+    expect(summary.successes).toBe(360);
+    expect(summary.successRate).toBe(90);
+    expect(summary.connections).toEqual({ total: 30, active: 23 });
+    expect(summary.closeCodes).toEqual({ '1000': 280, '1006': 5 });
+    expect(summary.counters).toEqual({ currentOpen: 23, messagesSent: 2000, messageTimeouts: 5 });
+  });
+
+  it('counts message timeouts as errors', () => {
+    const summary = mergeSnapshots([first, second]);
+
+    expect(summary.errors.byCategory).toEqual({ timeout: 36, refused: 4, message_timeout: 5 });
+    expect(summary.errors.total).toBe(45);
+  });
+
+  it('merges the histograms before computing percentiles', () => {
+    const summary = mergeSnapshots([first, second]);
+    const connectionTime = summary.latency.connection_time;
+
+    expect(connectionTime.count).toBe(200);
+    expect(connectionTime.mean).toBeCloseTo(100.5);
+    expect(connectionTime.max).toBe(200);
+    expect(Math.abs(connectionTime.p50 - 100) / 100).toBeLessThanOrEqual(0.01);
+    expect(Math.abs(connectionTime.p99 - 198) / 198).toBeLessThanOrEqual(0.01);
+    expect(summary.latency.message_latency.count).toBe(10);
+  });
+
+  it('spans the test from the first start to the last update', () => {
+    const summary = mergeSnapshots([first, second]);
+
+    expect(summary.startedAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(summary.updatedAt).toBe('2024-01-01T00:00:20.000Z');
+    expect(summary.durationMs).toBe(20000);
+    expect(summary.throughput.attemptsPerSecond).toBe(20);
+    expect(summary.throughput.successesPerSecond).toBe(18);
+  });
+
+  it('reports dropped iterations next to the corrected response time of HTTP runners', () => {
+    const http = (runnerId: string, dropped: number) => snapshot({
+      runnerId,
+      testMode: 'http',
+      attempts: 50,
+      successes: 50,
+      statusCodes: { '200': 50 },
+      counters: { droppedIterations: dropped },
+      histograms: { corrected_response_time: range(1, 50) }
+    });
+    const summary = mergeSnapshots([http('runner-a', 3), http('runner-b', 4)]);
+
+    expect(summary.statusCodes).toEqual({ '200': 100 });
+    expect(summary.errors.byCategory).toEqual({ dropped_iteration: 7 });
+    expect(summary.latency.corrected_response_time.count).toBe(100);
+    expect(summary.latency.corrected_response_time.dropped).toBe(7);
+  });
+
+  it('returns an empty summary without snapshots', () => {
+    const summary = mergeSnapshots([]);
+
+    expect(summary.testMode).toBe('unknown');
+    expect(summary.runners).toEqual([]);
+    expect(summary.attempts).toBe(0);
+    expect(summary.successRate).toBe(0);
+    expect(summary.latency).toEqual({});
+  });
+});
@@ -0,0 +1,149 @@
+import { Histogram, HistogramSnapshot, LatencySummary, summarizeLatencies } from './histogram';
+
+// Redis hash holding the latest snapshot of every runner, keyed by runner id
+export const SNAPSHOTS_KEY = 'test:snapshots';
+
+// Mergeable state of one runner, published periodically to Redis
+export interface RunnerSnapshot {
+  runnerId: string;
+  testMode: string;
+  stage: string | null;
+  startedAt: string;
+  updatedAt: string;
+  final: boolean;
+  connections: { total: number; active: number };
+  attempts: number;
+  successes: number;
+  errorsByCategory: Record<string, number>;
+  statusCodes: Record<string, number>;
+  closeCodes: Record<string, number>;
+  // Mode-specific counters, e.g. messagesSent or droppedIterations. Every value is summed across runners,
+  // so gauges such as currentOpen give the fleet total like connections.active does
+  counters: Record<string, number>;
+  histograms: Record<string, HistogramSnapshot>;
+}
+
+// Combined view of all runners of a test
+export interface FleetSummary {
+  testMode: string;
+  runners: string[];
+  finishedRunners: number;
+  stages: string[];
+  startedAt: string;
+  updatedAt: string;
+  durationMs: number;
+  connections: { total: number; active: number };
+  attempts: number;
+  successes: number;
+  successRate: number;
+  errors: {
+    total: number;
+    byCategory: Record<string, number>;
+  };
+  statusCodes: Record<string, number>;
+  closeCodes: Record<string, number>;
+  counters: Record<string, number>;
+  throughput: {
+    attemptsPerSecond: number;
+    successesPerSecond: number;
+  };
+  latency: Record<string, LatencySummary>;
+}
+
+// Add the counts of one map to another
+function addCounts(target: Record<string, number>, source: Record<string, number>): void {
+  for (const [key, count] of Object.entries(source)) {
+    target[key] = (target[key] || 0) + count;
+  }
+}
+
+// Merge runner snapshots into a single view of the fleet
+export function mergeSnapshots(snapshots: RunnerSnapshot[]): FleetSummary {
+  const errorsByCategory: Record<string, number> = {};
+  const statusCodes: Record<string, number> = {};
+  const closeCodes: Record<string, number> = {};
+  const counters: Record<string, number> = {};
+  const histograms: Record<string, Histogram> = {};
+  const stages = new Set<string>();
+  const connections = { total: 0, active: 0 };
+  let attempts = 0;
+  let successes = 0;
+  let startTime = Infinity;
+  let endTime = 0;
+
+  for (const snapshot of snapshots) {
+    attempts += snapshot.attempts;
+    successes += snapshot.successes;
+    connections.total += snapshot.connections.total;
+    connections.active += snapshot.connections.active;
+    addCounts(errorsByCategory, snapshot.errorsByCategory);
+    addCounts(statusCodes, snapshot.statusCodes);
+    addCounts(closeCodes, snapshot.closeCodes);
+    addCounts(counters, snapshot.counters);
+
+    for (const [name, histogramSnapshot] of Object.entries(snapshot.histograms)) {
+      if (!histograms[name]) {
+        histograms[name] = new Histogram();
+      }
+      histograms[name].merge(histogramSnapshot);
+    }
+
+    if (snapshot.stage) {
+      stages.add(snapshot.stage);
+    }
+    startTime = Math.min(startTime, Date.parse(snapshot.startedAt));
+    endTime = Math.max(endTime, Date.parse(snapshot.updatedAt));
+  }
+
+  if (snapshots.length === 0) {
+    startTime = endTime = Date.now();
+  }
+
+  // Count message timeouts and dropped iterations as errors, as the runner summary does
+  const byCategory: Record<string, number> = { ...errorsByCategory };
+  const testMode = snapshots.length > 0 ? snapshots[0].testMode : 'unknown';
+  if (testMode === 'websocket') {
+    byCategory.message_timeout = counters.messageTimeouts || 0;
+  } else if (testMode === 'http') {
+    byCategory.dropped_iteration = counters.droppedIterations || 0;
+  }
+
+  // Dropped arrivals have no corrected response time, so they are reported next to its percentiles
+  const dropped: Record<string, number> = {};
+  if (histograms.corrected_response_time) {
+    dropped.corrected_response_time = counters.droppedIterations || 0;
+  }
+
+  const durationMs = endTime - startTime;
+  const durationSeconds = Math.max(durationMs / 1000, 0.001);
+  const histogramSnapshots: Record<string, HistogramSnapshot> = {};
+  for (const [name, histogram] of Object.entries(histograms)) {
+    histogramSnapshots[name] = histogram.snapshot();
+  }
+
+  return {
+    testMode,
+    runners: snapshots.map(snapshot => snapshot.runnerId).sort(),
+    finishedRunners: snapshots.filter(snapshot => snapshot.final).length,
+    stages: [...stages],
+    startedAt: new Date(startTime).toISOString(),
+    updatedAt: new Date(endTime).toISOString(),
+    durationMs,
+    connections,
+    attempts,
+    successes,
+    successRate: attempts > 0 ? (successes / attempts) * 100 : 0,
+    errors: {
+      total: Object.values(byCategory).reduce((sum, count) => sum + count, 0),
+      byCategory
+    },
+    statusCodes,
+    closeCodes,
+    counters,
+    throughput: {
+      attemptsPerSecond: attempts / durationSeconds,
+      successesPerSecond: successes / durationSeconds
+    },
+    latency: summarizeLatencies(histogramSnapshots, dropped)
+  };
+}
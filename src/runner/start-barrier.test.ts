@@ -0,0 +1,174 @@
+import type Redis from 'ioredis';
+
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+process.env.REPLICAS = '2';
+process.env.START_BARRIER_TIMEOUT = '2s';
+process.env.START_BARRIER_DELAY = '100ms';
+process.env.TEST_DURATION = '1m';
+
+// In-memory stand-in for the Redis commands the barrier uses
+class FakeRedis {
+  public values: Map<string, string> = new Map();
+  public sets: Map<string, Set<string>> = new Map();
+  public expiries: Map<string, number> = new Map();
+
+  public async time(): Promise<[string, string]> {
+    const now = Date.now();
+    return [Math.floor(now / 1000).toString(), ((now % 1000) * 1000).toString()];
+  }
+
+  public async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  public async set(key: string, value: string, ex: 'EX', seconds: number, nx: 'NX'): Promise<'OK' | null> {
+    if (this.values.has(key)) return null;
+    this.values.set(key, value);
+    this.expiries.set(key, seconds);
+    return 'OK';
+  }
+
+  public async scard(key: string): Promise<number> {
+    return this.sets.get(key)?.size ?? 0;
+  }
+
+  public async smembers(key: string): Promise<string[]> {
+    return [...(this.sets.get(key) || [])];
+  }
+
+  public async decr(key: string): Promise<number> {
+    const value = parseInt(this.values.get(key) || '0', 10) - 1;
+    this.values.set(key, value.toString());
+    return value;
+  }
+
+  public async del(...keys: string[]): Promise<number> {
+    keys.forEach(key => {
+      this.values.delete(key);
+      this.sets.delete(key);
+    });
+    return keys.length;
+  }
+
+  public multi() {
+    const results: [null, unknown][] = [];
+    const chain = {
+      sadd: (key: string, member: string) => {
+        const members = this.sets.get(key) || new Set<string>();
+        members.add(member);
+        this.sets.set(key, members);
+        results.push([null, 1]);
+        return chain;
+      },
+      incr: (key: string) => {
+        const value = parseInt(this.values.get(key) || '0', 10) + 1;
+        this.values.set(key, value.toString());
+        results.push([null, value]);
+        return chain;
+      },
+      expire: (key: string, seconds: number) => {
+        this.expiries.set(key, seconds);
+        results.push([null, 1]);
+        return chain;
+      },
+      scard: (key: string) => {
+        results.push([null, this.sets.get(key)?.size ?? 0]);
+        return chain;
+      },
+      exec: async () => results
+    };
+    return chain;
+  }
+}
+
+// Barrier of a runner with the given id, sharing the fake Redis
+async function createBarrier(redis: FakeRedis, runnerId: string) {
+  const { config } = await import('./config');
+  const { StartBarrier } = await import('./start-barrier');
+  config.runnerId = runnerId;
+  return new StartBarrier(redis as unknown as Redis);
+}
+
+describe('StartBarrier', () => {
+  it('starts the runners together and keeps the start time until the test ends', async () => {
+    const { BARRIER_READY_KEY, BARRIER_START_KEY, BARRIER_LEFT_KEY, BARRIER_RUNNING_KEY } = await import('./start-barrier');
+    const redis = new FakeRedis();
+    const first = await createBarrier(redis, 'runner-1');
+    const firstStart = first.wait();
+    // The runner id is read when registering
+    const deadline = Date.now() + 1000;
+    while (!redis.sets.has(BARRIER_READY_KEY) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(redis.sets.get(BARRIER_READY_KEY)).toEqual(new Set(['runner-1']));
+    const second = await createBarrier(redis, 'runner-2');
+    const [firstTime, secondTime] = await Promise.all([firstStart, second.wait()]);
+
+    expect(firstTime).not.toBeNull();
+    expect(Math.abs((firstTime as number) - (secondTime as number))).toBeLessThanOrEqual(2);
+    expect(redis.sets.has(BARRIER_READY_KEY)).toBe(false);
+    expect(redis.values.has(BARRIER_LEFT_KEY)).toBe(false);
+    expect(redis.values.has(BARRIER_START_KEY)).toBe(true);
+    expect(redis.expiries.get(BARRIER_START_KEY)).toBe(121);
+    expect(redis.values.get(BARRIER_RUNNING_KEY)).toBe('2');
+    expect(redis.expiries.get(BARRIER_RUNNING_KEY)).toBe(121);
+
+    // A runner still running keeps the start time, so a restarted runner is still rejected
+    await first.finish();
+    await first.finish();
+    expect(redis.values.get(BARRIER_START_KEY)).toBeDefined();
+    const restarted = await createBarrier(redis, 'runner-1');
+    await expect(restarted.wait()).rejects.toThrow(/before this runner registered/);
+
+    await second.finish();
+    expect(redis.values.has(BARRIER_START_KEY)).toBe(false);
+    expect(redis.values.has(BARRIER_RUNNING_KEY)).toBe(false);
+  });
+
+  it('lets a runner join while the start time is still ahead', async () => {
+    const { BARRIER_START_KEY } = await import('./start-barrier');
+    const redis = new FakeRedis();
+    const startTime = Date.now() + 300;
+    redis.values.set(BARRIER_START_KEY, startTime.toString());
+
+    const late = await createBarrier(redis, 'runner-3');
+    const joined = await late.wait();
+    expect(Math.abs((joined as number) - startTime)).toBeLessThanOrEqual(50);
+    expect(Date.now()).toBeGreaterThanOrEqual(startTime - 50);
+  });
+
+  it('logs the runners that were ready when it times out', async () => {
+    const logger = (await import('./logger')).default;
+    const warn = jest.spyOn(logger, 'warn');
+    const redis = new FakeRedis();
+
+    try {
+      const alone = await createBarrier(redis, 'runner-1');
+      expect(await alone.wait()).not.toBeNull();
+      expect(warn).toHaveBeenCalledWith('Start barrier timed out with 1 of 2 runners ready (runner-1), starting anyway');
+      await alone.finish();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('fails fast for a runner registering after the test has started', async () => {
+    const { BARRIER_READY_KEY, BARRIER_START_KEY } = await import('./start-barrier');
+    const redis = new FakeRedis();
+    redis.values.set(BARRIER_START_KEY, (Date.now() - 5000).toString());
+
+    const late = await createBarrier(redis, 'runner-3');
+    const startedWaiting = Date.now();
+    await expect(late.wait()).rejects.toThrow(/released at .* before this runner registered/);
+    expect(Date.now() - startedWaiting).toBeLessThan(500);
+    expect(redis.sets.has(BARRIER_READY_KEY)).toBe(false);
+
+    // A runner that never started does not clear the start time of the others
+    await late.finish();
+    expect(redis.values.has(BARRIER_START_KEY)).toBe(true);
+  });
+});
@@ -0,0 +1,210 @@
+import Redis from 'ioredis';
+import { config } from './config';
+import logger from './logger';
+
+// Keys shared by the runners of a test, next to the test data keys
+export const BARRIER_READY_KEY = 'test:barrier:ready';
+export const BARRIER_START_KEY = 'test:barrier:start';
+export const BARRIER_LEFT_KEY = 'test:barrier:left';
+export const BARRIER_RUNNING_KEY = 'test:barrier:running';
+
+// Interval between two checks of the barrier
+const POLL_INTERVAL_MS = 500;
+
+// How long the start time is kept when the test runs until it is stopped
+const UNTIL_STOPPED_EXPIRY_SECONDS = 24 * 3600;
+
+// Makes the runners of a distributed test start at the same time: each runner registers
+// in Redis, and once REPLICAS runners are ready (or the timeout elapses) the first one to
+// notice publishes a shared start timestamp that every runner waits for. The last runner
+// to read it deletes the registrations, and the start time is kept until the last runner that
+// started ends its test, so that a runner registering late can tell that it missed the start.
+export class StartBarrier {
+  private redis: Redis;
+  private expiry: number = 0;
+  private isCancelled: boolean = false;
+  private hasStarted: boolean = false;
+  private timer: NodeJS.Timeout | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  // Register this runner and wait for the shared start time; resolves with the start time
+  // in local clock milliseconds, or null if the barrier was cancelled
+  public async wait(): Promise<number | null> {
+    const clockOffset = await this.getClockOffset();
+    // The keys of runners that crash before leaving the barrier expire in the end
+    const expiry = Math.ceil((config.startBarrierTimeoutMs + config.startBarrierDelayMs) / 1000) + 60;
+    this.expiry = expiry;
+
+    // A start time set before this runner registered belongs to a test that is already under way
+    const existingStart = await this.getStartTime();
+    if (existingStart !== null) {
+      const localStartTime = existingStart - clockOffset;
+      if (localStartTime <= Date.now()) {
+        throw new Error(`The start barrier was released at ${new Date(localStartTime).toISOString()}, before this runner registered, ` +
+          `so it cannot start with the other runners; delete ${BARRIER_START_KEY} or reload the test data to start a new test`);
+      }
+      logger.info('The start barrier was released before this runner registered, joining the other runners');
+      return this.waitUntil(localStartTime);
+    }
+
+    await this.redis.multi()
+      .sadd(BARRIER_READY_KEY, config.runnerId)
+      .expire(BARRIER_READY_KEY, expiry)
+      .exec();
+    logger.info(`Registered in the start barrier, waiting for ${config.replicas} runners (timeout ${config.startBarrierTimeoutMs}ms)`);
+
+    const deadline = Date.now() + config.startBarrierTimeoutMs;
+    let startTime: number | null = null;
+
+    while (startTime === null) {
+      if (this.isCancelled) {
+        await this.leave();
+        return null;
+      }
+
+      startTime = await this.getStartTime();
+      if (startTime !== null) break;
+
+      const ready = await this.redis.scard(BARRIER_READY_KEY);
+      if (ready >= config.replicas || Date.now() >= deadline) {
+        if (ready < config.replicas) {
+          const runners = await this.redis.smembers(BARRIER_READY_KEY);
+          logger.warn(`Start barrier timed out with ${ready} of ${config.replicas} runners ready (${runners.sort().join(', ')}), starting anyway`);
+        } else {
+          logger.info(`All ${ready} runners are ready`);
+        }
+
+        // Only the first runner to get here sets the start time, in Redis server time
+        const proposedStart = Date.now() + clockOffset + config.startBarrierDelayMs;
+        await this.redis.set(BARRIER_START_KEY, proposedStart.toString(), 'EX', this.startTimeExpiry(), 'NX');
+        startTime = await this.getStartTime();
+        break;
+      }
+
+      await this.sleep(POLL_INTERVAL_MS);
+    }
+
+    await this.leave();
+    if (startTime === null) {
+      throw new Error('Start barrier finished without a start time');
+    }
+
+    // Convert the shared start time to the local clock
+    return this.waitUntil(startTime - clockOffset);
+  }
+
+  // Count this runner out of the test; the last runner that started deletes the start time,
+  // so that the next test waits for its runners again while the others still reject late runners
+  public async finish(): Promise<void> {
+    if (!this.hasStarted) return;
+    this.hasStarted = false;
+
+    try {
+      const running = await this.redis.decr(BARRIER_RUNNING_KEY);
+      if (running > 0) {
+        logger.info(`${running} runners are still running the test, keeping the start barrier`);
+        return;
+      }
+      await this.redis.del(BARRIER_START_KEY, BARRIER_RUNNING_KEY);
+      logger.debug('Last runner of the test finished, deleted the start time');
+    } catch (error) {
+      logger.warn(`Failed to clear the start barrier: ${(error as Error).message}`);
+    }
+  }
+
+  // Stop waiting, e.g. when the runner is stopped before the test starts
+  public cancel(): void {
+    this.isCancelled = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.wake) {
+      this.wake();
+      this.wake = null;
+    }
+  }
+
+  // Wait for the start time in local clock milliseconds; resolves with it, or null if the barrier was cancelled
+  private async waitUntil(localStartTime: number): Promise<number | null> {
+    const delay = localStartTime - Date.now();
+    if (delay > 0) {
+      logger.info(`Starting the test in ${delay}ms at ${new Date(localStartTime).toISOString()}`);
+      await this.sleep(delay);
+    }
+
+    if (this.isCancelled) return null;
+    this.hasStarted = true;
+
+    // Runners that crash without finishing do not keep the start time past its expiry
+    try {
+      await this.redis.multi()
+        .incr(BARRIER_RUNNING_KEY)
+        .expire(BARRIER_RUNNING_KEY, this.startTimeExpiry())
+        .exec();
+    } catch (error) {
+      logger.warn(`Failed to count this runner in the start barrier: ${(error as Error).message}`);
+    }
+    return localStartTime;
+  }
+
+  // Seconds the start time is kept: until the test ends, or a day when it runs until stopped
+  private startTimeExpiry(): number {
+    if (config.testDurationMs <= 0) return UNTIL_STOPPED_EXPIRY_SECONDS;
+    return Math.ceil((config.startBarrierDelayMs + config.testDurationMs) / 1000) + 60;
+  }
+
+  // Count this runner out of the barrier once it knows the start time or stops waiting; the last
+  // registered runner to leave deletes the registrations, so that the next test counts its own runners
+  private async leave(): Promise<void> {
+    try {
+      const results = await this.redis.multi()
+        .incr(BARRIER_LEFT_KEY)
+        .expire(BARRIER_LEFT_KEY, this.expiry)
+        .scard(BARRIER_READY_KEY)
+        .exec();
+      const left = results ? Number(results[0][1]) : 0;
+      const ready = results ? Number(results[2][1]) : 0;
+
+      if (left >= ready) {
+        await this.redis.del(BARRIER_READY_KEY, BARRIER_LEFT_KEY);
+        logger.debug('All runners left the start barrier, deleted the registrations');
+      }
+    } catch (error) {
+      logger.warn(`Failed to leave the start barrier: ${(error as Error).message}`);
+    }
+  }
+
+  // Shared start time in Redis server time, if it has been set
+  private async getStartTime(): Promise<number | null> {
+    const value = await this.redis.get(BARRIER_START_KEY);
+    return value ? parseInt(value, 10) : null;
+  }
+
+  // Difference between the Redis server clock and the local clock, so runners on hosts
+  // with skewed clocks still start together
+  private async getClockOffset(): Promise<number> {
+    const before = Date.now();
+    const [seconds, microseconds] = await this.redis.time();
+    const after = Date.now();
+
+    const serverTime = Number(seconds) * 1000 + Math.floor(Number(microseconds) / 1000);
+    return serverTime - Math.round((before + after) / 2);
+  }
+
+  // Wait, unless the barrier is cancelled
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.wake = resolve;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.wake = null;
+        resolve();
+      }, ms);
+    });
+  }
+}
@@ -1,24 +1,85 @@
-import { InfluxDB, Point, WriteApi } from '@influxdata/influxdb-client';
-import { config, TestMode } from './config';
+import { config, HttpLoadModel, TestMode } from './config';
 import logger from './logger';
+import { emptyPercentiles, Histogram, HistogramSnapshot, LatencyPercentiles } from './histogram';
+import { ErrorCategory, ErrorClassification } from './error-classifier';
+import { createSinks, MetricPoint, MetricsSink } from './sinks';
 
 // WebSocket Statistics interface
 export interface WebSocketStats {
   totalAttempted: number;
   currentOpen: number;
+  // Connections that opened; refused handshakes are closed too, so totalClosed includes failures
+  totalOpened: number;
   totalClosed: number;
   totalErrors: number;
+  errorsByCategory: Record<string, number>;
+  closeCodes: Record<string, number>;
   averageConnectTime: number;
+  connectTimePercentiles: LatencyPercentiles;
   successRate: number;
+  messagesSent: number;
+  messagesReceived: number;
+  messageTimeouts: number;
+  // Tracked messages still waiting for a reply when their connection closed
+  messagesUnanswered: number;
+  averageMessageLatency: number;
+  messageLatencyPercentiles: LatencyPercentiles;
   lastUpdated: string;
 }
 
+// Outcomes of one step of an HTTP scenario
+export interface StepStats {
+  attempts: number;
+  successes: number;
+  failures: number;
+}
+
+// Durations in milliseconds of the phases of an HTTP request. The connection phases are null when
+// they did not happen: no DNS lookup for an IP address, no TLS for plain HTTP, none of them on a kept-alive socket.
+export interface HttpTimings {
+  dns: number | null;
+  tcp: number | null;
+  tls: number | null;
+  // From the socket being ready to the first byte of the response
+  ttfb: number;
+  // From the first to the last byte of the response
+  download: number;
+}
+
+export type HttpPhase = keyof HttpTimings;
+
+// Metric name of each phase, in summaries and histograms
+export const HTTP_PHASE_METRICS: Record<HttpPhase, string> = {
+  dns: 'dns_time',
+  tcp: 'tcp_time',
+  tls: 'tls_time',
+  ttfb: 'ttfb',
+  download: 'download_time'
+};
+
+// Outcomes of one response or message check
+export interface CheckStats {
+  passes: number;
+  failures: number;
+}
+
 // HTTP Statistics interface
 export interface HttpStats {
   totalAttempted: number;
   totalSuccessful: number;
   totalErrors: number;
+  errorsByCategory: Record<string, number>;
+  statusCodes: Record<string, number>;
   averageResponseTime: number;
+  responseTimePercentiles: LatencyPercentiles;
+  correctedResponseTimePercentiles: LatencyPercentiles;
+  droppedIterations: number;
+  lateIterations: number;
+  // Sockets opened by the HTTP agents, and requests sent on a socket kept alive from an earlier one
+  socketsOpened: number;
+  socketsReused: number;
+  phaseTimePercentiles: Record<HttpPhase, LatencyPercentiles>;
+  steps: Record<string, StepStats>;
   successRate: number;
   lastUpdated: string;
 }
@@ -26,15 +87,31 @@ export interface HttpStats {
 // Combined statistics interface for backward compatibility
 export interface ConnectionStats extends WebSocketStats {}
 
+// Mergeable latency histograms, keyed by metric name
+export type HistogramSnapshots = Record<string, HistogramSnapshot>;
+
 class StatsManager {
-  private influxDB: InfluxDB;
-  private writeApi: WriteApi;
+  private sinks: MetricsSink[];
+  private defaultTags: Record<string, string>;
+  private isClosed: boolean = false;
   private wsStats: WebSocketStats;
   private httpStats: HttpStats;
   private measurementName: string;
-  private connectTimes: number[] = [];
+  private connectTimes: Histogram = new Histogram();
+  private messageLatencies: Histogram = new Histogram();
+  private correctedResponseTimes: Histogram = new Histogram();
+  private stepResponseTimes: Record<string, Histogram> = {};
+  private phaseTimes: Record<HttpPhase, Histogram> = {
+    dns: new Histogram(),
+    tcp: new Histogram(),
+    tls: new Histogram(),
+    ttfb: new Histogram(),
+    download: new Histogram()
+  };
+  private checks: Record<string, CheckStats> = {};
   private updateInterval: NodeJS.Timeout | null = null;
   private isHttpMode: boolean;
+  private currentStage: string | null = null;
 
   constructor() {
     // Set measurement name based on test mode
@@ -45,10 +122,20 @@ class StatsManager {
     this.wsStats = {
       totalAttempted: 0,
       currentOpen: 0,
+      totalOpened: 0,
       totalClosed: 0,
       totalErrors: 0,
+      errorsByCategory: {},
+      closeCodes: {},
       averageConnectTime: 0,
+      connectTimePercentiles: emptyPercentiles(),
       successRate: 0,
+      messagesSent: 0,
+      messagesReceived: 0,
+      messageTimeouts: 0,
+      messagesUnanswered: 0,
+      averageMessageLatency: 0,
+      messageLatencyPercentiles: emptyPercentiles(),
       lastUpdated: new Date().toISOString()
     };
 
@@ -57,37 +144,46 @@ class StatsManager {
       totalAttempted: 0,
       totalSuccessful: 0,
       totalErrors: 0,
+      errorsByCategory: {},
+      statusCodes: {},
       averageResponseTime: 0,
+      responseTimePercentiles: emptyPercentiles(),
+      correctedResponseTimePercentiles: emptyPercentiles(),
+      droppedIterations: 0,
+      lateIterations: 0,
+      socketsOpened: 0,
+      socketsReused: 0,
+      phaseTimePercentiles: {
+        dns: emptyPercentiles(),
+        tcp: emptyPercentiles(),
+        tls: emptyPercentiles(),
+        ttfb: emptyPercentiles(),
+        download: emptyPercentiles()
+      },
+      steps: {},
       successRate: 0,
       lastUpdated: new Date().toISOString()
     };
 
-    // Initialize InfluxDB client
-    try {
-      this.influxDB = new InfluxDB({
-        url: config.influxUrl,
-        token: config.influxToken
-      });
-
-      // Create a write API for the specified org and bucket
-      this.writeApi = this.influxDB.getWriteApi(
-        config.influxOrg,
-        config.influxBucket,
-        'ns' // Precision (nanoseconds)
-      );
-
-      // Set default tags that will be added to all points
-      this.writeApi.useDefaultTags({ runnerId: config.runnerId });
-
-      logger.info(`Connected to InfluxDB at ${config.influxUrl}`);
-      logger.info(`Using organization: ${config.influxOrg}, bucket: ${config.influxBucket}`);
-
-      // Start periodic stats update
-      this.startPeriodicUpdate();
-    } catch (error) {
-      logger.error(`Failed to connect to InfluxDB: ${(error as Error).message}`);
-      throw error;
-    }
+    // Tags added to all points
+    this.defaultTags = { runnerId: config.runnerId };
+
+    // Create the configured metrics sinks
+    this.sinks = createSinks();
+
+    // Start periodic stats update
+    this.startPeriodicUpdate();
+  }
+
+  // Tag every following point with the name of the current load profile stage
+  public setStage(stage: string): void {
+    this.currentStage = stage;
+    this.defaultTags = { runnerId: config.runnerId, stage };
+  }
+
+  // Name of the current load profile stage, if a profile is running
+  public getCurrentStage(): string | null {
+    return this.currentStage;
   }
 
   // Start connection attempt
@@ -99,11 +195,11 @@ class StatsManager {
     }
 
     // Write a point for connection attempt
-    const point = new Point(this.measurementName)
+    const point = new MetricPoint(this.measurementName)
       .tag('event_type', 'attempt')
       .intField('count', 1);
 
-    this.writeApi.writePoint(point);
+    this.writePoint(point);
     this.updateStats();
   }
 
@@ -112,24 +208,25 @@ class StatsManager {
     if (this.isHttpMode) {
       // For HTTP, each successful connection is counted
       this.httpStats.totalSuccessful++;
-      this.connectTimes.push(connectTime);
+      this.connectTimes.record(connectTime);
       this.updateAverageResponseTime();
       this.updateHttpSuccessRate();
     } else {
       // For WebSocket, track currently open connections
       this.wsStats.currentOpen++;
-      this.connectTimes.push(connectTime);
+      this.wsStats.totalOpened++;
+      this.connectTimes.record(connectTime);
       this.updateAverageConnectTime();
       this.updateWsSuccessRate();
     }
 
     // Write a point for connection opened
-    const point = new Point(this.measurementName)
+    const point = new MetricPoint(this.measurementName)
       .tag('event_type', 'open')
       .intField('count', 1)
       .intField('connect_time_ms', connectTime);
 
-    this.writeApi.writePoint(point);
+    this.writePoint(point);
     this.updateStats();
   }
 
@@ -151,65 +248,263 @@ class StatsManager {
     }
 
     // Write a point for connection closed
-    const point = new Point(this.measurementName)
+    const point = new MetricPoint(this.measurementName)
       .tag('event_type', 'close')
       .intField('count', 1);
 
-    this.writeApi.writePoint(point);
+    this.writePoint(point);
     this.updateStats();
   }
 
-  // Connection error
-  public connectionError(): void {
+  // Connection error, tagged with its cause
+  public connectionError(classification: ErrorClassification = { category: ErrorCategory.UNKNOWN, code: 'unknown' }): void {
+    const stats = this.isHttpMode ? this.httpStats : this.wsStats;
+    stats.totalErrors++;
+    stats.errorsByCategory[classification.category] = (stats.errorsByCategory[classification.category] || 0) + 1;
+
     if (this.isHttpMode) {
-      this.httpStats.totalErrors++;
       this.updateHttpSuccessRate();
     } else {
-      this.wsStats.totalErrors++;
       this.updateWsSuccessRate();
     }
 
     // Write a point for connection error
-    const point = new Point(this.measurementName)
+    const point = new MetricPoint(this.measurementName)
       .tag('event_type', 'error')
+      .tag('error_category', classification.category)
+      .tag('error_code', classification.code)
       .intField('count', 1);
 
-    this.writeApi.writePoint(point);
+    this.writePoint(point);
     this.updateStats();
   }
 
-  // Calculate average connection time for WebSocket
-  private updateAverageConnectTime(): void {
-    if (this.connectTimes.length === 0) return;
+  // HTTP response received with the given status code
+  public httpStatus(status: number): void {
+    const code = status.toString();
+    this.httpStats.statusCodes[code] = (this.httpStats.statusCodes[code] || 0) + 1;
 
-    const sum = this.connectTimes.reduce((acc, time) => acc + time, 0);
-    this.wsStats.averageConnectTime = sum / this.connectTimes.length;
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'http_status')
+      .tag('status_code', code)
+      .intField('count', 1);
+
+    this.writePoint(point);
+  }
+
+  // WebSocket connection closed with the given close code
+  public wsCloseCode(closeCode: number): void {
+    const code = closeCode.toString();
+    this.wsStats.closeCodes[code] = (this.wsStats.closeCodes[code] || 0) + 1;
+
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'ws_close')
+      .tag('close_code', code)
+      .intField('count', 1);
+
+    this.writePoint(point);
+  }
+
+  // WebSocket message sent
+  public messageSent(): void {
+    this.wsStats.messagesSent++;
 
-    // Limit the array size to prevent memory issues
-    if (this.connectTimes.length > 1000) {
-      this.connectTimes = this.connectTimes.slice(-1000);
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'message_sent')
+      .intField('count', 1);
+
+    this.writePoint(point);
+  }
+
+  // WebSocket message received, with the round-trip latency when it answers a tracked message
+  public messageReceived(latency?: number): void {
+    this.wsStats.messagesReceived++;
+
+    let point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'message_received')
+      .intField('count', 1);
+
+    if (latency !== undefined) {
+      this.messageLatencies.record(latency);
+      this.updateAverageMessageLatency();
+      point = point.intField('latency_ms', latency);
     }
+
+    this.writePoint(point);
   }
 
-  // Calculate average response time for HTTP
-  private updateAverageResponseTime(): void {
-    if (this.connectTimes.length === 0) return;
+  // No reply received for a tracked WebSocket message
+  public messageTimeout(): void {
+    this.wsStats.messageTimeouts++;
+
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'message_timeout')
+      .intField('count', 1);
+
+    this.writePoint(point);
+  }
+
+  // Tracked WebSocket messages whose connection closed before a reply or a timeout
+  public messagesUnanswered(count: number): void {
+    this.wsStats.messagesUnanswered += count;
+
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'message_unanswered')
+      .intField('count', count);
+
+    this.writePoint(point);
+  }
 
-    const sum = this.connectTimes.reduce((acc, time) => acc + time, 0);
-    this.httpStats.averageResponseTime = sum / this.connectTimes.length;
+  // Response time measured from the intended start of an open-model iteration
+  public correctedResponseTime(latency: number): void {
+    this.correctedResponseTimes.record(latency);
 
-    // Limit the array size to prevent memory issues
-    if (this.connectTimes.length > 1000) {
-      this.connectTimes = this.connectTimes.slice(-1000);
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'corrected_response')
+      .intField('corrected_time_ms', Math.round(latency));
+
+    this.writePoint(point);
+  }
+
+  // Open-model iteration skipped because too many requests were in flight
+  public iterationDropped(): void {
+    this.httpStats.droppedIterations++;
+
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'dropped')
+      .intField('count', 1);
+
+    this.writePoint(point);
+  }
+
+  // Socket opened by an HTTP agent
+  public socketOpened(): void {
+    this.httpStats.socketsOpened++;
+  }
+
+  // HTTP request sent on a socket kept alive from an earlier request
+  public socketReused(): void {
+    this.httpStats.socketsReused++;
+  }
+
+  // Phase timings of an HTTP response; phases that did not happen are left out of their percentiles
+  public httpTimings(timings: HttpTimings): void {
+    let point = new MetricPoint(this.measurementName).tag('event_type', 'timing');
+
+    for (const phase of Object.keys(HTTP_PHASE_METRICS) as HttpPhase[]) {
+      const duration = timings[phase];
+      if (duration === null) continue;
+
+      this.phaseTimes[phase].record(duration);
+      point = point.floatField(`${HTTP_PHASE_METRICS[phase]}_ms`, duration);
     }
+
+    this.writePoint(point);
+  }
+
+  // Open-model iteration started later than scheduled
+  public iterationLate(lag: number): void {
+    this.httpStats.lateIterations++;
+
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'late')
+      .intField('count', 1)
+      .intField('lag_ms', Math.round(lag));
+
+    this.writePoint(point);
+  }
+
+  // Step of an HTTP scenario completed; a step fails when its request fails or a value cannot be extracted
+  public stepCompleted(step: string, responseTime: number, succeeded: boolean): void {
+    if (!this.httpStats.steps[step]) {
+      this.httpStats.steps[step] = { attempts: 0, successes: 0, failures: 0 };
+      this.stepResponseTimes[step] = new Histogram();
+    }
+    const stepStats = this.httpStats.steps[step];
+    stepStats.attempts++;
+    if (succeeded) {
+      stepStats.successes++;
+      this.stepResponseTimes[step].record(responseTime);
+    } else {
+      stepStats.failures++;
+    }
+
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'step')
+      .tag('step', step)
+      .tag('success', succeeded.toString())
+      .intField('count', 1)
+      .intField('response_time_ms', Math.round(responseTime));
+
+    this.writePoint(point);
+  }
+
+  // Response or message check evaluated; failures are counted apart from transport errors
+  public checkCompleted(check: string, passed: boolean): void {
+    if (!this.checks[check]) {
+      this.checks[check] = { passes: 0, failures: 0 };
+    }
+    if (passed) {
+      this.checks[check].passes++;
+    } else {
+      this.checks[check].failures++;
+    }
+
+    const point = new MetricPoint(this.measurementName)
+      .tag('event_type', 'check')
+      .tag('check', check)
+      .tag('passed', passed.toString())
+      .intField('count', 1);
+
+    this.writePoint(point);
+  }
+
+  // Calculate the average round-trip latency of WebSocket messages
+  private updateAverageMessageLatency(): void {
+    this.wsStats.averageMessageLatency = this.messageLatencies.getMean();
+  }
+
+  // Calculate the average connection time for WebSocket
+  private updateAverageConnectTime(): void {
+    this.wsStats.averageConnectTime = this.connectTimes.getMean();
+  }
+
+  // Calculate the average response time for HTTP
+  private updateAverageResponseTime(): void {
+    this.httpStats.averageResponseTime = this.connectTimes.getMean();
+  }
+
+  // Compute the latency percentiles from the histograms. Walking the buckets is too costly for every
+  // sample, so this runs when the stats are flushed or read.
+  private updatePercentiles(): void {
+    if (this.isHttpMode) {
+      this.httpStats.responseTimePercentiles = this.connectTimes.getPercentiles();
+      this.httpStats.correctedResponseTimePercentiles = this.correctedResponseTimes.getPercentiles();
+      for (const phase of Object.keys(HTTP_PHASE_METRICS) as HttpPhase[]) {
+        this.httpStats.phaseTimePercentiles[phase] = this.phaseTimes[phase].getPercentiles();
+      }
+    } else {
+      this.wsStats.connectTimePercentiles = this.connectTimes.getPercentiles();
+      this.wsStats.messageLatencyPercentiles = this.messageLatencies.getPercentiles();
+    }
+  }
+
+  // Add percentile fields for a latency metric to a point
+  private addPercentileFields(point: MetricPoint, prefix: string, percentiles: LatencyPercentiles): MetricPoint {
+    return point
+      .floatField(`${prefix}_p50`, percentiles.p50)
+      .floatField(`${prefix}_p90`, percentiles.p90)
+      .floatField(`${prefix}_p95`, percentiles.p95)
+      .floatField(`${prefix}_p99`, percentiles.p99)
+      .floatField(`${prefix}_max`, percentiles.max);
   }
 
   // Calculate success rate for WebSocket
   private updateWsSuccessRate(): void {
     if (this.wsStats.totalAttempted === 0) return;
 
-    const successfulConnections = this.wsStats.currentOpen + this.wsStats.totalClosed;
-    this.wsStats.successRate = (successfulConnections / this.wsStats.totalAttempted) * 100;
+    // A refused handshake is closed as well, so only the connections that opened are successes
+    this.wsStats.successRate = (this.wsStats.totalOpened / this.wsStats.totalAttempted) * 100;
   }
 
   // Calculate success rate for HTTP
@@ -219,9 +514,42 @@ class StatsManager {
     this.httpStats.successRate = (this.httpStats.totalSuccessful / this.httpStats.totalAttempted) * 100;
   }
 
-  // Update stats in InfluxDB
-  private async updateStats(): Promise<void> {
+  // Tag a point with the default tags and hand it to every sink
+  private writePoint(point: MetricPoint): void {
+    // Points recorded while shutting down arrive after the sinks are closed
+    if (this.isClosed) return;
+
+    for (const [name, value] of Object.entries(this.defaultTags)) {
+      point.tag(name, value);
+    }
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(point);
+      } catch (error) {
+        logger.error(`Failed to write metrics to the ${sink.name} sink: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  // Send the buffered points of every sink
+  private async flushSinks(): Promise<void> {
+    await Promise.all(this.sinks.map(async (sink) => {
+      try {
+        await sink.flush();
+      } catch (error) {
+        logger.error(`Failed to flush metrics to the ${sink.name} sink: ${(error as Error).message}`);
+      }
+    }));
+  }
+
+  // Update stats in the metrics sinks; the latency percentiles are only added on the periodic update
+  // and when closing, not to the summary written after every event
+  private async updateStats(withPercentiles: boolean = false): Promise<void> {
     const currentTime = new Date().toISOString();
+    if (withPercentiles) {
+      this.updatePercentiles();
+    }
 
     if (this.isHttpMode) {
       this.httpStats.lastUpdated = currentTime;
@@ -231,7 +559,7 @@ class StatsManager {
 
     try {
       // Create a point for the current stats summary based on mode
-      let point = new Point(this.measurementName).tag('event_type', 'summary');
+      let point = new MetricPoint(this.measurementName).tag('event_type', 'summary');
 
       if (this.isHttpMode) {
         // HTTP-specific fields
@@ -240,7 +568,24 @@ class StatsManager {
           .intField('total_successful', this.httpStats.totalSuccessful)
           .intField('total_errors', this.httpStats.totalErrors)
           .floatField('average_response_time', this.httpStats.averageResponseTime)
-          .floatField('success_rate', this.httpStats.successRate);
+          .floatField('success_rate', this.httpStats.successRate)
+          .intField('sockets_opened', this.httpStats.socketsOpened)
+          .intField('sockets_reused', this.httpStats.socketsReused);
+        if (withPercentiles) {
+          point = this.addPercentileFields(point, 'response_time', this.httpStats.responseTimePercentiles);
+          for (const [phase, metric] of Object.entries(HTTP_PHASE_METRICS) as [HttpPhase, string][]) {
+            point = this.addPercentileFields(point, metric, this.httpStats.phaseTimePercentiles[phase]);
+          }
+        }
+
+        if (config.httpLoadModel === HttpLoadModel.OPEN) {
+          point = point
+            .intField('dropped_iterations', this.httpStats.droppedIterations)
+            .intField('late_iterations', this.httpStats.lateIterations);
+          if (withPercentiles) {
+            point = this.addPercentileFields(point, 'corrected_response_time', this.httpStats.correctedResponseTimePercentiles);
+          }
+        }
 
         // For backward compatibility, also include current_open field
         point = point.intField('current_open', this.httpStats.totalSuccessful);
@@ -252,30 +597,73 @@ class StatsManager {
           .intField('total_closed', this.wsStats.totalClosed)
           .intField('total_errors', this.wsStats.totalErrors)
           .floatField('average_connect_time', this.wsStats.averageConnectTime)
-          .floatField('success_rate', this.wsStats.successRate);
+          .floatField('success_rate', this.wsStats.successRate)
+          .intField('messages_sent', this.wsStats.messagesSent)
+          .intField('messages_received', this.wsStats.messagesReceived)
+          .intField('message_timeouts', this.wsStats.messageTimeouts)
+          .intField('messages_unanswered', this.wsStats.messagesUnanswered)
+          .floatField('average_message_latency', this.wsStats.averageMessageLatency);
+        if (withPercentiles) {
+          point = this.addPercentileFields(point, 'connect_time', this.wsStats.connectTimePercentiles);
+          point = this.addPercentileFields(point, 'message_latency', this.wsStats.messageLatencyPercentiles);
+        }
       }
 
-      // Write the point to InfluxDB
-      this.writeApi.writePoint(point);
+      // Outcomes per HTTP scenario step
+      if (this.isHttpMode) {
+        for (const [step, stepStats] of Object.entries(this.httpStats.steps)) {
+          point = point
+            .intField(`step_${step}_attempts`, stepStats.attempts)
+            .intField(`step_${step}_successes`, stepStats.successes);
+          if (withPercentiles) {
+            point = this.addPercentileFields(point, `step_${step}_response_time`, this.stepResponseTimes[step].getPercentiles());
+          }
+        }
+      }
 
-      // Flush the write buffer to ensure data is sent to InfluxDB
-      await this.writeApi.flush();
+      // Outcomes per response or message check
+      for (const [check, checkStats] of Object.entries(this.checks)) {
+        point = point
+          .intField(`check_${check}_passes`, checkStats.passes)
+          .intField(`check_${check}_failures`, checkStats.failures);
+      }
+
+      // Error counts per cause
+      const errorsByCategory = this.isHttpMode ? this.httpStats.errorsByCategory : this.wsStats.errorsByCategory;
+      for (const [category, count] of Object.entries(errorsByCategory)) {
+        point = point.intField(`errors_${category}`, count);
+      }
 
+      // Counts per HTTP status code or WebSocket close code
       if (this.isHttpMode) {
-        logger.debug(`HTTP stats updated in InfluxDB: ${JSON.stringify(this.httpStats)}`);
+        for (const [code, count] of Object.entries(this.httpStats.statusCodes)) {
+          point = point.intField(`status_${code}`, count);
+        }
       } else {
-        logger.debug(`WebSocket stats updated in InfluxDB: ${JSON.stringify(this.wsStats)}`);
+        for (const [code, count] of Object.entries(this.wsStats.closeCodes)) {
+          point = point.intField(`close_${code}`, count);
+        }
+      }
+
+      // Write the point and flush the sinks to ensure data is sent
+      this.writePoint(point);
+      await this.flushSinks();
+
+      if (this.isHttpMode) {
+        logger.debug(`HTTP stats updated: ${JSON.stringify(this.httpStats)}`);
+      } else {
+        logger.debug(`WebSocket stats updated: ${JSON.stringify(this.wsStats)}`);
       }
     } catch (error) {
-      logger.error(`Failed to update stats in InfluxDB: ${(error as Error).message}`);
+      logger.error(`Failed to update stats: ${(error as Error).message}`);
     }
   }
 
-  // Start periodic update of stats to InfluxDB
+  // Start periodic update of stats to the metrics sinks
   private startPeriodicUpdate(): void {
     // Update stats every 5 seconds
     this.updateInterval = setInterval(() => {
-      this.updateStats();
+      this.updateStats(true);
     }, 5000);
   }
 
@@ -285,18 +673,25 @@ class StatsManager {
       clearInterval(this.updateInterval);
     }
 
-    try {
-      // Flush any remaining writes and close the client
-      await this.writeApi.flush();
-      await this.writeApi.close();
-      logger.info('InfluxDB connection closed');
-    } catch (error) {
-      logger.error(`Error closing InfluxDB connection: ${(error as Error).message}`);
-    }
+    if (this.isClosed) return;
+
+    // Write the final state before closing
+    await this.updateStats(true);
+    this.isClosed = true;
+
+    // Flush any remaining writes and close the sinks
+    await Promise.all(this.sinks.map(async (sink) => {
+      try {
+        await sink.close();
+      } catch (error) {
+        logger.error(`Error closing the ${sink.name} sink: ${(error as Error).message}`);
+      }
+    }));
   }
 
   // Get current stats based on mode
   public getStats(): ConnectionStats | HttpStats {
+    this.updatePercentiles();
     if (this.isHttpMode) {
       return { ...this.httpStats };
     } else {
@@ -306,12 +701,55 @@ class StatsManager {
 
   // Get HTTP stats specifically
   public getHttpStats(): HttpStats {
-    return { ...this.httpStats };
+    this.updatePercentiles();
+    return {
+      ...this.httpStats,
+      errorsByCategory: { ...this.httpStats.errorsByCategory },
+      statusCodes: { ...this.httpStats.statusCodes },
+      phaseTimePercentiles: { ...this.httpStats.phaseTimePercentiles },
+      steps: Object.fromEntries(Object.entries(this.httpStats.steps).map(([step, stepStats]) => [step, { ...stepStats }]))
+    };
   }
 
   // Get WebSocket stats specifically
   public getWebSocketStats(): WebSocketStats {
-    return { ...this.wsStats };
+    this.updatePercentiles();
+    return {
+      ...this.wsStats,
+      errorsByCategory: { ...this.wsStats.errorsByCategory },
+      closeCodes: { ...this.wsStats.closeCodes }
+    };
+  }
+
+  // Get the outcomes of every check evaluated so far
+  public getCheckStats(): Record<string, CheckStats> {
+    return Object.fromEntries(Object.entries(this.checks).map(([check, checkStats]) => [check, { ...checkStats }]));
+  }
+
+  // Sinks the points are written to
+  public getSinks(): MetricsSink[] {
+    return this.sinks;
+  }
+
+  // Get mergeable snapshots of the latency histograms
+  public getHistogramSnapshots(): HistogramSnapshots {
+    const snapshots: HistogramSnapshots = {};
+
+    if (this.isHttpMode) {
+      snapshots.response_time = this.connectTimes.snapshot();
+      snapshots.corrected_response_time = this.correctedResponseTimes.snapshot();
+      for (const [step, histogram] of Object.entries(this.stepResponseTimes)) {
+        snapshots[`step_${step}`] = histogram.snapshot();
+      }
+      for (const [phase, metric] of Object.entries(HTTP_PHASE_METRICS) as [HttpPhase, string][]) {
+        snapshots[metric] = this.phaseTimes[phase].snapshot();
+      }
+    } else {
+      snapshots.connect_time = this.connectTimes.snapshot();
+      snapshots.message_latency = this.messageLatencies.snapshot();
+    }
+
+    return snapshots;
   }
 }
 
@@ -0,0 +1,91 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+process.env.RUNNER_ID = 'runner-7';
+
+import net from 'net';
+import type { StatusServer } from './status-server';
+
+let server: StatusServer;
+let baseUrl: string;
+
+// Port that nothing listens on
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+beforeAll(async () => {
+  const { StatusServer } = await import('./status-server');
+  const port = await freePort();
+  server = new StatusServer(port, () => ({ total: 10, active: 7 }));
+  await server.start();
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await server.close();
+  const { statsManager } = await import('./stats');
+  await statsManager.close();
+});
+
+describe('StatusServer', () => {
+  it('reports the runner as healthy', async () => {
+    const response = await fetch(`${baseUrl}/health?probe=liveness`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toMatchObject({ status: 'ok', runnerId: 'runner-7' });
+  });
+
+  it('serves the statistics and configuration as JSON', async () => {
+    const response = await fetch(`${baseUrl}/stats`);
+    const body = await response.json() as { stats: { totalAttempted: number } };
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      runnerId: 'runner-7',
+      testMode: 'websocket',
+      connections: { total: 10, active: 7 },
+      config: { targetUrl: 'ws://127.0.0.1:1' }
+    });
+    expect(body.stats.totalAttempted).toBe(0);
+  });
+
+  it('serves the metrics in the Prometheus text format', async () => {
+    const response = await fetch(`${baseUrl}/metrics`);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(body).toContain('# TYPE loadtest_connections gauge\nloadtest_connections{runner_id="runner-7",mode="websocket"} 10\n');
+    expect(body).toContain('loadtest_active_connections{runner_id="runner-7",mode="websocket"} 7\n');
+    expect(body).toContain('loadtest_ws_open_connections{runner_id="runner-7"} 0\n');
+  });
+
+  it('rejects unknown paths and other methods', async () => {
+    const notFound = await fetch(`${baseUrl}/missing`);
+    expect(notFound.status).toBe(404);
+    expect(await notFound.json()).toEqual({ error: 'Not found: /missing' });
+
+    const notAllowed = await fetch(`${baseUrl}/stats`, { method: 'POST' });
+    expect(notAllowed.status).toBe(405);
+    expect(await notAllowed.json()).toEqual({ error: 'Method not allowed' });
+  });
+
+  it('reports the runner as unhealthy once it is stopping', async () => {
+    server.markStopping();
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ status: 'stopping' });
+  });
+});
@@ -0,0 +1,136 @@
+import http from 'http';
+import { config, TestMode } from './config';
+import logger from './logger';
+import { statsManager } from './stats';
+import { testDataSource } from './data-source';
+import { formatPrometheusMetrics } from './prometheus';
+import { PrometheusSink } from './sinks';
+
+type ConnectionStatsProvider = () => { total: number, active: number };
+
+// Small HTTP server exposing the runner's live state for probes and scrapers
+export class StatusServer {
+  private server: http.Server | null = null;
+  private port: number;
+  private getConnectionStats: ConnectionStatsProvider;
+  private startTime: number = Date.now();
+  private isStopping: boolean = false;
+
+  constructor(port: number, getConnectionStats: ConnectionStatsProvider) {
+    this.port = port;
+    this.getConnectionStats = getConnectionStats;
+  }
+
+  // Start listening
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer(this.handleRequest.bind(this));
+      this.server.once('error', reject);
+      this.server.listen(this.port, () => {
+        logger.info(`Status server listening on port ${this.port} (/health, /stats, /metrics)`);
+        resolve();
+      });
+    });
+  }
+
+  // Report unhealthy from now on, so probes see the runner is going away
+  public markStopping(): void {
+    this.isStopping = true;
+  }
+
+  // Stop listening
+  public close(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+
+      this.server.close(() => {
+        logger.info('Status server closed');
+        resolve();
+      });
+      // Do not wait for idle keep-alive connections from scrapers
+      this.server.closeAllConnections();
+      this.server = null;
+    });
+  }
+
+  // Route a request to its handler
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const path = (req.url || '/').split('?')[0];
+
+    if (req.method !== 'GET') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    try {
+      switch (path) {
+        case '/health':
+          this.sendJson(res, this.isStopping ? 503 : 200, {
+            status: this.isStopping ? 'stopping' : 'ok',
+            runnerId: config.runnerId,
+            uptimeSeconds: Math.floor((Date.now() - this.startTime) / 1000)
+          });
+          break;
+        case '/stats':
+          this.sendJson(res, 200, this.buildStats());
+          break;
+        case '/metrics':
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(this.buildMetrics());
+          break;
+        default:
+          this.sendJson(res, 404, { error: `Not found: ${path}` });
+      }
+    } catch (error) {
+      logger.error(`Status server failed to handle ${path}: ${(error as Error).message}`);
+      this.sendJson(res, 500, { error: (error as Error).message });
+    }
+  }
+
+  // Runner metrics, followed by the series of the Prometheus sink when it is enabled
+  private buildMetrics(): string {
+    let metrics = formatPrometheusMetrics(this.getConnectionStats());
+    for (const sink of statsManager.getSinks()) {
+      if (sink instanceof PrometheusSink) {
+        metrics += sink.render();
+      }
+    }
+    return metrics;
+  }
+
+  // Current statistics and a summary of the configuration
+  private buildStats(): object {
+    return {
+      runnerId: config.runnerId,
+      testMode: config.testMode,
+      stage: statsManager.getCurrentStage(),
+      connections: this.getConnectionStats(),
+      dataRowsConsumed: testDataSource.getConsumedCount(),
+      stats: config.testMode === TestMode.WEBSOCKET ? statsManager.getWebSocketStats() : statsManager.getHttpStats(),
+      checks: statsManager.getCheckStats(),
+      config: {
+        targetUrl: config.testMode === TestMode.WEBSOCKET ? config.wsUrl : config.httpUrl,
+        httpMethod: config.testMode === TestMode.HTTP ? config.httpMethod : undefined,
+        numConnections: config.numConnections,
+        connectionMode: config.connectionMode,
+        connectionRate: config.connectionRate,
+        replicas: config.replicas,
+        maxRowsPerRunner: config.maxRowsPerRunner,
+        httpLoadModel: config.testMode === TestMode.HTTP ? config.httpLoadModel : undefined,
+        testDurationMs: config.testDurationMs,
+        metricsSinks: config.metricsSinks,
+        dataSource: config.dataSource,
+        thresholds: config.thresholds
+      }
+    };
+  }
+
+  // Write a JSON response
+  private sendJson(res: http.ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, null, 2));
+  }
+}
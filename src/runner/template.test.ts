@@ -0,0 +1,116 @@
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.WS_URL = 'ws://127.0.0.1:1';
+process.env.RUNNER_ID = 'runner-7';
+
+import type { TemplateContext } from './template';
+
+const context: TemplateContext = {
+  testData: { level: '1', user: 'ada lovelace', empty: '', id: '42' },
+  connectionId: 3,
+  variables: { token: 'abc', id: 'from-variable' }
+};
+
+afterEach(async () => {
+  const { config } = await import('./config');
+  config.templateStrict = false;
+});
+
+describe('renderTemplate', () => {
+  it('replaces test data columns, with extracted variables taking precedence', async () => {
+    const { renderTemplate } = await import('./template');
+
+    expect(renderTemplate('/users/@{user}/@{id}?token=@{token}', context)).toBe('/users/ada lovelace/from-variable?token=abc');
+  });
+
+  it('uses the default for missing and empty values', async () => {
+    const { renderTemplate } = await import('./template');
+
+    expect(renderTemplate('@{missing:-fallback}', context)).toBe('fallback');
+    expect(renderTemplate('@{empty:-fallback}', context)).toBe('fallback');
+    expect(renderTemplate('@{user:-fallback}', context)).toBe('ada lovelace');
+    expect(renderTemplate('@{missing:-}', context)).toBe('');
+  });
+
+  it('applies filters in order', async () => {
+    const { renderTemplate } = await import('./template');
+
+    expect(renderTemplate('@{user|url}', context)).toBe('ada%20lovelace');
+    expect(renderTemplate('@{user|base64}', context)).toBe(Buffer.from('ada lovelace').toString('base64'));
+    expect(renderTemplate('@{quote|json}', { testData: { level: '1', quote: 'say "hi"\n' } })).toBe('say \\"hi\\"\\n');
+    expect(renderTemplate('@{missing:-a b|url|base64}', context)).toBe(Buffer.from('a%20b').toString('base64'));
+  });
+
+  it('runs the built-in generators', async () => {
+    const { renderTemplate } = await import('./template');
+
+    expect(renderTemplate('@{$uuid}', context)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    expect(Number(renderTemplate('@{$randomInt(5, 7)}', context))).toBeGreaterThanOrEqual(5);
+    expect(Number(renderTemplate('@{$randomInt(5, 7)}', context))).toBeLessThanOrEqual(7);
+    expect(renderTemplate('@{$runnerId}-@{$connectionId}', context)).toBe('runner-7-3');
+
+    const first = Number(renderTemplate('@{$counter}', context));
+    expect(Number(renderTemplate('@{$counter}', context))).toBe(first + 1);
+  });
+
+  it('leaves missing variables in place unless strict', async () => {
+    const { renderTemplate } = await import('./template');
+    const { config } = await import('./config');
+
+    expect(renderTemplate('/users/@{missing}', context)).toBe('/users/@{missing}');
+    expect(renderTemplate('/users/@{user}', { testData: null })).toBe('/users/@{user}');
+
+    config.templateStrict = true;
+    expect(() => renderTemplate('/users/@{missing}', context)).toThrow('Connection 3: Variable @{missing} not found in test data');
+    expect(renderTemplate('/users/@{missing:-none}', context)).toBe('/users/none');
+  });
+
+  it('rejects invalid placeholders, generators and filters', async () => {
+    const { renderTemplate, TemplateError } = await import('./template');
+
+    expect(() => renderTemplate('@{$nope}', context)).toThrow(/Unknown generator @{\$nope}/);
+    expect(() => renderTemplate('@{user|upper}', context)).toThrow(/Unknown filter 'upper'/);
+    expect(() => renderTemplate('@{$randomInt(9,1)}', context)).toThrow(TemplateError);
+    expect(() => renderTemplate('@{a(b}', context)).toThrow(/Invalid placeholder/);
+  });
+});
+
+describe('renderInValue', () => {
+  it('renders the strings nested in objects and arrays', async () => {
+    const { renderInValue } = await import('./template');
+
+    expect(renderInValue({ user: '@{user}', ids: ['@{id}', 7], nested: { ok: true, empty: null } }, context))
+      .toEqual({ user: 'ada lovelace', ids: ['from-variable', 7], nested: { ok: true, empty: null } });
+  });
+});
+
+describe('checkTemplates', () => {
+  it('accepts declared variables and restores the counter', async () => {
+    const { checkTemplates, renderTemplate } = await import('./template');
+    const { config } = await import('./config');
+    config.templateStrict = true;
+
+    const before = Number(renderTemplate('@{$counter}', context));
+    checkTemplates(['@{$counter}', { body: '@{user} @{token} @{$counter}' }], { level: '1', user: 'x' }, ['token']);
+    expect(Number(renderTemplate('@{$counter}', context))).toBe(before + 1);
+  });
+
+  it('fails on missing variables in strict mode and still restores the counter', async () => {
+    const { checkTemplates, renderTemplate } = await import('./template');
+    const { config } = await import('./config');
+    config.templateStrict = true;
+
+    const before = Number(renderTemplate('@{$counter}', context));
+    expect(() => checkTemplates(['@{$counter}', '@{token}'], { level: '1', user: 'x' })).toThrow(/Variable @{token} not found/);
+    expect(Number(renderTemplate('@{$counter}', context))).toBe(before + 1);
+  });
+
+  it('fails on invalid placeholders without strict mode', async () => {
+    const { checkTemplates } = await import('./template');
+
+    expect(() => checkTemplates(['@{$nope}'], null)).toThrow(/Unknown generator/);
+    expect(() => checkTemplates(['@{missing}'], { level: '1', user: 'x' })).not.toThrow();
+  });
+});
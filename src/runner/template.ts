@@ -0,0 +1,152 @@
+import { randomInt, randomUUID } from 'crypto';
+import { config } from './config';
+import logger from './logger';
+import { TestDataRow } from './data-source';
+
+// Values a template can refer to besides the built-in generators
+export interface TemplateContext {
+  testData: TestDataRow | null;
+  connectionId?: number;
+  // Values extracted from earlier responses, taking precedence over test data columns
+  variables?: Record<string, string>;
+}
+
+// Error raised for invalid templates, and for missing variables in strict mode
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// @{name}, @{name:-default}, @{$generator(args)} and any of these followed by |filter
+const PLACEHOLDER_REGEX = /@{([^}]+)}/g;
+const EXPRESSION_REGEX = /^(\$?[^:|()]+?)(?:\(([^)]*)\))?(?::-(.*?))?((?:\|[a-z0-9]+)*)$/;
+
+// Incremented by every @{$counter} placeholder of the runner
+let counter = 0;
+
+type Generator = (args: string[], context: TemplateContext) => string;
+
+// Built-in generators, referred to as @{$name} or @{$name(arg1,arg2)}
+const GENERATORS: Record<string, Generator> = {
+  uuid: () => randomUUID(),
+  randomInt: (args) => {
+    const min = args.length > 0 ? parseInt(args[0], 10) : 0;
+    const max = args.length > 1 ? parseInt(args[1], 10) : 1000000;
+    if (isNaN(min) || isNaN(max) || max < min) {
+      throw new TemplateError('@{$randomInt(min,max)} needs two integers with min <= max');
+    }
+    return randomInt(min, max + 1).toString();
+  },
+  timestamp: () => Date.now().toString(),
+  isoTimestamp: () => new Date().toISOString(),
+  counter: () => (++counter).toString(),
+  runnerId: () => config.runnerId,
+  connectionId: (args, context) => context.connectionId !== undefined ? context.connectionId.toString() : ''
+};
+
+// Transformations applied to a value with @{name|filter}
+const FILTERS: Record<string, (value: string) => string> = {
+  url: (value) => encodeURIComponent(value),
+  json: (value) => JSON.stringify(value).slice(1, -1),
+  base64: (value) => Buffer.from(value).toString('base64')
+};
+
+// Evaluate the expression inside a placeholder, or return null if it refers to a missing variable
+function evaluate(expression: string, context: TemplateContext): string | null {
+  const match = EXPRESSION_REGEX.exec(expression);
+  if (!match) {
+    throw new TemplateError(`Invalid placeholder @{${expression}}`);
+  }
+
+  const [, name, args, defaultValue, filterList] = match;
+  let value: string | null;
+
+  if (name.startsWith('$')) {
+    const generator = GENERATORS[name.slice(1)];
+    if (!generator) {
+      throw new TemplateError(`Unknown generator @{${name}}, expected one of: ${Object.keys(GENERATORS).map(key => `$${key}`).join(', ')}`);
+    }
+    value = generator(args ? args.split(',').map(arg => arg.trim()) : [], context);
+  } else {
+    let dataValue = context.variables ? context.variables[name] : undefined;
+    if (dataValue === undefined && context.testData) {
+      dataValue = context.testData[name];
+    }
+    // Like the shell's ${name:-default}, the default also replaces empty values
+    if (defaultValue !== undefined && (dataValue === undefined || dataValue === '')) {
+      value = defaultValue;
+    } else {
+      value = dataValue !== undefined ? dataValue : null;
+    }
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  for (const filter of filterList.split('|').filter(filter => filter.length > 0)) {
+    if (!FILTERS[filter]) {
+      throw new TemplateError(`Unknown filter '${filter}' in @{${expression}}, expected one of: ${Object.keys(FILTERS).join(', ')}`);
+    }
+    value = FILTERS[filter](value);
+  }
+
+  return value;
+}
+
+// Replace the placeholders of a template; missing variables are left in place, or throw in strict mode
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER_REGEX, (placeholder, expression: string) => {
+    const value = evaluate(expression, context);
+    if (value !== null) {
+      return value;
+    }
+
+    const prefix = context.connectionId !== undefined ? `Connection ${context.connectionId}: ` : '';
+    if (config.templateStrict) {
+      throw new TemplateError(`${prefix}Variable ${placeholder} not found in test data`);
+    }
+
+    // Without test data, templates are expected to keep their placeholders
+    if (context.testData) {
+      logger.warn(`${prefix}Variable ${placeholder} not found in test data`);
+    } else {
+      logger.debug(`${prefix}No test data available, leaving ${placeholder} in place`);
+    }
+    return placeholder;
+  });
+}
+
+// Render every string inside a value such as a JSON message
+export function renderInValue(value: unknown, context: TemplateContext): unknown {
+  if (typeof value === 'string') {
+    return renderTemplate(value, context);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderInValue(item, context));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = renderInValue(item, context);
+    }
+    return result;
+  }
+  return value;
+}
+
+// Render templates against a sample data row, so that invalid placeholders (and missing variables
+// in strict mode) stop the test before it starts; variables only known at run time can be declared
+export function checkTemplates(templates: unknown[], sample: TestDataRow | null, variables: string[] = []): void {
+  const savedCounter = counter;
+  const declared = Object.fromEntries(variables.map(name => [name, '']));
+  try {
+    for (const template of templates) {
+      renderInValue(template, { testData: sample, variables: declared });
+    }
+  } finally {
+    counter = savedCounter;
+  }
+}
@@ -0,0 +1,68 @@
+import net from 'net';
+
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.TEST_MODE = 'websocket';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.NUM_CONNECTIONS = '3';
+process.env.RETRY_DELAY_MS = '60000';
+process.env.THRESHOLDS = 'success_rate > 99; errors < 1';
+
+// Port of a server that has just closed, so that connections to it are refused
+async function refusedPort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return address.port;
+}
+
+beforeAll(async () => {
+  process.env.WS_URL = `ws://127.0.0.1:${await refusedPort()}`;
+});
+
+describe('parseThreshold', () => {
+  it('accepts the metrics of the test mode', async () => {
+    const { parseThreshold } = await import('./thresholds');
+
+    expect(parseThreshold('p95 connect_time < 300ms').metric).toBe('connect_time');
+    expect(parseThreshold('errors.connection_refused < 5').metric).toBe('errors.connection_refused');
+    expect(parseThreshold('success_rate >= 99%').metric).toBe('success_rate');
+  });
+
+  it('rejects unknown metrics at startup', async () => {
+    const { parseThreshold } = await import('./thresholds');
+
+    expect(() => parseThreshold('p95 conect_time < 300ms')).toThrow(/unknown metric conect_time/);
+    expect(() => parseThreshold('p95 response_time < 300ms')).toThrow(/unknown metric response_time/);
+    expect(() => parseThreshold('errors.refused < 5')).toThrow(/unknown error category refused/);
+    expect(() => parseThreshold('p95 success_rate > 99')).toThrow(/only applies to latency metrics/);
+  });
+});
+
+describe('evaluateThresholds', () => {
+  it('fails the success rate when every WebSocket connection is refused', async () => {
+    const { webSocketManager } = await import('./websocket-manager');
+    const { statsManager } = await import('./stats');
+    const { buildSummary, ExitCode } = await import('./report');
+
+    const startTime = Date.now();
+    await webSocketManager.initialize();
+
+    // Each refused handshake ends with an error and a close
+    const deadline = Date.now() + 2000;
+    while (statsManager.getWebSocketStats().totalClosed < 3 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    await webSocketManager.shutdown();
+    expect(statsManager.getWebSocketStats().totalClosed).toBe(3);
+
+    const summary = buildSummary('test', startTime);
+    expect(summary.attempts).toBe(3);
+    expect(summary.successes).toBe(0);
+    expect(summary.successRate).toBe(0);
+    expect(summary.thresholds.map(result => result.passed)).toEqual([false, false]);
+    expect(summary.exitCode).toBe(ExitCode.THRESHOLDS_FAILED);
+  });
+});
@@ -0,0 +1,227 @@
+import { config, TestMode } from './config';
+import logger from './logger';
+import { TestSummary } from './report';
+import { HTTP_PHASE_METRICS } from './stats';
+import { ErrorCategory } from './error-classifier';
+
+type Operator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+type Aggregation = 'p50' | 'p90' | 'p95' | 'p99' | 'max' | 'mean';
+
+// A pass/fail condition on a test metric, e.g. "p95 connect_time < 300ms"
+export interface Threshold {
+  expression: string;
+  aggregation: Aggregation | null;
+  metric: string;
+  operator: Operator;
+  value: number;
+}
+
+// Outcome of evaluating a threshold
+export interface ThresholdResult {
+  expression: string;
+  actual: number | null;
+  passed: boolean;
+  irrecoverable: boolean;
+}
+
+// Counters that can only grow during a test
+const MONOTONIC_METRICS = ['attempts', 'successes', 'errors', 'checks_failed'];
+
+// Metrics read from the summary besides latencies
+const SUMMARY_METRICS = ['success_rate', 'attempts', 'successes', 'errors', 'attempts_per_second', 'successes_per_second', 'checks_failed', 'check_pass_rate'];
+
+// Latency metrics recorded in each test mode, besides the step_<name> metrics of HTTP scenarios
+const LATENCY_METRICS: Record<TestMode, string[]> = {
+  [TestMode.WEBSOCKET]: ['connect_time', 'message_latency'],
+  [TestMode.HTTP]: ['response_time', 'corrected_response_time', ...Object.values(HTTP_PHASE_METRICS)]
+};
+
+// Error categories of the summary, including the ones counted apart from classified errors
+const ERROR_CATEGORIES: Record<TestMode, string[]> = {
+  [TestMode.WEBSOCKET]: [...Object.values(ErrorCategory), 'message_timeout'],
+  [TestMode.HTTP]: [...Object.values(ErrorCategory), 'dropped_iteration']
+};
+
+const STEP_METRIC_REGEX = /^step_[a-z][a-z0-9_]*$/;
+const CHECK_NAME_REGEX = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)?$/;
+
+const THRESHOLD_REGEX = /^\s*(?:(p50|p90|p95|p99|max|mean|avg)\s+)?([a-z_][a-z0-9_.]*)\s*(<=|>=|==|!=|<|>)\s*(-?\d+(?:\.\d+)?)\s*(ms|s|%)?\s*$/i;
+
+// Parse a threshold expression
+export function parseThreshold(expression: string): Threshold {
+  const match = THRESHOLD_REGEX.exec(expression);
+  if (!match) {
+    throw new Error(`Invalid threshold '${expression}': expected "[p50|p90|p95|p99|max|mean] metric <operator> value[ms|s|%]"`);
+  }
+
+  const aggregation = match[1] ? (match[1].toLowerCase() === 'avg' ? 'mean' : match[1].toLowerCase()) as Aggregation : null;
+  const value = parseFloat(match[4]) * (match[5] === 's' ? 1000 : 1);
+
+  const threshold: Threshold = {
+    expression: expression.trim(),
+    aggregation,
+    metric: match[2].toLowerCase(),
+    operator: match[3] as Operator,
+    value
+  };
+  validateMetric(threshold);
+  return threshold;
+}
+
+// Reject metrics the test cannot record, so that a typo fails at startup rather than after the test
+function validateMetric(threshold: Threshold): void {
+  const { expression, metric } = threshold;
+  const latencyMetrics = LATENCY_METRICS[config.testMode];
+
+  if (latencyMetrics.includes(metric)) {
+    return;
+  }
+  if (config.testMode === TestMode.HTTP && STEP_METRIC_REGEX.test(metric)) {
+    if (!config.httpScenarioFile) {
+      throw new Error(`Invalid threshold '${expression}': ${metric} requires HTTP_SCENARIO_FILE`);
+    }
+    return;
+  }
+
+  validateSummaryMetric(threshold, latencyMetrics);
+  if (threshold.aggregation) {
+    throw new Error(`Invalid threshold '${expression}': ${threshold.aggregation} only applies to latency metrics: ` +
+      `${latencyMetrics.join(', ')}${config.testMode === TestMode.HTTP ? ', step_<name>' : ''}`);
+  }
+}
+
+// Reject metrics other than latencies that the summary does not have
+function validateSummaryMetric(threshold: Threshold, latencyMetrics: string[]): void {
+  const { expression, metric } = threshold;
+
+  if (SUMMARY_METRICS.includes(metric)) {
+    return;
+  }
+
+  if (metric.startsWith('errors.')) {
+    const category = metric.slice('errors.'.length);
+    if (!ERROR_CATEGORIES[config.testMode].includes(category)) {
+      throw new Error(`Invalid threshold '${expression}': unknown error category ${category}, expected one of: ${ERROR_CATEGORIES[config.testMode].join(', ')}`);
+    }
+    return;
+  }
+
+  if (metric.startsWith('checks_failed.')) {
+    if (!config.checksFile && !config.httpScenarioFile) {
+      throw new Error(`Invalid threshold '${expression}': ${metric} requires CHECKS_FILE or HTTP_SCENARIO_FILE`);
+    }
+    if (!CHECK_NAME_REGEX.test(metric.slice('checks_failed.'.length))) {
+      throw new Error(`Invalid threshold '${expression}': invalid check name in ${metric}`);
+    }
+    return;
+  }
+
+  throw new Error(`Invalid threshold '${expression}': unknown metric ${metric}, expected one of: ` +
+    `${[...SUMMARY_METRICS, 'errors.<category>', 'checks_failed.<check>', ...latencyMetrics].join(', ')}`);
+}
+
+// Thresholds configured for this run, validated at startup
+export const thresholds: Threshold[] = config.thresholds.map(parseThreshold);
+
+// Read the value a threshold applies to from the summary, or null if it is unknown
+function resolveMetric(threshold: Threshold, summary: TestSummary): number | null {
+  // A latency summary may only report dropped values
+  const latency = summary.latency[threshold.metric];
+  if (latency) {
+    return latency.count > 0 ? latency[threshold.aggregation || 'mean'] : null;
+  }
+
+  switch (threshold.metric) {
+    case 'success_rate':
+      return summary.successRate;
+    case 'attempts':
+      return summary.attempts;
+    case 'successes':
+      return summary.successes;
+    case 'errors':
+      return summary.errors.total;
+    case 'attempts_per_second':
+      return summary.throughput.attemptsPerSecond;
+    case 'successes_per_second':
+      return summary.throughput.successesPerSecond;
+    case 'checks_failed':
+      return summary.checks.failed;
+    case 'check_pass_rate':
+      return summary.checks.passRate;
+  }
+
+  // Errors of a single category, e.g. "errors.timeout"
+  if (threshold.metric.startsWith('errors.')) {
+    return summary.errors.byCategory[threshold.metric.slice('errors.'.length)] || 0;
+  }
+
+  // Failures of a single check, e.g. "checks_failed.status" or "checks_failed.login.status"
+  if (threshold.metric.startsWith('checks_failed.')) {
+    const check = summary.checks.byName[threshold.metric.slice('checks_failed.'.length)];
+    return check ? check.failures : 0;
+  }
+
+  // Unknown metric, or a latency metric that has not recorded any value yet
+  return null;
+}
+
+// Compare a value against a threshold
+function compare(actual: number, operator: Operator, expected: number): boolean {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+// Whether a failed threshold can no longer pass before the end of the test
+function isIrrecoverable(threshold: Threshold): boolean {
+  if (threshold.operator !== '<' && threshold.operator !== '<=') {
+    return false;
+  }
+
+  const isMonotonicCounter = MONOTONIC_METRICS.includes(threshold.metric) ||
+    threshold.metric.startsWith('errors.') || threshold.metric.startsWith('checks_failed.');
+  return isMonotonicCounter || threshold.aggregation === 'max';
+}
+
+// Evaluate all configured thresholds against the summary
+export function evaluateThresholds(summary: TestSummary): ThresholdResult[] {
+  return thresholds.map(threshold => {
+    const actual = resolveMetric(threshold, summary);
+    const passed = actual !== null && compare(actual, threshold.operator, threshold.value);
+
+    return {
+      expression: threshold.expression,
+      actual,
+      passed,
+      irrecoverable: !passed && actual !== null && isIrrecoverable(threshold)
+    };
+  });
+}
+
+// Return the first threshold that has failed in a way that cannot recover, if any
+export function findIrrecoverableBreach(summary: TestSummary): ThresholdResult | null {
+  return evaluateThresholds(summary).find(result => result.irrecoverable) || null;
+}
+
+// Print the threshold report to the log
+export function printThresholdReport(results: ThresholdResult[]): void {
+  if (results.length === 0) return;
+
+  const failed = results.filter(result => !result.passed).length;
+  logger.info(`Thresholds: ${results.length - failed} passed, ${failed} failed`);
+
+  for (const result of results) {
+    const actual = result.actual === null ? 'no data' : Number(result.actual.toFixed(2)).toString();
+    const message = `  [${result.passed ? 'PASS' : 'FAIL'}] ${result.expression} (actual: ${actual})`;
+    if (result.passed) {
+      logger.info(message);
+    } else {
+      logger.error(message);
+    }
+  }
+}
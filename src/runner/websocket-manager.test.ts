@@ -0,0 +1,82 @@
+import net from 'net';
+import { WebSocketServer } from 'ws';
+
+// The configuration is read when the modules are first loaded, so they are imported once the environment is set
+process.env.STANDALONE = 'true';
+process.env.TEST_MODE = 'websocket';
+process.env.METRICS_SINKS = 'noop';
+process.env.LOG_LEVEL = 'error';
+process.env.CONNECTION_MODE = 'staged';
+process.env.LOAD_STAGES = 'hold:1m:1';
+process.env.RETRY_DELAY_MS = '60000';
+
+let server: WebSocketServer;
+// Handshakes are left unanswered while this is set
+let holdHandshakes = false;
+const heldHandshakes: (() => void)[] = [];
+
+beforeAll(async () => {
+  server = new WebSocketServer({
+    port: 0,
+    host: '127.0.0.1',
+    verifyClient: (info, callback) => {
+      if (holdHandshakes) {
+        heldHandshakes.push(() => callback(false));
+      } else {
+        callback(true);
+      }
+    }
+  });
+  await new Promise(resolve => server.once('listening', resolve));
+  process.env.WS_URL = `ws://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  const { webSocketManager } = await import('./websocket-manager');
+  await webSocketManager.shutdown();
+  heldHandshakes.forEach(reject => reject());
+  await new Promise(resolve => server.close(resolve));
+});
+
+// Wait until a condition holds, failing with a description after a deadline
+async function waitFor(condition: () => boolean, description: string, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${description}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('WebSocketManager.scaleTo', () => {
+  it('waits for ramp-down closes and does not count them as errors', async () => {
+    const { webSocketManager } = await import('./websocket-manager');
+    const { statsManager } = await import('./stats');
+
+    await webSocketManager.scaleTo(3);
+    await waitFor(() => webSocketManager.getConnectionStats().active === 3, 'three open connections');
+
+    await webSocketManager.scaleTo(1);
+    const wsStats = statsManager.getWebSocketStats();
+    expect(webSocketManager.getConnectionStats().total).toBe(1);
+    expect(wsStats.totalClosed).toBe(2);
+    expect(wsStats.closeCodes).toEqual({ 1000: 2 });
+    expect(wsStats.totalErrors).toBe(0);
+  });
+
+  it('ends handshakes still in progress without recording errors', async () => {
+    const { webSocketManager } = await import('./websocket-manager');
+    const { statsManager } = await import('./stats');
+
+    holdHandshakes = true;
+    await webSocketManager.scaleTo(3);
+    await waitFor(() => heldHandshakes.length === 2, 'two pending handshakes');
+
+    await webSocketManager.scaleTo(0);
+    const wsStats = statsManager.getWebSocketStats();
+    expect(webSocketManager.getConnectionStats().total).toBe(0);
+    expect(wsStats.totalClosed).toBe(5);
+    expect(wsStats.totalErrors).toBe(0);
+  });
+});
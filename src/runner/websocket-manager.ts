@@ -1,8 +1,16 @@
 import WebSocket from 'ws';
-import { config, ConnectionMode } from './config';
+import { config, ConnectionMode, DataDistribution, TestMode } from './config';
 import logger from './logger';
 import { statsManager } from './stats';
-import { redisClient, TestDataRow } from './redis-client';
+import { rotateTestData, testDataSource, TestDataRow } from './data-source';
+import { checkTemplates, renderTemplate } from './template';
+import { loadScenario, Scenario, ScenarioRunner, scenarioTemplates } from './scenario';
+import { MessageTracker } from './message-tracker';
+import { Check, loadChecks, runChecks } from './checks';
+import { LoadProfileRunner } from './load-profile';
+import { classifyCloseCode, classifyError } from './error-classifier';
+import { PauseGate } from './pause-gate';
+import { LoadController } from './command-channel';
 
 // WebSocket connection class to handle individual connections
 class WebSocketConnection {
@@ -15,38 +23,25 @@ class WebSocketConnection {
   private testData: TestDataRow | null = null;
   private urlTemplate: string;
   private connectionClosedCalled: boolean = false;
+  private errorRecorded: boolean = false;
+  private scenario: Scenario | null;
+  private scenarioRunner: ScenarioRunner | null = null;
+  private messageTracker: MessageTracker | null = null;
+  private checks: Check[];
 
-  constructor(urlTemplate: string, id: number, testData: TestDataRow | null = null) {
+  constructor(urlTemplate: string, id: number, testData: TestDataRow | null = null, scenario: Scenario | null = null, checks: Check[] = []) {
     this.urlTemplate = urlTemplate;
     this.testData = testData;
-    this.url = this.replaceUrlVariables(urlTemplate, testData);
+    this.scenario = scenario;
+    this.checks = checks;
     this.id = id;
+    // Rendered before each connection attempt
+    this.url = urlTemplate;
   }
 
-  // Replace variables in URL with test data values
-  private replaceUrlVariables(urlTemplate: string, testData: TestDataRow | null): string {
-    if (!testData) {
-      logger.debug(`Connection ${this.id}: No test data available, using raw URL`);
-      return urlTemplate;
-    }
-
-    let url = urlTemplate;
-
-    // Replace ${variable} with corresponding value from test data
-    const variableRegex = /@{([^}]+)}/g;
-    let match;
-
-    while ((match = variableRegex.exec(urlTemplate)) !== null) {
-      const variableName = match[1];
-      if (testData[variableName]) {
-        url = url.replace(`@{${variableName}}`, testData[variableName]);
-        logger.debug(`Connection ${this.id}: Replaced @{${variableName}} with ${testData[variableName]}`);
-      } else {
-        logger.warn(`Connection ${this.id}: Variable @{${variableName}} not found in test data`);
-      }
-    }
-
-    return url;
+  // Render the URL template with the test data row
+  private renderUrl(testData: TestDataRow | null): string {
+    return renderTemplate(this.urlTemplate, { testData, connectionId: this.id });
   }
 
   // Connect to the WebSocket server
@@ -58,12 +53,15 @@ class WebSocketConnection {
 
     this.isClosing = false;
     this.connectionClosedCalled = false;
+    this.errorRecorded = false;
     this.connectStartTime = Date.now();
     statsManager.connectionAttempted();
 
-    logger.debug(`Connection ${this.id}: Attempting to connect to ${this.url}`);
-
     try {
+      // Render the URL on every attempt so that generators such as @{$uuid} produce fresh values
+      this.url = this.renderUrl(this.testData);
+      logger.debug(`Connection ${this.id}: Attempting to connect to ${this.url}`);
+
       this.ws = new WebSocket(this.url);
 
       // Set up event handlers
@@ -73,7 +71,7 @@ class WebSocketConnection {
       this.ws.on('message', this.handleMessage.bind(this));
     } catch (error) {
       logger.error(`Connection ${this.id}: Failed to create WebSocket: ${(error as Error).message}`);
-      statsManager.connectionError();
+      statsManager.connectionError(classifyError(error));
       this.scheduleReconnect();
     }
   }
@@ -83,11 +81,86 @@ class WebSocketConnection {
     const connectTime = Date.now() - this.connectStartTime;
     logger.info(`Connection ${this.id}: Connected in ${connectTime}ms`);
     statsManager.connectionOpened(connectTime);
+    this.messageTracker = new MessageTracker(this.id);
+
+    // Run the configured scenario on this connection
+    if (this.scenario) {
+      this.scenarioRunner = new ScenarioRunner(this.scenario, {
+        connectionId: this.id,
+        testData: this.testData,
+        send: this.send.bind(this),
+        close: this.closeGracefully.bind(this)
+      });
+      this.scenarioRunner.start();
+    }
+  }
+
+  // Send a message on the open connection
+  private send(message: string): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      logger.warn(`Connection ${this.id}: Cannot send message, connection is not open`);
+      return;
+    }
+
+    const outgoing = this.messageTracker ? this.messageTracker.prepareOutgoing(message) : message;
+    this.ws.send(outgoing);
+  }
+
+  // Close the connection with a close frame and do not reconnect; resolves once the connection is closed
+  public closeGracefully(code: number = 1000, reason: string = ''): Promise<void> {
+    this.isClosing = true;
+    this.stopScenario();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const ws = this.ws;
+    if (!ws || ws.readyState === WebSocket.CLOSED) {
+      return Promise.resolve();
+    }
+
+    const closed = new Promise<void>(resolve => ws.once('close', () => resolve()));
+    try {
+      // A handshake still in progress cannot be answered with a close frame
+      if (ws.readyState === WebSocket.CONNECTING) {
+        ws.terminate();
+      } else if (ws.readyState === WebSocket.OPEN) {
+        ws.close(code, reason);
+      }
+    } catch (error) {
+      logger.error(`Connection ${this.id}: Error closing connection: ${(error as Error).message}`);
+      return Promise.resolve();
+    }
+    return closed;
+  }
+
+  // Stop the running scenario and message tracking, if any
+  private stopScenario(): void {
+    if (this.scenarioRunner) {
+      this.scenarioRunner.stop();
+      this.scenarioRunner = null;
+    }
+
+    if (this.messageTracker) {
+      this.messageTracker.stop();
+      this.messageTracker = null;
+    }
   }
 
   // Handle connection close
   private handleClose(code: number, reason: string): void {
     logger.info(`Connection ${this.id}: Closed with code ${code}, reason: ${reason || 'No reason provided'}`);
+    statsManager.wsCloseCode(code);
+    this.stopScenario();
+
+    // Count abnormal closes as errors, unless an error event already explained them
+    const closeClassification = classifyCloseCode(code);
+    if (closeClassification && !this.errorRecorded && !this.isClosing) {
+      statsManager.connectionError(closeClassification);
+      this.errorRecorded = true;
+    }
 
     // Only call connectionClosed once per connection lifecycle
     if (!this.connectionClosedCalled) {
@@ -108,15 +181,36 @@ class WebSocketConnection {
 
   // Handle connection error
   private handleError(error: Error): void {
-    logger.error(`Connection ${this.id}: Error: ${error.message}`);
-    statsManager.connectionError();
+    // Aborting a handshake while closing the connection on purpose is not a failure
+    if (this.isClosing) {
+      logger.debug(`Connection ${this.id}: Error while closing: ${error.message}`);
+      return;
+    }
+
+    const classification = classifyError(error);
+    logger.error(`Connection ${this.id}: Error (${classification.category}/${classification.code}): ${error.message}`);
+    statsManager.connectionError(classification);
+    this.errorRecorded = true;
 
     // WebSocket will also emit close event after error
   }
 
   // Handle incoming messages
   private handleMessage(data: WebSocket.Data): void {
-    logger.debug(`Connection ${this.id}: Received message: ${data.toString()}`);
+    const message = data.toString();
+    logger.debug(`Connection ${this.id}: Received message: ${message}`);
+
+    if (this.checks.length > 0) {
+      runChecks(this.checks, { body: message }, this.id);
+    }
+
+    if (this.messageTracker) {
+      this.messageTracker.handleIncoming(message);
+    }
+
+    if (this.scenarioRunner) {
+      this.scenarioRunner.handleMessage(message);
+    }
   }
 
   // Schedule reconnection attempt
@@ -127,7 +221,15 @@ class WebSocketConnection {
 
     logger.debug(`Connection ${this.id}: Scheduling reconnect in ${config.retryDelayMs}ms`);
 
-    this.reconnectTimer = setTimeout(() => {
+    this.reconnectTimer = setTimeout(async () => {
+      // Reconnect as a different user when data rotation is enabled; the current row is kept if rotating fails
+      try {
+        this.setTestData(await rotateTestData(this.testData));
+      } catch (error) {
+        logger.error(`Connection ${this.id}: Failed to rotate test data, keeping the current row: ${(error as Error).message}`);
+      }
+      if (this.isClosing) return;
+
       logger.info(`Connection ${this.id}: Attempting to reconnect`);
       this.connect();
     }, config.retryDelayMs);
@@ -136,6 +238,7 @@ class WebSocketConnection {
   // Close the connection
   public close(): void {
     this.isClosing = true;
+    this.stopScenario();
 
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
@@ -156,45 +259,82 @@ class WebSocketConnection {
   public isConnected(): boolean {
     return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
+
+  // Get the test data row bound to this connection
+  public getTestData(): TestDataRow | null {
+    return this.testData;
+  }
+
+  // Bind another test data row, used from the next connection attempt on
+  public setTestData(testData: TestDataRow | null): void {
+    this.testData = testData;
+  }
 }
 
 // WebSocket manager to handle multiple connections
-class WebSocketManager {
+class WebSocketManager implements LoadController {
   private connections: WebSocketConnection[] = [];
   private progressiveConnectionTimer: NodeJS.Timeout | null = null;
+  private isReadingProgressiveRow: boolean = false;
+  private progressiveCreated: number = 0;
+  private onProgressiveFinished: (() => void) | null = null;
+  private connectionRate: number = config.connectionRate;
+  private pauseGate: PauseGate = new PauseGate();
   private isShuttingDown: boolean = false;
   private hasTestData: boolean = false;
   private calculatedNumConnections: number = 0;
-
-  constructor() {
-    // Register process exit handlers
-    process.on('SIGINT', this.shutdown.bind(this));
-    process.on('SIGTERM', this.shutdown.bind(this));
-  }
+  private scenario: Scenario | null = null;
+  private checks: Check[] = [];
+  private loadProfileRunner: LoadProfileRunner | null = null;
+  private releasedTestData: TestDataRow[] = [];
+  private nextConnectionId: number = 1;
+  private testDataExhausted: boolean = false;
 
   // Initialize connections
   public async initialize(): Promise<void> {
-    // Load test data from Redis
-    logger.info('Attempting to load test data from Redis...');
-    this.hasTestData = await redisClient.loadTestData();
+    // Load the scenario executed by each connection, if configured
+    if (config.wsScenarioFile) {
+      this.scenario = await loadScenario(config.wsScenarioFile);
+    }
+
+    // Load the checks run against every received message, if configured
+    if (config.checksFile) {
+      this.checks = await loadChecks(config.checksFile, TestMode.WEBSOCKET);
+    }
+
+    // Load test data from the configured source
+    logger.info(`Attempting to load test data from ${testDataSource.description}...`);
+    this.hasTestData = await testDataSource.loadTestData();
+
+    // The test may have been stopped while waiting for the test data
+    if (this.isShuttingDown) return;
+
+    // Fail before opening connections if the templates are invalid
+    const sample = this.hasTestData ? await testDataSource.peekTestData() : null;
+    checkTemplates([config.wsUrl, ...(this.scenario ? scenarioTemplates(this.scenario.steps) : [])], sample);
 
     // Calculate number of connections
     let numConnections = config.numConnections;
 
     if (this.hasTestData) {
-      const dataCount = redisClient.getTestDataCount();
-      logger.info(`Successfully loaded ${dataCount} test data rows from Redis`);
+      const dataCount = testDataSource.getTestDataCount();
+      logger.info(`Successfully loaded ${dataCount} test data rows from ${testDataSource.description}`);
       logger.info('URLs will be generated dynamically using test data');
 
-      // Calculate connections based on Redis data count and replicas
-      numConnections = Math.ceil(dataCount / config.replicas);
-      logger.info(`Calculated ${numConnections} connections per replica (${dataCount} data rows / ${config.replicas} replicas)`);
+      // One connection per claimed data row, until the rows run out or the per-runner cap is reached;
+      // round-robin rows never run out, so NUM_CONNECTIONS sets the number of connections
+      if (config.dataDistribution === DataDistribution.ROUND_ROBIN) {
+        logger.info(`Opening ${numConnections} connections, cycling through the data rows`);
+      } else {
+        numConnections = config.maxRowsPerRunner > 0 ? config.maxRowsPerRunner : Infinity;
+        logger.info(`Opening one connection per claimed data row${config.maxRowsPerRunner > 0 ? `, at most ${config.maxRowsPerRunner}` : ''}`);
+      }
     } else {
       logger.warn('No test data available, using NUM_CONNECTIONS environment variable');
       logger.info(`Using ${numConnections} connections from NUM_CONNECTIONS environment variable`);
     }
 
-    logger.info(`Initializing WebSocket manager with ${numConnections} connections to ${config.wsUrl}`);
+    logger.info(`Initializing WebSocket manager with ${isFinite(numConnections) ? `${numConnections} connections` : 'claimed data rows'} to ${config.wsUrl}`);
     logger.info(`Connection mode: ${config.connectionMode}, Rate: ${config.connectionRate} connections/second`);
 
     // Store the calculated number of connections for use in connection creation methods
@@ -202,20 +342,76 @@ class WebSocketManager {
 
     if (config.connectionMode === ConnectionMode.INSTANT) {
       await this.createInstantConnections();
+    } else if (config.connectionMode === ConnectionMode.STAGED) {
+      this.startLoadProfile();
     } else {
       await this.createProgressiveConnections();
     }
   }
 
+  // Follow the configured load profile in the background
+  private startLoadProfile(): void {
+    this.loadProfileRunner = new LoadProfileRunner(config.loadStages, this.scaleTo.bind(this));
+    this.loadProfileRunner.run().then(() => {
+      logger.info(`Load profile finished with ${this.connections.length} connections`);
+    }).catch(error => {
+      logger.error(`Load profile failed: ${(error as Error).message}`);
+    });
+  }
+
+  // Open or gracefully close connections until the given number of connections exist
+  public async scaleTo(target: number): Promise<void> {
+    if (this.isShuttingDown) return;
+
+    // Open new connections, reusing data rows released by earlier ramp-downs first
+    while (this.connections.length < target && !this.isShuttingDown) {
+      let testData: TestDataRow | null = null;
+      if (this.hasTestData) {
+        testData = this.releasedTestData.pop() || await testDataSource.popTestData();
+        if (!testData) {
+          if (!this.testDataExhausted) {
+            logger.warn(`Test data exhausted, cannot scale beyond ${this.connections.length} connections`);
+            this.testDataExhausted = true;
+          }
+          break;
+        }
+      }
+
+      const connection = new WebSocketConnection(config.wsUrl, this.nextConnectionId++, testData, this.scenario, this.checks);
+      this.connections.push(connection);
+      connection.connect();
+    }
+
+    // Close the most recently opened connections
+    const closing = this.connections.splice(Math.max(target, 0));
+    await Promise.all(closing.map(connection => connection.closeGracefully(1000, 'Load profile ramp-down')));
+
+    // Release their data rows only once they are closed, so a new connection cannot use a row still in use
+    for (const connection of closing.reverse()) {
+      const testData = connection.getTestData();
+      if (testData) {
+        this.releasedTestData.push(testData);
+        this.testDataExhausted = false;
+      }
+    }
+  }
+
   // Create all connections at once
   private async createInstantConnections(): Promise<void> {
     logger.info('Creating all connections instantly');
 
-    for (let i = 0; i < this.calculatedNumConnections; i++) {
-      // Pop test data from Redis list if available
-      const testData = this.hasTestData ? await redisClient.popTestData() : null;
+    for (let i = 0; i < this.calculatedNumConnections && !this.isShuttingDown; i++) {
+      await this.pauseGate.wait();
+      if (this.isShuttingDown) break;
 
-      const connection = new WebSocketConnection(config.wsUrl, i + 1, testData);
+      // Pop test data if available
+      const testData = this.hasTestData ? await testDataSource.popTestData() : null;
+      if (this.hasTestData && !testData) {
+        logger.info(`Test data exhausted after ${this.connections.length} connections`);
+        break;
+      }
+
+      const connection = new WebSocketConnection(config.wsUrl, this.nextConnectionId++, testData, this.scenario, this.checks);
       this.connections.push(connection);
       connection.connect();
     }
@@ -225,36 +421,120 @@ class WebSocketManager {
 
   // Create connections progressively
   private async createProgressiveConnections(): Promise<void> {
-    logger.info(`Creating connections progressively at rate of ${config.connectionRate} per second`);
-
-    let createdCount = 0;
-    const intervalMs = 1000 / config.connectionRate;
+    logger.info(`Creating connections progressively at rate of ${this.connectionRate} per second`);
 
     return new Promise((resolve) => {
-      this.progressiveConnectionTimer = setInterval(async () => {
-        if (createdCount >= this.calculatedNumConnections || this.isShuttingDown) {
-          if (this.progressiveConnectionTimer) {
-            clearInterval(this.progressiveConnectionTimer);
-            this.progressiveConnectionTimer = null;
-          }
-          logger.info(`Finished creating ${createdCount} connections progressively`);
-          resolve();
-          return;
-        }
+      this.onProgressiveFinished = resolve;
+      this.startProgressiveTimer();
+    });
+  }
 
-        // Pop test data from Redis list if available
-        const testData = this.hasTestData ? await redisClient.popTestData() : null;
+  // (Re)start the timer creating connections at the current rate
+  private startProgressiveTimer(): void {
+    if (this.progressiveConnectionTimer) {
+      clearInterval(this.progressiveConnectionTimer);
+    }
 
-        const connection = new WebSocketConnection(config.wsUrl, createdCount + 1, testData);
-        this.connections.push(connection);
-        connection.connect();
-        createdCount++;
+    this.progressiveConnectionTimer = setInterval(async () => {
+      if (this.progressiveCreated >= this.calculatedNumConnections || this.isShuttingDown) {
+        logger.info(`Finished creating ${this.progressiveCreated} connections progressively`);
+        this.stopProgressiveConnections();
+        return;
+      }
 
-        if (createdCount % 10 === 0) {
-          logger.info(`Created ${createdCount}/${this.calculatedNumConnections} connections`);
-        }
-      }, intervalMs);
-    });
+      // Hold creation while the test is paused
+      if (this.pauseGate.isPaused()) return;
+
+      // Pop test data if available; ticks are skipped while a read is pending, so that slow reads
+      // cannot create more connections than configured
+      if (this.isReadingProgressiveRow) return;
+      this.isReadingProgressiveRow = true;
+      let testData: TestDataRow | null;
+      try {
+        testData = this.hasTestData ? await testDataSource.popTestData() : null;
+      } catch (error) {
+        logger.error(`Failed to read test data for a new connection: ${(error as Error).message}`);
+        return;
+      } finally {
+        this.isReadingProgressiveRow = false;
+      }
+      if (this.hasTestData && !testData) {
+        logger.info(`Test data exhausted, finished creating ${this.progressiveCreated} connections progressively`);
+        this.stopProgressiveConnections();
+        return;
+      }
+
+      const connection = new WebSocketConnection(config.wsUrl, this.nextConnectionId++, testData, this.scenario, this.checks);
+      this.connections.push(connection);
+      connection.connect();
+      this.progressiveCreated++;
+
+      if (this.progressiveCreated % 10 === 0) {
+        const total = isFinite(this.calculatedNumConnections) ? `/${this.calculatedNumConnections}` : '';
+        logger.info(`Created ${this.progressiveCreated}${total} connections`);
+      }
+    }, 1000 / this.connectionRate);
+  }
+
+  // Stop creating connections progressively
+  private stopProgressiveConnections(): void {
+    if (this.progressiveConnectionTimer) {
+      clearInterval(this.progressiveConnectionTimer);
+      this.progressiveConnectionTimer = null;
+    }
+
+    if (this.onProgressiveFinished) {
+      const onFinished = this.onProgressiveFinished;
+      this.onProgressiveFinished = null;
+      onFinished();
+    }
+  }
+
+  // Stop opening new connections; open connections stay open
+  public pause(): void {
+    this.pauseGate.pause();
+    if (this.loadProfileRunner) {
+      this.loadProfileRunner.pause();
+    }
+    logger.info(`Paused with ${this.connections.length} connections`);
+  }
+
+  // Continue opening connections
+  public resume(): void {
+    this.pauseGate.resume();
+    if (this.loadProfileRunner) {
+      this.loadProfileRunner.resume();
+    }
+    logger.info('Resumed');
+  }
+
+  // Override the connection count; any ramp in progress stops at the new target
+  public async setTarget(target: number): Promise<void> {
+    if (this.loadProfileRunner) {
+      logger.info('Load profile stopped by a set_target command');
+      this.loadProfileRunner.stop();
+      this.loadProfileRunner = null;
+    }
+    if (this.progressiveConnectionTimer) {
+      logger.info(`Progressive creation stopped by a set_target command after ${this.progressiveCreated} connections`);
+      this.stopProgressiveConnections();
+    }
+
+    this.calculatedNumConnections = target;
+    await this.scaleTo(target);
+  }
+
+  // Change the progressive connection rate
+  public setRate(rate: number): void {
+    if (config.connectionMode !== ConnectionMode.PROGRESSIVE) {
+      throw new Error('set_rate only applies to CONNECTION_MODE=progressive');
+    }
+
+    this.connectionRate = rate;
+    if (this.progressiveConnectionTimer) {
+      this.startProgressiveTimer();
+    }
+    logger.info(`Connection rate changed to ${rate} connections/second`);
   }
 
   // Get connection statistics
@@ -274,11 +554,16 @@ class WebSocketManager {
     this.isShuttingDown = true;
     logger.info('Shutting down WebSocket manager');
 
-    if (this.progressiveConnectionTimer) {
-      clearInterval(this.progressiveConnectionTimer);
-      this.progressiveConnectionTimer = null;
+    this.stopProgressiveConnections();
+
+    if (this.loadProfileRunner) {
+      this.loadProfileRunner.stop();
+      this.loadProfileRunner = null;
     }
 
+    // Release loops waiting for a resume so they can see the shutdown
+    this.pauseGate.resume();
+
     // Close all connections
     for (const connection of this.connections) {
       connection.close();
@@ -290,9 +575,6 @@ class WebSocketManager {
     // Close stats manager
     await statsManager.close();
 
-    // Close Redis client
-    await redisClient.close();
-
     logger.info('WebSocket manager shutdown complete');
   }
 }